@@ -5,12 +5,51 @@
 
 import { Request, Response } from 'express';
 import { prisma } from '../server';
-import { AuthenticatedRequest, CreatePartnerRequest, UpdateInventoryRequest } from '../types';
+import {
+  AuthenticatedRequest,
+  CreatePartnerRequest,
+  UpdateInventoryRequest,
+  CreateCouponRequest,
+  UpdateCouponRequest,
+  CreateChargeRuleRequest,
+  CreatePricingRuleRequest,
+  SimulatePricingRequest,
+  CreatePolicyRequest,
+  UpdatePolicyRequest,
+} from '../types';
 import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
 import { authorizeAdmin } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
 import bcrypt from 'bcryptjs';
-import { UserRole, UserStatus, PartnerStatus, BookingStatus } from '@prisma/client';
+import {
+  UserRole,
+  UserStatus,
+  PartnerStatus,
+  BookingStatus,
+  BookingCategory,
+  DiscountType,
+  CabinClass,
+  ChargeCalculation,
+  PricingTrigger,
+  Prisma,
+} from '@prisma/client';
+import { normalizeCouponCode } from '../services/coupon.service';
+import { simulateFare } from '../services/dynamicPricing.service';
+import { rollForwardSchedules } from '../services/scheduleGenerator.service';
+import { processBookingRefunds, processRefund } from '../services/refund.service';
+import { auditWallets } from '../services/wallet.service';
+import { reconcilePendingPayments, buildSettlementReport } from '../services/paymentReconciliation.service';
+import {
+  POLICY_CATEGORIES,
+  isPolicyCategory,
+  evaluatePolicy,
+  createPolicy,
+  updatePolicy,
+  deletePolicy,
+  findCancellationSlab,
+  PolicyRules,
+} from '../services/policy.service';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
 
 // ============================================================================
 // DASHBOARD STATS
@@ -240,6 +279,38 @@ export const updateUserStatus = asyncHandler(async (req: AuthenticatedRequest, r
   });
 });
 
+/**
+ * Link user to a partner as partner staff
+ * PATCH /api/v1/admin/users/:id/partner
+ */
+export const updateUserPartner = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { partnerId } = req.body;
+
+  if (partnerId) {
+    const partner = await prisma.partner.findUnique({ where: { id: partnerId } });
+    if (!partner) {
+      throw new NotFoundError('Partner not found');
+    }
+  }
+
+  const user = await prisma.user.update({
+    where: { id },
+    data: {
+      partnerId: partnerId || null,
+      role: partnerId ? UserRole.PARTNER : UserRole.CUSTOMER,
+    },
+  });
+
+  logger.info(`User ${id} linked to partner ${partnerId || 'none'} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: partnerId ? 'User linked to partner' : 'User unlinked from partner',
+    data: user,
+  });
+});
+
 /**
  * Create admin user
  * POST /api/v1/admin/users/create-admin
@@ -358,6 +429,9 @@ export const getPartners = asyncHandler(async (req: AuthenticatedRequest, res: R
 export const createPartner = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const data: CreatePartnerRequest = req.body;
 
+  // Hold settings not given default to the HOLD policy
+  const holdPolicy = await evaluatePolicy('HOLD');
+
   const partner = await prisma.partner.create({
     data: {
       name: data.name,
@@ -372,8 +446,8 @@ export const createPartner = asyncHandler(async (req: AuthenticatedRequest, res:
       gstNumber: data.gstNumber,
       panNumber: data.panNumber,
       holdQuotaEnabled: data.holdQuotaEnabled ?? true,
-      holdQuotaPercentage: data.holdQuotaPercentage ?? 25,
-      holdExpiryMinutes: data.holdExpiryMinutes ?? 30,
+      holdQuotaPercentage: data.holdQuotaPercentage ?? holdPolicy.rules.quotaPercentage,
+      holdExpiryMinutes: data.holdExpiryMinutes ?? holdPolicy.rules.expiryMinutes,
       status: PartnerStatus.ACTIVE,
     },
   });
@@ -620,7 +694,13 @@ export const processCancellation = asyncHandler(async (req: AuthenticatedRequest
       },
     });
 
-    // TODO: Process actual refund via payment gateway
+    // Failures are retried by the refund job
+    await processBookingRefunds(cancellation.bookingId);
+  } else {
+    await prisma.cancellationRequest.update({
+      where: { id },
+      data: { refundStatus: 'REJECTED' },
+    });
   }
 
   logger.info(`Cancellation ${id} ${action}D by ${req.user?.email}`);
@@ -630,4 +710,1071 @@ export const processCancellation = asyncHandler(async (req: AuthenticatedRequest
     message: `Cancellation ${action.toLowerCase()}ed`,
     data: cancellation,
   });
+});
+
+/**
+ * Get schedule disruptions
+ * GET /api/v1/admin/disruptions
+ */
+export const getDisruptions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const { category, type } = req.query;
+
+  const where: any = {};
+
+  if (category) {
+    where.category = category;
+  }
+
+  if (type) {
+    where.type = type;
+  }
+
+  const [disruptions, total] = await Promise.all([
+    prisma.scheduleDisruption.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.scheduleDisruption.count({ where }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Disruptions retrieved',
+    data: disruptions,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * Get a disruption with every passenger action taken
+ * GET /api/v1/admin/disruptions/:id
+ */
+export const getDisruptionById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const disruption = await prisma.scheduleDisruption.findUnique({
+    where: { id },
+    include: {
+      actions: {
+        include: {
+          booking: { select: { id: true, bookingNumber: true, status: true } },
+          passenger: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!disruption) {
+    throw new NotFoundError('Disruption not found');
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Disruption retrieved',
+    data: disruption,
+  });
+});
+
+/**
+ * Get refund payouts
+ * GET /api/v1/admin/refunds
+ */
+export const getRefunds = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const status = req.query.status as string;
+  const bookingId = req.query.bookingId as string;
+
+  const where: any = {};
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (bookingId) {
+    where.bookingId = bookingId;
+  }
+
+  const [refunds, total] = await Promise.all([
+    prisma.refund.findMany({
+      where,
+      include: {
+        booking: { select: { id: true, bookingNumber: true, status: true, paymentMethod: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.refund.count({ where }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Refunds retrieved',
+    data: refunds,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * Retry a failed refund now
+ * POST /api/v1/admin/refunds/:id/retry
+ */
+export const retryRefund = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const refund = await prisma.refund.findUnique({
+    where: { id },
+  });
+
+  if (!refund) {
+    throw new NotFoundError('Refund not found');
+  }
+
+  if (refund.status !== 'FAILED') {
+    throw new BadRequestError('Only failed refunds can be retried');
+  }
+
+  const result = await processRefund(id);
+
+  logger.info(`Refund ${id} retried by ${req.user?.email}: ${result.status}`);
+
+  res.status(200).json({
+    success: true,
+    message: result.status === 'FAILED' ? `Refund failed again: ${result.lastError}` : 'Refund retried',
+    data: result,
+  });
+});
+
+/**
+ * Recompute wallet balances from the ledger and report drift
+ * POST /api/v1/admin/wallets/audit
+ */
+export const auditWalletsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const fix = req.body.fix === true;
+
+  const drifts = await auditWallets({ fix });
+
+  logger.info(`Wallet audit run by ${req.user?.email}: ${drifts.length} drifted${fix ? ' (fix)' : ''}`);
+
+  res.status(200).json({
+    success: true,
+    message: drifts.length > 0 ? `${drifts.length} wallet(s) drifted from the ledger` : 'All wallets match the ledger',
+    data: drifts,
+  });
+});
+
+/**
+ * Settle stale pending bookings against the gateway now
+ * POST /api/v1/admin/payments/reconcile
+ */
+export const reconcilePaymentsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await reconcilePendingPayments();
+
+  logger.info(`Payment reconciliation run by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Pending payments reconciled',
+    data: result,
+  });
+});
+
+/**
+ * Get daily settlement mismatch reports
+ * GET /api/v1/admin/payments/settlement-reports
+ */
+export const getSettlementReports = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const mismatchedOnly = req.query.mismatched === 'true';
+
+  const where = mismatchedOnly ? { mismatchCount: { gt: 0 } } : {};
+
+  const [reports, total] = await Promise.all([
+    prisma.paymentReconciliationReport.findMany({
+      where,
+      orderBy: { reportDate: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.paymentReconciliationReport.count({ where }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Settlement reports retrieved',
+    data: reports,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * Build (or rebuild) the settlement report for a day
+ * POST /api/v1/admin/payments/settlement-reports
+ */
+export const createSettlementReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const date = req.body.date ? new Date(req.body.date) : new Date();
+
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError('Invalid report date');
+  }
+
+  const report = await buildSettlementReport(date);
+
+  res.status(200).json({
+    success: true,
+    message: report.mismatchCount > 0 ? `${report.mismatchCount} settlement mismatch(es) found` : 'No settlement mismatches',
+    data: report,
+  });
+});
+
+// ============================================================================
+// COUPON MANAGEMENT
+// ============================================================================
+
+/**
+ * Get coupons
+ * GET /api/v1/admin/coupons
+ */
+export const getCoupons = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const isActive = req.query.isActive as string;
+
+  const where: any = {};
+
+  if (isActive !== undefined) {
+    where.isActive = isActive === 'true';
+  }
+
+  const [coupons, total] = await Promise.all([
+    prisma.coupon.findMany({
+      where,
+      include: {
+        _count: {
+          select: {
+            redemptions: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.coupon.count({ where }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Coupons retrieved',
+    data: coupons,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+const validateCouponDates = (validFrom: Date, validUntil: Date) => {
+  if (isNaN(validFrom.getTime()) || isNaN(validUntil.getTime())) {
+    throw new BadRequestError('validFrom and validUntil must be valid dates');
+  }
+
+  if (validUntil <= validFrom) {
+    throw new BadRequestError('validUntil must be after validFrom');
+  }
+};
+
+const validateCouponDiscount = (discountType: DiscountType, discountValue: number) => {
+  if (!(discountValue > 0)) {
+    throw new BadRequestError('discountValue must be greater than 0');
+  }
+
+  if (discountType === DiscountType.PERCENTAGE && discountValue > 100) {
+    throw new BadRequestError('Percentage discount cannot exceed 100');
+  }
+};
+
+/**
+ * Create coupon
+ * POST /api/v1/admin/coupons
+ */
+export const createCoupon = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data: CreateCouponRequest = req.body;
+
+  validateCouponDates(new Date(data.validFrom), new Date(data.validUntil));
+  validateCouponDiscount(data.discountType, data.discountValue);
+
+  const coupon = await prisma.coupon.create({
+    data: {
+      code: normalizeCouponCode(data.code),
+      description: data.description,
+      discountType: data.discountType,
+      discountValue: data.discountValue,
+      maxDiscountAmount: data.maxDiscountAmount,
+      minOrderValue: data.minOrderValue ?? 0,
+      categories: data.categories ?? [],
+      validFrom: new Date(data.validFrom),
+      validUntil: new Date(data.validUntil),
+      usageLimit: data.usageLimit,
+      perUserLimit: data.perUserLimit ?? 1,
+      createdBy: req.user?.id,
+    },
+  });
+
+  logger.info(`Coupon created: ${coupon.code} by ${req.user?.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Coupon created',
+    data: coupon,
+  });
+});
+
+/**
+ * Update coupon
+ * PATCH /api/v1/admin/coupons/:id
+ * Code and usage count are fixed once created; only the fields below can change.
+ */
+export const updateCoupon = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const body: UpdateCouponRequest = req.body;
+
+  if (req.body.code !== undefined || req.body.usedCount !== undefined) {
+    throw new BadRequestError('Coupon code and usage count cannot be changed');
+  }
+
+  const existing = await prisma.coupon.findUnique({
+    where: { id },
+  });
+
+  if (!existing) {
+    throw new NotFoundError('Coupon not found');
+  }
+
+  const data: Prisma.CouponUpdateInput = {};
+
+  if (body.description !== undefined) {
+    data.description = body.description;
+  }
+
+  if (body.discountType !== undefined || body.discountValue !== undefined) {
+    const discountType = body.discountType ?? existing.discountType;
+    const discountValue = body.discountValue !== undefined ? Number(body.discountValue) : Number(existing.discountValue);
+
+    if (!Object.values(DiscountType).includes(discountType)) {
+      throw new BadRequestError('discountType must be PERCENTAGE or FLAT');
+    }
+
+    validateCouponDiscount(discountType, discountValue);
+    data.discountType = discountType;
+    data.discountValue = discountValue;
+  }
+
+  if (body.maxDiscountAmount !== undefined) {
+    if (body.maxDiscountAmount !== null && !(Number(body.maxDiscountAmount) > 0)) {
+      throw new BadRequestError('maxDiscountAmount must be greater than 0');
+    }
+    data.maxDiscountAmount = body.maxDiscountAmount === null ? null : Number(body.maxDiscountAmount);
+  }
+
+  if (body.minOrderValue !== undefined) {
+    if (!(Number(body.minOrderValue) >= 0)) {
+      throw new BadRequestError('minOrderValue cannot be negative');
+    }
+    data.minOrderValue = Number(body.minOrderValue);
+  }
+
+  if (body.categories !== undefined) {
+    if (!Array.isArray(body.categories) || body.categories.some((c) => !Object.values(BookingCategory).includes(c))) {
+      throw new BadRequestError('categories must be a list of BUS, AIRLINE or HOTEL');
+    }
+    data.categories = body.categories;
+  }
+
+  if (body.validFrom !== undefined || body.validUntil !== undefined) {
+    const validFrom = new Date(body.validFrom ?? existing.validFrom);
+    const validUntil = new Date(body.validUntil ?? existing.validUntil);
+
+    validateCouponDates(validFrom, validUntil);
+    data.validFrom = validFrom;
+    data.validUntil = validUntil;
+  }
+
+  if (body.usageLimit !== undefined) {
+    if (body.usageLimit !== null && !(Number.isInteger(body.usageLimit) && body.usageLimit >= 1)) {
+      throw new BadRequestError('usageLimit must be a positive integer');
+    }
+    data.usageLimit = body.usageLimit;
+  }
+
+  if (body.perUserLimit !== undefined) {
+    if (!(Number.isInteger(body.perUserLimit) && body.perUserLimit >= 1)) {
+      throw new BadRequestError('perUserLimit must be a positive integer');
+    }
+    data.perUserLimit = body.perUserLimit;
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') {
+      throw new BadRequestError('isActive must be a boolean');
+    }
+    data.isActive = body.isActive;
+  }
+
+  const coupon = await prisma.coupon.update({
+    where: { id },
+    data,
+  });
+
+  logger.info(`Coupon updated: ${coupon.code} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Coupon updated',
+    data: coupon,
+  });
+});
+
+/**
+ * Get coupon redemptions
+ * GET /api/v1/admin/coupons/:id/redemptions
+ */
+export const getCouponRedemptions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+
+  const where = { couponId: id };
+
+  const [redemptions, total] = await Promise.all([
+    prisma.couponRedemption.findMany({
+      where,
+      include: {
+        booking: {
+          select: {
+            bookingNumber: true,
+            status: true,
+            totalAmount: true,
+          },
+        },
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.couponRedemption.count({ where }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'Coupon redemptions retrieved',
+    data: redemptions,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+// ============================================================================
+// FEE & TAX RULES
+// ============================================================================
+
+/**
+ * Get fee/tax rules
+ * GET /api/v1/admin/charge-rules
+ */
+export const getChargeRules = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const category = req.query.category as string;
+  const type = req.query.type as string;
+
+  const where: any = {};
+
+  if (category) {
+    where.category = category;
+  }
+
+  if (type) {
+    where.type = type;
+  }
+
+  const rules = await prisma.chargeRule.findMany({
+    where,
+    orderBy: [{ category: 'asc' }, { code: 'asc' }, { priority: 'desc' }],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Charge rules retrieved',
+    data: rules,
+  });
+});
+
+/**
+ * Create fee/tax rule
+ * POST /api/v1/admin/charge-rules
+ */
+export const createChargeRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data: CreateChargeRuleRequest = req.body;
+
+  if (
+    data.minAmount !== undefined &&
+    data.maxAmount !== undefined &&
+    data.minAmount > data.maxAmount
+  ) {
+    throw new BadRequestError('minAmount cannot be greater than maxAmount');
+  }
+
+  const rule = await prisma.chargeRule.create({
+    data: {
+      code: data.code.trim().toUpperCase(),
+      name: data.name,
+      type: data.type,
+      category: data.category,
+      subType: data.subType,
+      minAmount: data.minAmount,
+      maxAmount: data.maxAmount,
+      calculation: data.calculation ?? 'PERCENTAGE',
+      rate: data.rate,
+      appliesOn: data.appliesOn ?? 'BASE_FARE',
+      priority: data.priority ?? 0,
+    },
+  });
+
+  logger.info(`Charge rule created: ${rule.code} (${rule.category}) by ${req.user?.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Charge rule created',
+    data: rule,
+  });
+});
+
+/**
+ * Update fee/tax rule
+ * PATCH /api/v1/admin/charge-rules/:id
+ */
+export const updateChargeRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const data = req.body;
+
+  const rule = await prisma.chargeRule.update({
+    where: { id },
+    data,
+  });
+
+  logger.info(`Charge rule updated: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Charge rule updated',
+    data: rule,
+  });
+});
+
+/**
+ * Delete fee/tax rule
+ * DELETE /api/v1/admin/charge-rules/:id
+ */
+export const deleteChargeRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  await prisma.chargeRule.delete({
+    where: { id },
+  });
+
+  logger.info(`Charge rule deleted: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Charge rule deleted',
+  });
+});
+
+// ============================================================================
+// DYNAMIC PRICING
+// ============================================================================
+
+const validatePricingRule = (data: CreatePricingRuleRequest) => {
+  if (data.minValue !== undefined && data.maxValue !== undefined && data.minValue >= data.maxValue) {
+    throw new BadRequestError('minValue must be less than maxValue');
+  }
+
+  if (data.trigger === PricingTrigger.DAY_OF_WEEK && (!data.daysOfWeek || data.daysOfWeek.length === 0)) {
+    throw new BadRequestError('daysOfWeek is required for DAY_OF_WEEK rules');
+  }
+};
+
+/**
+ * Get dynamic pricing rules
+ * GET /api/v1/admin/pricing-rules
+ */
+export const getPricingRules = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const category = req.query.category as string;
+  const partnerId = req.query.partnerId as string;
+
+  const where: any = {};
+
+  if (category) {
+    where.category = category;
+  }
+
+  if (partnerId) {
+    where.partnerId = partnerId;
+  }
+
+  const rules = await prisma.pricingRule.findMany({
+    where,
+    include: {
+      partner: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: [{ category: 'asc' }, { trigger: 'asc' }, { priority: 'desc' }],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Pricing rules retrieved',
+    data: rules,
+  });
+});
+
+/**
+ * Create dynamic pricing rule
+ * POST /api/v1/admin/pricing-rules
+ */
+export const createPricingRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data: CreatePricingRuleRequest = req.body;
+
+  validatePricingRule(data);
+
+  const rule = await prisma.pricingRule.create({
+    data: {
+      name: data.name,
+      category: data.category,
+      partnerId: data.partnerId,
+      subType: data.subType,
+      trigger: data.trigger,
+      minValue: data.minValue,
+      maxValue: data.maxValue,
+      daysOfWeek: data.daysOfWeek ?? [],
+      calculation: data.calculation ?? 'PERCENTAGE',
+      adjustment: data.adjustment,
+      priority: data.priority ?? 0,
+    },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  logger.info(`Pricing rule created: ${rule.name} (${rule.category}) by ${req.user?.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Pricing rule created',
+    data: rule,
+  });
+});
+
+/**
+ * Update dynamic pricing rule
+ * PATCH /api/v1/admin/pricing-rules/:id
+ */
+export const updatePricingRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const data = req.body;
+
+  const rule = await prisma.pricingRule.update({
+    where: { id },
+    data,
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  logger.info(`Pricing rule updated: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Pricing rule updated',
+    data: rule,
+  });
+});
+
+/**
+ * Delete dynamic pricing rule
+ * DELETE /api/v1/admin/pricing-rules/:id
+ */
+export const deletePricingRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  await prisma.pricingRule.delete({
+    where: { id },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  logger.info(`Pricing rule deleted: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Pricing rule deleted',
+  });
+});
+
+/**
+ * Simulate fares for a schedule
+ * POST /api/v1/admin/pricing-rules/simulate
+ */
+export const simulatePricing = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data: SimulatePricingRequest = req.body;
+
+  data.rules?.forEach(validatePricingRule);
+
+  try {
+    const simulation = await simulateFare({
+      scheduleId: data.scheduleId,
+      category: data.category,
+      cabinClass: data.cabinClass as CabinClass | undefined,
+      rules: data.rules?.map((rule) => ({
+        name: rule.name,
+        partnerId: rule.partnerId ?? null,
+        subType: rule.subType ?? null,
+        trigger: rule.trigger,
+        minValue: rule.minValue ?? null,
+        maxValue: rule.maxValue ?? null,
+        daysOfWeek: rule.daysOfWeek ?? [],
+        calculation: rule.calculation ?? ChargeCalculation.PERCENTAGE,
+        adjustment: rule.adjustment,
+        priority: rule.priority ?? 0,
+      })),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Pricing simulation',
+      data: simulation,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Get holiday calendar
+ * GET /api/v1/admin/holidays
+ */
+export const getHolidays = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const holidays = await prisma.holiday.findMany({
+    orderBy: { date: 'asc' },
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Holidays retrieved',
+    data: holidays,
+  });
+});
+
+/**
+ * Add a holiday
+ * POST /api/v1/admin/holidays
+ */
+export const createHoliday = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { date, name } = req.body;
+
+  const existing = await prisma.holiday.findUnique({
+    where: { date: new Date(date) },
+  });
+
+  if (existing) {
+    throw new BadRequestError(`${date} is already a holiday (${existing.name})`);
+  }
+
+  const holiday = await prisma.holiday.create({
+    data: {
+      date: new Date(date),
+      name,
+    },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  logger.info(`Holiday added: ${date} ${name} by ${req.user?.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Holiday added',
+    data: holiday,
+  });
+});
+
+/**
+ * Remove a holiday
+ * DELETE /api/v1/admin/holidays/:id
+ */
+export const deleteHoliday = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  await prisma.holiday.delete({
+    where: { id },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  logger.info(`Holiday removed: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Holiday removed',
+  });
+});
+
+// ============================================================================
+// SCHEDULE GENERATION
+// ============================================================================
+
+/**
+ * Run the rolling schedule job now (or preview it)
+ * POST /api/v1/admin/schedules/roll-forward
+ */
+export const rollForwardSchedulesHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { days, dryRun } = req.body;
+
+  const results = await rollForwardSchedules(days, !!dryRun);
+  const pending = results.reduce((sum, result) => sum + result.dates.length, 0);
+  const created = results.reduce((sum, result) => sum + result.created, 0);
+
+  logger.info(`Rolling schedule job run${dryRun ? ' (dry run)' : ''} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: dryRun ? `${pending} schedule(s) would be created` : `${created} schedule(s) created`,
+    data: results.filter((result) => result.dates.length > 0),
+    meta: {
+      dryRun: !!dryRun,
+      routesAndFlights: results.length,
+      created,
+    },
+  });
+});
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+/**
+ * Get policies (every version)
+ * GET /api/v1/admin/policies
+ */
+export const getPolicies = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const category = req.query.category as string;
+  const name = req.query.name as string;
+  const partnerId = req.query.partnerId as string;
+  const isActive = req.query.isActive as string;
+
+  const where: any = {};
+
+  if (category) {
+    where.category = category;
+  }
+
+  if (name) {
+    where.name = name;
+  }
+
+  if (partnerId) {
+    where.partnerId = partnerId;
+  }
+
+  if (isActive !== undefined) {
+    where.isActive = isActive === 'true';
+  }
+
+  const policies = await prisma.policy.findMany({
+    where,
+    orderBy: [{ category: 'asc' }, { name: 'asc' }, { version: 'desc' }],
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Policies retrieved',
+    data: policies,
+  });
+});
+
+/**
+ * Get policy version with the other versions of its name
+ * GET /api/v1/admin/policies/:id
+ */
+export const getPolicyById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const policy = await prisma.policy.findUnique({
+    where: { id },
+  });
+
+  if (!policy) {
+    throw new NotFoundError('Policy not found');
+  }
+
+  const versions = await prisma.policy.findMany({
+    where: { name: policy.name },
+    select: { id: true, version: true, isActive: true, effectiveFrom: true, effectiveUntil: true },
+    orderBy: { version: 'desc' },
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Policy retrieved',
+    data: { ...policy, versions },
+  });
+});
+
+/**
+ * Create policy (or the next version of an existing policy name)
+ * POST /api/v1/admin/policies
+ */
+export const createPolicyHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data: CreatePolicyRequest = req.body;
+
+  if (!data.name || !data.category || data.rules === undefined || !data.effectiveFrom) {
+    throw new BadRequestError('name, category, rules and effectiveFrom are required');
+  }
+
+  try {
+    const policy = await createPolicy(data, req.user!.id);
+
+    logger.info(`Policy created: ${policy.name} v${policy.version} (${policy.category}) by ${req.user?.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: policy.version > 1 ? `Policy version ${policy.version} created` : 'Policy created',
+      data: policy,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Update policy version
+ * PATCH /api/v1/admin/policies/:id
+ */
+export const updatePolicyHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const data: UpdatePolicyRequest = req.body;
+
+  try {
+    const policy = await updatePolicy(id, data);
+
+    logger.info(`Policy updated: ${policy.name} v${policy.version} by ${req.user?.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Policy updated',
+      data: policy,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Delete a policy version that has not taken effect
+ * DELETE /api/v1/admin/policies/:id
+ */
+export const deletePolicyHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    await deletePolicy(id);
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  logger.info(`Policy deleted: ${id} by ${req.user?.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Policy deleted',
+  });
+});
+
+/**
+ * Evaluate the policy that applies to a booking category / partner
+ * GET /api/v1/admin/policies/evaluate
+ */
+export const evaluatePolicyHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const category = req.query.category as string;
+  const bookingCategory = req.query.bookingCategory as string;
+  const partnerId = req.query.partnerId as string;
+  const at = req.query.at ? new Date(req.query.at as string) : undefined;
+  const hoursBefore = req.query.hoursBefore !== undefined ? Number(req.query.hoursBefore) : undefined;
+
+  if (!isPolicyCategory(category)) {
+    throw new BadRequestError(`Category must be one of ${POLICY_CATEGORIES.join(', ')}`);
+  }
+
+  if (bookingCategory && !['BUS', 'AIRLINE', 'HOTEL'].includes(bookingCategory)) {
+    throw new BadRequestError('Invalid booking category');
+  }
+
+  if (at && isNaN(at.getTime())) {
+    throw new BadRequestError('Invalid date');
+  }
+
+  if (hoursBefore !== undefined && isNaN(hoursBefore)) {
+    throw new BadRequestError('hoursBefore must be a number');
+  }
+
+  const policy = await evaluatePolicy(category, {
+    bookingCategory: (bookingCategory as BookingCategory) || null,
+    partnerId: partnerId || null,
+    at,
+  });
+
+  // Cancellation previews can also show the slab for a given lead time
+  const appliedSlab =
+    policy.category === 'CANCELLATION' && hoursBefore !== undefined
+      ? findCancellationSlab((policy.rules as PolicyRules['CANCELLATION']).slabs, hoursBefore)
+      : undefined;
+
+  res.status(200).json({
+    success: true,
+    message: 'Policy evaluated',
+    data: { ...policy, ...(appliedSlab !== undefined && { appliedSlab }) },
+  });
 });
\ No newline at end of file
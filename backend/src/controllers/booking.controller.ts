@@ -5,7 +5,15 @@
 
 import { Response } from 'express';
 import { prisma } from '../server';
-import { AuthenticatedRequest, CreateBookingRequest } from '../types';
+import {
+  AuthenticatedRequest,
+  CreateBookingRequest,
+  ValidateCouponRequest,
+  CouponValidationResponse,
+  RebookDisruptedBookingRequest,
+  RescheduleBookingRequest,
+  PartialCancellationRequest,
+} from '../types';
 import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
 import {
   createBusBooking,
@@ -13,8 +21,20 @@ import {
   createHotelBooking,
   confirmBooking,
   cancelBooking,
+  cancelPassengers,
+  BookingConfirmationError,
 } from '../services/booking.service';
-import { BookingCategory } from '@prisma/client';
+import { validateCoupon } from '../services/coupon.service';
+import { requestReschedule } from '../services/reschedule.service';
+import {
+  getBookingDisruption,
+  rebookDisruptedBooking,
+  refundDisruptedBooking,
+} from '../services/disruption.service';
+import { issueTaxInvoice, renderInvoicePdf } from '../services/invoice.service';
+import { processBookingRefunds } from '../services/refund.service';
+import { ticketBookingInclude, ensurePnr, renderTicketPdf } from '../services/ticket.service';
+import { BookingCategory, BookingStatus, InvoiceType } from '@prisma/client';
 import { logger } from '../utils/logger';
 
 // ============================================================================
@@ -80,6 +100,54 @@ export const createBooking = asyncHandler(async (req: AuthenticatedRequest, res:
   });
 });
 
+// ============================================================================
+// COUPONS
+// ============================================================================
+
+/**
+ * Preview a coupon against an order amount without redeeming it
+ * POST /api/v1/bookings/coupons/validate
+ */
+export const validateCouponHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const { code, category, orderAmount }: ValidateCouponRequest = req.body;
+
+  if (typeof code !== 'string' || !code.trim()) {
+    throw new BadRequestError('Coupon code is required');
+  }
+
+  if (!category || !Object.values(BookingCategory).includes(category)) {
+    throw new BadRequestError('Valid booking category is required (BUS, AIRLINE, HOTEL)');
+  }
+
+  const amount = Number(orderAmount);
+
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new BadRequestError('Valid order amount is required');
+  }
+
+  const result = await validateCoupon(code, { userId, category, orderAmount: amount });
+
+  const data: CouponValidationResponse = {
+    valid: result.valid,
+    code: result.code,
+    discountAmount: result.discountAmount,
+    finalAmount: Math.round((amount - result.discountAmount) * 100) / 100,
+    message: result.message,
+  };
+
+  res.status(200).json({
+    success: true,
+    message: result.message,
+    data,
+  });
+});
+
 // ============================================================================
 // GET BOOKINGS
 // ============================================================================
@@ -224,6 +292,9 @@ export const getBookingById = asyncHandler(async (req: AuthenticatedRequest, res
           },
         },
       },
+      amendments: {
+        orderBy: { createdAt: 'desc' },
+      },
     },
   });
 
@@ -264,13 +335,21 @@ export const confirmBookingHandler = asyncHandler(async (req: AuthenticatedReque
     throw new NotFoundError('Booking not found');
   }
 
-  const booking = await confirmBooking(id, {
-    razorpayOrderId,
-    razorpayPaymentId,
-    razorpaySignature,
-    paymentMethod,
-    paidAmount,
-  });
+  let booking;
+  try {
+    booking = await confirmBooking(id, {
+      razorpayOrderId,
+      razorpayPaymentId,
+      razorpaySignature,
+      paymentMethod,
+      paidAmount,
+    });
+  } catch (error) {
+    if (error instanceof BookingConfirmationError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
 
   res.status(200).json({
     success: true,
@@ -302,6 +381,9 @@ export const cancelBookingHandler = asyncHandler(async (req: AuthenticatedReques
 
   const result = await cancelBooking(id, userId, reason);
 
+  // Pay the refund out now; failures are retried by the refund job
+  await processBookingRefunds(id);
+
   res.status(200).json({
     success: true,
     message: 'Booking cancelled successfully',
@@ -309,6 +391,38 @@ export const cancelBookingHandler = asyncHandler(async (req: AuthenticatedReques
   });
 });
 
+/**
+ * Cancel some passengers or rooms of a booking
+ * POST /api/v1/bookings/:id/cancel-partial
+ */
+export const cancelPassengersHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+  const { passengerIds, roomNumbers, reason }: PartialCancellationRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  if (!reason) {
+    throw new BadRequestError('Cancellation reason is required');
+  }
+
+  try {
+    const result = await cancelPassengers(id, userId, { passengerIds, roomNumbers, reason });
+
+    await processBookingRefunds(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Booking amended',
+      data: result,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
 /**
  * Get cancellation details before confirming
  * GET /api/v1/bookings/:id/cancellation-details
@@ -339,6 +453,134 @@ export const getCancellationDetails = asyncHandler(async (req: AuthenticatedRequ
   });
 });
 
+// ============================================================================
+// RESCHEDULE
+// ============================================================================
+
+/**
+ * Move a confirmed booking to another schedule or other stay dates
+ * POST /api/v1/bookings/:id/reschedule
+ */
+export const rescheduleBookingHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const data: RescheduleBookingRequest = req.body;
+
+  try {
+    const reschedule = await requestReschedule(userId, id, data);
+    const amountDue = Number(reschedule.amountDue);
+
+    res.status(201).json({
+      success: true,
+      message:
+        amountDue > 0
+          ? `Pay ${amountDue} to complete the reschedule`
+          : amountDue < 0
+          ? `Booking rescheduled, ${-amountDue} refunded to your wallet`
+          : 'Booking rescheduled',
+      data: reschedule,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+// ============================================================================
+// SCHEDULE DISRUPTIONS
+// ============================================================================
+
+/**
+ * Get the rebooking offer for a cancelled or delayed booking
+ * GET /api/v1/bookings/:id/disruption
+ */
+export const getDisruptionHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  let offer;
+  try {
+    offer = await getBookingDisruption(userId, id);
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  if (!offer) {
+    throw new NotFoundError('No open disruption offer for this booking');
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Disruption offer retrieved',
+    data: offer,
+  });
+});
+
+/**
+ * Move a disrupted booking to an offered schedule
+ * POST /api/v1/bookings/:id/disruption/rebook
+ */
+export const rebookDisruptionHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+  const { scheduleId }: RebookDisruptedBookingRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  if (!scheduleId) {
+    throw new BadRequestError('Schedule ID is required');
+  }
+
+  try {
+    const booking = await rebookDisruptedBooking(userId, id, scheduleId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Booking moved to the new schedule',
+      data: booking,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Decline the rebooking offer and take a full refund
+ * POST /api/v1/bookings/:id/disruption/refund
+ */
+export const refundDisruptionHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  try {
+    const refund = await refundDisruptedBooking(userId, id);
+
+    await processBookingRefunds(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Booking cancelled with a full refund',
+      data: refund,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
 // ============================================================================
 // DOWNLOAD TICKET/INVOICE
 // ============================================================================
@@ -355,45 +597,115 @@ export const downloadTicket = asyncHandler(async (req: AuthenticatedRequest, res
     throw new BadRequestError('User not authenticated');
   }
 
+  const found = await prisma.booking.findFirst({
+    where: { id, userId },
+    include: ticketBookingInclude,
+  });
+
+  if (!found) {
+    throw new NotFoundError('Booking not found');
+  }
+
+  if (found.status !== 'CONFIRMED') {
+    throw new BadRequestError('Ticket only available for confirmed bookings');
+  }
+
+  const booking = await ensurePnr(found);
+  const pdf = await renderTicketPdf(booking);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="ticket-${booking.bookingNumber}.pdf"`);
+  res.status(200).send(pdf);
+});
+
+/**
+ * Download GST invoice (or credit note) as PDF
+ * GET /api/v1/bookings/:id/invoice?invoiceId=
+ */
+export const downloadInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+  const invoiceId = req.query.invoiceId as string | undefined;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
   const booking = await prisma.booking.findFirst({
     where: { id, userId },
-    include: {
-      passengers: true,
-      busSchedule: {
-        include: {
-          route: true,
-        },
-      },
-      flightSchedule: {
-        include: {
-          flight: true,
-        },
-      },
-      roomInventory: {
-        include: {
-          room: {
-            include: {
-              hotel: true,
-            },
-          },
-        },
-      },
-    },
   });
 
   if (!booking) {
     throw new NotFoundError('Booking not found');
   }
 
-  if (booking.status !== 'CONFIRMED') {
-    throw new BadRequestError('Ticket only available for confirmed bookings');
+  let invoice = await prisma.invoice.findFirst({
+    where: invoiceId
+      ? { id: invoiceId, bookingId: id }
+      : { bookingId: id, type: InvoiceType.TAX_INVOICE },
+    include: { originalInvoice: true },
+  });
+
+  if (!invoice && !invoiceId) {
+    if (booking.status !== BookingStatus.CONFIRMED && booking.status !== BookingStatus.COMPLETED) {
+      throw new BadRequestError('Invoice only available for confirmed bookings');
+    }
+
+    await issueTaxInvoice(id);
+    invoice = await prisma.invoice.findFirst({
+      where: { bookingId: id, type: InvoiceType.TAX_INVOICE },
+      include: { originalInvoice: true },
+    });
   }
 
-  // TODO: Generate PDF ticket
-  // For now, return booking details
+  if (!invoice) {
+    throw new NotFoundError('Invoice not found');
+  }
+
+  const pdf = await renderInvoicePdf(invoice, booking.bookingNumber);
+  const fileName = invoice.invoiceNumber.replace(/\//g, '-');
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+  res.status(200).send(pdf);
+});
+
+/**
+ * List invoices and credit notes for a booking
+ * GET /api/v1/bookings/:id/invoices
+ */
+export const getBookingInvoices = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const booking = await prisma.booking.findFirst({
+    where: { id, userId },
+  });
+
+  if (!booking) {
+    throw new NotFoundError('Booking not found');
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where: { bookingId: id },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      type: true,
+      totalAmount: true,
+      issuedAt: true,
+      originalInvoiceId: true,
+    },
+    orderBy: { issuedAt: 'asc' },
+  });
+
   res.status(200).json({
     success: true,
-    message: 'Ticket details retrieved',
-    data: booking,
+    message: 'Invoices retrieved',
+    data: invoices,
   });
 });
\ No newline at end of file
@@ -6,9 +6,14 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
-import { BusSearchRequest } from '../types';
+import { AuthenticatedRequest, BusSearchRequest, UpdateScheduleStatusRequest } from '../types';
 import { logger } from '../utils/logger';
-import { ScheduleStatus } from '@prisma/client';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
+import { getBusFareCalendar } from '../services/fareCalendar.service';
+import { loadPricingEnvironment, quoteBusFare } from '../services/dynamicPricing.service';
+import { buildBusSeatStatus, generateBusSchedules } from '../services/scheduleGenerator.service';
+import { disruptSchedule } from '../services/disruption.service';
+import { BookingCategory, DisruptionType, ScheduleStatus } from '@prisma/client';
 
 // ============================================================================
 // SEARCH BUSES
@@ -41,8 +46,11 @@ export const searchBuses = asyncHandler(async (req: Request, res: Response) => {
     include: {
       partner: {
         select: {
+          id: true,
           name: true,
           holdQuotaEnabled: true,
+          fareFloorPercentage: true,
+          fareCeilingPercentage: true,
         },
       },
       schedules: {
@@ -65,6 +73,8 @@ export const searchBuses = asyncHandler(async (req: Request, res: Response) => {
     },
   });
 
+  const pricingEnv = await loadPricingEnvironment(BookingCategory.BUS);
+
   // Format response
   const results = routes.flatMap((route) =>
     route.schedules.map((schedule) => ({
@@ -82,7 +92,8 @@ export const searchBuses = asyncHandler(async (req: Request, res: Response) => {
       arrivalTime: route.arrivalTime,
       durationMinutes: route.durationMinutes,
       distanceKm: route.distanceKm,
-      fare: schedule.baseFare,
+      baseFare: schedule.baseFare,
+      fare: quoteBusFare(pricingEnv, { ...schedule, route }).fare,
       availableSeats: schedule.availableSeats,
       totalSeats: route.totalSeats,
       seatLayout: route.seatLayout,
@@ -105,6 +116,42 @@ export const searchBuses = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * Lowest fare per day for a month
+ * GET /api/v1/buses/fare-calendar
+ */
+export const getBusFareCalendarHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { source, destination, month, passengers = 1 } = req.query;
+
+  if (!source || !destination || !month) {
+    throw new BadRequestError('Source, destination, and month (YYYY-MM) are required');
+  }
+
+  let calendar;
+  try {
+    calendar = await getBusFareCalendar({
+      source: source as string,
+      destination: destination as string,
+      month: month as string,
+      passengers: parseInt(passengers as string),
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Bus fare calendar',
+    data: calendar,
+    meta: {
+      source,
+      destination,
+      month,
+      passengers,
+    },
+  });
+});
+
 // ============================================================================
 // GET BUS DETAILS
 // ============================================================================
@@ -223,6 +270,7 @@ export const createRoute = asyncHandler(async (req: Request, res: Response) => {
     destination,
     sourceStation,
     destinationStation,
+    sourceState,
     distanceKm,
     durationMinutes,
     busType,
@@ -244,6 +292,7 @@ export const createRoute = asyncHandler(async (req: Request, res: Response) => {
       destination,
       sourceStation,
       destinationStation,
+      sourceState,
       distanceKm,
       durationMinutes,
       busType,
@@ -283,20 +332,7 @@ export const createSchedule = asyncHandler(async (req: Request, res: Response) =
   }
 
   // Initialize seat status
-  const seatStatus: Record<string, string> = {};
-  const seatLayout = route.seatLayout as any;
-  
-  // Generate seat numbers based on layout
-  if (seatLayout && seatLayout.seats) {
-    seatLayout.seats.forEach((seat: any) => {
-      seatStatus[seat.number] = 'AVAILABLE';
-    });
-  } else {
-    // Default seat numbering
-    for (let i = 1; i <= route.totalSeats; i++) {
-      seatStatus[`${i}`] = 'AVAILABLE';
-    }
-  }
+  const seatStatus = buildBusSeatStatus(route);
 
   const schedule = await prisma.busSchedule.create({
     data: {
@@ -310,10 +346,83 @@ export const createSchedule = asyncHandler(async (req: Request, res: Response) =
   });
 
   logger.info(`Bus schedule created: ${routeId} for ${scheduleDate}`);
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
 
   res.status(201).json({
     success: true,
     message: 'Bus schedule created',
     data: schedule,
   });
+});
+
+/**
+ * Generate bus schedules on the route's operating days (Admin)
+ * POST /api/v1/buses/schedules/generate
+ */
+export const generateSchedules = asyncHandler(async (req: Request, res: Response) => {
+  const { routeId, from, to, baseFare, weekdayFares, dryRun } = req.body;
+
+  if (!routeId || !from || !to) {
+    throw new BadRequestError('Route ID, from and to dates are required');
+  }
+
+  try {
+    const result = await generateBusSchedules(routeId, {
+      from: new Date(from),
+      to: new Date(to),
+      template: { baseFare, weekdayFares },
+      dryRun: !!dryRun,
+    });
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? `${result.dates.length} bus schedule(s) would be created`
+        : `${result.created} bus schedule(s) created`,
+      data: result,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+// ============================================================================
+// SCHEDULE DISRUPTIONS
+// ============================================================================
+
+/**
+ * Cancel or delay a bus schedule and handle affected bookings
+ * PATCH /api/v1/buses/schedules/:id/status
+ */
+export const updateScheduleStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+  const { status, delayMinutes, reason }: UpdateScheduleStatusRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  if (!status || !(status in DisruptionType) || !reason) {
+    throw new BadRequestError('Status (CANCELLED or DELAYED) and reason are required');
+  }
+
+  try {
+    const summary = await disruptSchedule({
+      category: BookingCategory.BUS,
+      scheduleId: id,
+      type: status as DisruptionType,
+      delayMinutes,
+      reason,
+      userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `Schedule ${status.toLowerCase()}, ${summary.affectedBookings} booking(s) affected`,
+      data: summary,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
 });
\ No newline at end of file
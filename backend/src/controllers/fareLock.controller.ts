@@ -0,0 +1,136 @@
+/**
+ * FARE LOCK CONTROLLER
+ * HTTP request handlers for paid fare locks
+ */
+
+import { Response } from 'express';
+import { prisma } from '../server';
+import { AuthenticatedRequest, CreateFareLockRequest } from '../types';
+import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
+import { createFareLock, cancelFareLock } from '../services/fareLock.service';
+import { CabinClass } from '@prisma/client';
+
+// ============================================================================
+// CREATE FARE LOCK
+// ============================================================================
+
+/**
+ * Lock the current fare (pending payment of the lock fee)
+ * POST /api/v1/fare-locks
+ */
+export const createFareLockHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const data: CreateFareLockRequest = req.body;
+
+  try {
+    const fareLock = await createFareLock(userId, {
+      ...data,
+      cabinClass: data.cabinClass as CabinClass | undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Fare lock created. Pay the lock fee to confirm it.',
+      data: fareLock,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+// ============================================================================
+// GET FARE LOCKS
+// ============================================================================
+
+/**
+ * Get user's fare locks
+ * GET /api/v1/fare-locks
+ */
+export const getUserFareLocks = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const status = req.query.status as string;
+
+  const where: any = { userId };
+
+  if (status) {
+    where.status = status;
+  }
+
+  const fareLocks = await prisma.fareLock.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Fare locks retrieved',
+    data: fareLocks,
+  });
+});
+
+/**
+ * Get fare lock by ID
+ * GET /api/v1/fare-locks/:id
+ */
+export const getFareLockById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  const fareLock = await prisma.fareLock.findFirst({
+    where: { id, userId },
+    include: {
+      booking: {
+        select: { id: true, bookingNumber: true, status: true },
+      },
+    },
+  });
+
+  if (!fareLock) {
+    throw new NotFoundError('Fare lock not found');
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Fare lock retrieved',
+    data: fareLock,
+  });
+});
+
+// ============================================================================
+// CANCEL FARE LOCK
+// ============================================================================
+
+/**
+ * Cancel fare lock and release its seats (lock fee is not refunded)
+ * POST /api/v1/fare-locks/:id/cancel
+ */
+export const cancelFareLockHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  try {
+    const fareLock = await cancelFareLock(userId, id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Fare lock cancelled',
+      data: fareLock,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
\ No newline at end of file
@@ -6,34 +6,36 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
-import { FlightSearchRequest } from '../types';
+import { AuthenticatedRequest, FlightSearchRequest, UpdateScheduleStatusRequest } from '../types';
 import { logger } from '../utils/logger';
-import { ScheduleStatus } from '@prisma/client';
+import { BookingCategory, CabinClass, DisruptionType, ScheduleStatus } from '@prisma/client';
+import { getCabinAvailableSeats, getCabinFields } from '../services/holdQuota.service';
+import { searchConnections } from '../services/flightConnection.service';
+import { getFlightFareCalendar } from '../services/fareCalendar.service';
+import { loadPricingEnvironment, quoteFlightFare } from '../services/dynamicPricing.service';
+import { generateFlightSchedules } from '../services/scheduleGenerator.service';
+import { disruptSchedule } from '../services/disruption.service';
+import { combineDateAndTime } from '../utils/date';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
 
 // ============================================================================
 // SEARCH FLIGHTS
 // ============================================================================
 
-/**
- * Search available flights
- * GET /api/v1/flights/search
- */
-export const searchFlights = asyncHandler(async (req: Request, res: Response) => {
-  const {
-    source,
-    destination,
-    departureDate,
-    returnDate,
-    passengers = 1,
-    cabinClass = 'ECONOMY',
-    tripType = 'one-way',
-  } = req.query;
+const MAX_MULTI_CITY_SEGMENTS = 5;
+const MAX_ROUND_TRIP_COMBINATIONS = 50;
 
-  if (!source || !destination || !departureDate) {
-    throw new BadRequestError('Source, destination, and departure date are required');
-  }
+interface FlightLegQuery {
+  source: string;
+  destination: string;
+  departureDate: string;
+}
 
-  const searchDate = new Date(departureDate as string);
+/**
+ * Find available schedules for one leg and format them as search results
+ */
+const searchFlightLeg = async (leg: FlightLegQuery, passengerCount: number, cabinClass: string) => {
+  const searchDate = new Date(leg.departureDate);
   const startOfDay = new Date(searchDate);
   startOfDay.setHours(0, 0, 0, 0);
   const endOfDay = new Date(searchDate);
@@ -42,14 +44,17 @@ export const searchFlights = asyncHandler(async (req: Request, res: Response) =>
   // Find flights matching source and destination
   const flights = await prisma.flight.findMany({
     where: {
-      source: { equals: source as string, mode: 'insensitive' },
-      destination: { equals: destination as string, mode: 'insensitive' },
+      source: { equals: leg.source, mode: 'insensitive' },
+      destination: { equals: leg.destination, mode: 'insensitive' },
       isActive: true,
     },
     include: {
       partner: {
         select: {
+          id: true,
           name: true,
+          fareFloorPercentage: true,
+          fareCeilingPercentage: true,
         },
       },
       schedules: {
@@ -67,59 +72,209 @@ export const searchFlights = asyncHandler(async (req: Request, res: Response) =>
     },
   });
 
+  const fareField = getCabinFields(cabinClass).fare;
+  const pricingEnv = await loadPricingEnvironment(BookingCategory.AIRLINE);
+
   // Filter by availability and format response
-  const passengerCount = parseInt(passengers as string);
-  const results = flights.flatMap((flight) =>
+  return flights.flatMap((flight) =>
     flight.schedules
-      .filter((schedule) => {
-        // Check availability based on cabin class
-        switch (cabinClass) {
-          case 'PREMIUM_ECONOMY':
-            return schedule.premiumSeats - schedule.premiumBooked >= passengerCount;
-          case 'BUSINESS':
-            return schedule.businessSeats - schedule.businessBooked >= passengerCount;
-          case 'FIRST':
-            return schedule.firstSeats - schedule.firstBooked >= passengerCount;
-          default:
-            return schedule.economySeats - schedule.economyBooked >= passengerCount;
-        }
+      // Check availability based on cabin class (booked and held seats excluded)
+      .filter((schedule) => getCabinAvailableSeats(schedule, cabinClass) >= passengerCount)
+      .filter((schedule) => Number(schedule[fareField]) > 0)
+      .map((schedule) => {
+        const departureAt = combineDateAndTime(schedule.scheduleDate, flight.departureTime);
+        const arrivalAt = new Date(departureAt.getTime() + flight.durationMinutes * 60 * 1000);
+        const fare = quoteFlightFare(pricingEnv, { ...schedule, flight }, cabinClass).fare;
+
+        return {
+          scheduleId: schedule.id,
+          flightId: flight.id,
+          flightNumber: flight.flightNumber,
+          airlineCode: flight.airlineCode,
+          airlineName: flight.airlineName,
+          source: flight.source,
+          destination: flight.destination,
+          sourceAirport: flight.sourceAirport,
+          destinationAirport: flight.destinationAirport,
+          departureTime: flight.departureTime,
+          arrivalTime: flight.arrivalTime,
+          departureAt,
+          arrivalAt,
+          durationMinutes: flight.durationMinutes,
+          aircraftType: flight.aircraftType,
+          // Published base fares; `fare` is the current sell fare for the cabin
+          fares: {
+            economy: schedule.economyFare,
+            premium: schedule.premiumFare,
+            business: schedule.businessFare,
+            first: schedule.firstFare,
+          },
+          fare,
+          totalFare: fare * passengerCount,
+          availability: {
+            economy: getCabinAvailableSeats(schedule, CabinClass.ECONOMY),
+            premium: getCabinAvailableSeats(schedule, CabinClass.PREMIUM_ECONOMY),
+            business: getCabinAvailableSeats(schedule, CabinClass.BUSINESS),
+            first: getCabinAvailableSeats(schedule, CabinClass.FIRST),
+          },
+          fareRules: schedule.fareRules,
+        };
       })
-      .map((schedule) => ({
-        scheduleId: schedule.id,
-        flightId: flight.id,
-        flightNumber: flight.flightNumber,
-        airlineCode: flight.airlineCode,
-        airlineName: flight.airlineName,
-        source: flight.source,
-        destination: flight.destination,
-        sourceAirport: flight.sourceAirport,
-        destinationAirport: flight.destinationAirport,
-        departureTime: flight.departureTime,
-        arrivalTime: flight.arrivalTime,
-        durationMinutes: flight.durationMinutes,
-        aircraftType: flight.aircraftType,
-        fares: {
-          economy: schedule.economyFare,
-          premium: schedule.premiumFare,
-          business: schedule.businessFare,
-          first: schedule.firstFare,
-        },
-        availability: {
-          economy: schedule.economySeats - schedule.economyBooked,
-          premium: schedule.premiumSeats - schedule.premiumBooked,
-          business: schedule.businessSeats - schedule.businessBooked,
-          first: schedule.firstSeats - schedule.firstBooked,
-        },
-        fareRules: schedule.fareRules,
-      }))
   );
+};
+
+/**
+ * Read multi-city segments from the query string
+ * Accepts segments[0][source]=... or a JSON array.
+ */
+const parseSegmentsQuery = (segments: unknown): FlightLegQuery[] => {
+  let parsed: unknown = segments;
+
+  if (typeof segments === 'string') {
+    try {
+      parsed = JSON.parse(segments);
+    } catch {
+      throw new BadRequestError('Segments must be a JSON array');
+    }
+  }
+
+  if (!Array.isArray(parsed) || parsed.length < 2 || parsed.length > MAX_MULTI_CITY_SEGMENTS) {
+    throw new BadRequestError(`Multi-city search needs between 2 and ${MAX_MULTI_CITY_SEGMENTS} segments`);
+  }
 
-  // TODO: Handle round-trip search if returnDate is provided
+  return parsed.map((segment, index) => {
+    if (!segment?.source || !segment?.destination || !segment?.departureDate) {
+      throw new BadRequestError(`Segment ${index + 1} needs source, destination, and departure date`);
+    }
+    return {
+      source: String(segment.source),
+      destination: String(segment.destination),
+      departureDate: String(segment.departureDate),
+    };
+  });
+};
+
+/**
+ * Search available flights
+ * GET /api/v1/flights/search
+ * tripType: one-way (default), round-trip (returnDate), multi-city (segments)
+ */
+export const searchFlights = asyncHandler(async (req: Request, res: Response) => {
+  const {
+    source,
+    destination,
+    departureDate,
+    returnDate,
+    passengers = 1,
+    cabinClass = 'ECONOMY',
+    tripType = 'one-way',
+    segments,
+  } = req.query;
+
+  const passengerCount = parseInt(passengers as string);
+
+  // Multi-city: each segment searched independently
+  if (tripType === 'multi-city') {
+    const legs = parseSegmentsQuery(segments);
+    const legResults = await Promise.all(
+      legs.map((leg) => searchFlightLeg(leg, passengerCount, cabinClass as string))
+    );
+
+    const cheapestFarePerPassenger = legResults.every((results) => results.length > 0)
+      ? legResults.reduce((sum, results) => sum + Math.min(...results.map((r) => r.fare)), 0)
+      : null;
+
+    res.status(200).json({
+      success: true,
+      message: 'Flight search results',
+      data: {
+        segments: legs.map((leg, index) => ({
+          sequence: index + 1,
+          ...leg,
+          results: legResults[index],
+        })),
+        cheapestFarePerPassenger,
+      },
+      meta: {
+        passengers,
+        cabinClass,
+        tripType,
+        segmentCount: legs.length,
+      },
+    });
+    return;
+  }
+
+  if (!source || !destination || !departureDate) {
+    throw new BadRequestError('Source, destination, and departure date are required');
+  }
+
+  const outbound = await searchFlightLeg(
+    {
+      source: source as string,
+      destination: destination as string,
+      departureDate: departureDate as string,
+    },
+    passengerCount,
+    cabinClass as string
+  );
+
+  // Round-trip: return leg plus priced outbound/return pairs
+  if (tripType === 'round-trip') {
+    if (!returnDate) {
+      throw new BadRequestError('Return date is required for round-trip search');
+    }
+
+    const inbound = await searchFlightLeg(
+      {
+        source: destination as string,
+        destination: source as string,
+        departureDate: returnDate as string,
+      },
+      passengerCount,
+      cabinClass as string
+    );
+
+    const combinations = outbound
+      .flatMap((out) =>
+        inbound
+          .filter((ret) => ret.departureAt > out.arrivalAt)
+          .map((ret) => ({
+            outboundScheduleId: out.scheduleId,
+            returnScheduleId: ret.scheduleId,
+            farePerPassenger: out.fare + ret.fare,
+            totalFare: (out.fare + ret.fare) * passengerCount,
+          }))
+      )
+      .sort((a, b) => a.totalFare - b.totalFare)
+      .slice(0, MAX_ROUND_TRIP_COMBINATIONS);
+
+    res.status(200).json({
+      success: true,
+      message: 'Flight search results',
+      data: {
+        outbound,
+        return: inbound,
+        combinations,
+      },
+      meta: {
+        source,
+        destination,
+        departureDate,
+        returnDate,
+        passengers,
+        cabinClass,
+        tripType,
+        resultCount: combinations.length,
+      },
+    });
+    return;
+  }
 
   res.status(200).json({
     success: true,
     message: 'Flight search results',
-    data: results,
+    data: outbound,
     meta: {
       source,
       destination,
@@ -128,11 +283,102 @@ export const searchFlights = asyncHandler(async (req: Request, res: Response) =>
       passengers,
       cabinClass,
       tripType,
+      resultCount: outbound.length,
+    },
+  });
+});
+
+/**
+ * Search one- and two-stop connecting flights
+ * GET /api/v1/flights/search/connections
+ */
+export const searchConnectingFlights = asyncHandler(async (req: Request, res: Response) => {
+  const {
+    source,
+    destination,
+    departureDate,
+    passengers = 1,
+    cabinClass = 'ECONOMY',
+    maxStops = 1,
+    maxLayoverMinutes,
+  } = req.query;
+
+  if (!source || !destination || !departureDate) {
+    throw new BadRequestError('Source, destination, and departure date are required');
+  }
+
+  if (!Object.values(CabinClass).includes(cabinClass as CabinClass)) {
+    throw new BadRequestError('Invalid cabin class');
+  }
+
+  const results = await searchConnections({
+    source: source as string,
+    destination: destination as string,
+    departureDate: new Date(departureDate as string),
+    passengers: parseInt(passengers as string),
+    cabinClass: cabinClass as CabinClass,
+    maxStops: parseInt(maxStops as string),
+    maxLayoverMinutes: maxLayoverMinutes ? parseInt(maxLayoverMinutes as string) : undefined,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Connecting flight search results',
+    data: results,
+    meta: {
+      source,
+      destination,
+      departureDate,
+      passengers,
+      cabinClass,
+      maxStops,
       resultCount: results.length,
     },
   });
 });
 
+/**
+ * Lowest fare per day for a month
+ * GET /api/v1/flights/fare-calendar
+ */
+export const getFlightFareCalendarHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { source, destination, month, passengers = 1, cabinClass } = req.query;
+
+  if (!source || !destination || !month) {
+    throw new BadRequestError('Source, destination, and month (YYYY-MM) are required');
+  }
+
+  if (cabinClass && !Object.values(CabinClass).includes(cabinClass as CabinClass)) {
+    throw new BadRequestError('Invalid cabin class');
+  }
+
+  let calendar;
+  try {
+    calendar = await getFlightFareCalendar({
+      source: source as string,
+      destination: destination as string,
+      month: month as string,
+      passengers: parseInt(passengers as string),
+      cabinClass: cabinClass as CabinClass | undefined,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Flight fare calendar',
+    data: calendar,
+    meta: {
+      source,
+      destination,
+      month,
+      passengers,
+      cabinClass,
+    },
+  });
+});
+
 // ============================================================================
 // GET FLIGHT DETAILS
 // ============================================================================
@@ -289,6 +535,7 @@ export const createSchedule = asyncHandler(async (req: Request, res: Response) =
   });
 
   logger.info(`Flight schedule created: ${flightId} for ${scheduleDate}`);
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
 
   res.status(201).json({
     success: true,
@@ -297,6 +544,86 @@ export const createSchedule = asyncHandler(async (req: Request, res: Response) =
   });
 });
 
+/**
+ * Generate flight schedules on the flight's operating days (Admin)
+ * POST /api/v1/flights/schedules/generate
+ */
+export const generateSchedules = asyncHandler(async (req: Request, res: Response) => {
+  const {
+    flightId,
+    from,
+    to,
+    economyFare,
+    premiumFare,
+    businessFare,
+    firstFare,
+    economySeats,
+    premiumSeats,
+    businessSeats,
+    firstSeats,
+    fareRulesId,
+    weekdayFares,
+    dryRun,
+  } = req.body;
+
+  if (!flightId || !from || !to) {
+    throw new BadRequestError('Flight ID, from and to dates are required');
+  }
+
+  try {
+    const result = await generateFlightSchedules(flightId, {
+      from: new Date(from),
+      to: new Date(to),
+      template: {
+        economyFare,
+        premiumFare,
+        businessFare,
+        firstFare,
+        economySeats,
+        premiumSeats,
+        businessSeats,
+        firstSeats,
+        fareRulesId,
+        weekdayFares,
+      },
+      dryRun: !!dryRun,
+    });
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? `${result.dates.length} flight schedule(s) would be created`
+        : `${result.created} flight schedule(s) created`,
+      data: result,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Create or update airport connection and GST state settings (Admin)
+ * PUT /api/v1/flights/airports/:code
+ */
+export const upsertAirport = asyncHandler(async (req: Request, res: Response) => {
+  const code = req.params.code.toUpperCase();
+  const { name, city, state, isHub, minConnectionMinutes } = req.body;
+
+  const airport = await prisma.airport.upsert({
+    where: { code },
+    create: { code, name, city, state, isHub, minConnectionMinutes },
+    update: { name, city, state, isHub, minConnectionMinutes },
+  });
+
+  logger.info(`Airport saved: ${code}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Airport saved',
+    data: airport,
+  });
+});
+
 /**
  * Create fare rules (Admin)
  * POST /api/v1/flights/fare-rules
@@ -335,4 +662,45 @@ export const createFareRules = asyncHandler(async (req: Request, res: Response)
     message: 'Fare rules created',
     data: fareRules,
   });
+});
+
+// ============================================================================
+// SCHEDULE DISRUPTIONS
+// ============================================================================
+
+/**
+ * Cancel or delay a flight schedule and handle affected bookings
+ * PATCH /api/v1/flights/schedules/:id/status
+ */
+export const updateScheduleStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { id } = req.params;
+  const { status, delayMinutes, reason }: UpdateScheduleStatusRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  if (!status || !(status in DisruptionType) || !reason) {
+    throw new BadRequestError('Status (CANCELLED or DELAYED) and reason are required');
+  }
+
+  try {
+    const summary = await disruptSchedule({
+      category: BookingCategory.AIRLINE,
+      scheduleId: id,
+      type: status as DisruptionType,
+      delayMinutes,
+      reason,
+      userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `Schedule ${status.toLowerCase()}, ${summary.affectedBookings} booking(s) affected`,
+      data: summary,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
 });
\ No newline at end of file
@@ -321,6 +321,9 @@ export const createRoom = asyncHandler(async (req: Request, res: Response) => {
     maxAdults,
     maxChildren,
     maxOccupancy,
+    childFreeAge,
+    childMaxAge,
+    childRatePerNight,
     bedType,
     amenities,
     images,
@@ -337,6 +340,9 @@ export const createRoom = asyncHandler(async (req: Request, res: Response) => {
       maxAdults,
       maxChildren,
       maxOccupancy,
+      childFreeAge,
+      childMaxAge,
+      childRatePerNight,
       bedType,
       amenities,
       images,
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { prisma } from '../server';
+import { BookingConfirmationError, confirmBooking } from '../services/booking.service';
+import { refundLapsedPayment } from '../services/paymentReconciliation.service';
+import { getPaymentProvider } from '../services/paymentProvider.service';
+import { verifyPayment } from './payment.controller';
+
+jest.mock('../server', () => ({
+  prisma: { booking: { findFirst: jest.fn(), findUniqueOrThrow: jest.fn() } },
+}));
+
+jest.mock('../services/booking.service', () => {
+  class BookingConfirmationError extends Error {
+    constructor(message: string, public reason: string) {
+      super(message);
+    }
+  }
+  return { BookingConfirmationError, confirmBooking: jest.fn(), reserveSplitPayment: jest.fn() };
+});
+
+jest.mock('../services/paymentProvider.service', () => {
+  const provider = { name: 'mock', verifyPaymentSignature: jest.fn(() => true), fetchPaymentStatus: jest.fn() };
+  return { getPaymentProvider: () => provider, getMockPaymentProvider: () => provider };
+});
+
+jest.mock('../services/paymentReconciliation.service', () => ({ refundLapsedPayment: jest.fn() }));
+jest.mock('../services/fareLock.service', () => ({}));
+jest.mock('../services/reschedule.service', () => ({}));
+jest.mock('../services/refund.service', () => ({}));
+jest.mock('../services/wallet.service', () => ({}));
+
+type MockFn = jest.Mock<(...args: any[]) => any>;
+
+const db = prisma as unknown as { booking: Record<'findFirst' | 'findUniqueOrThrow', MockFn> };
+const gateway = getPaymentProvider() as unknown as { fetchPaymentStatus: MockFn };
+const confirm = confirmBooking as unknown as MockFn;
+const refund = refundLapsedPayment as unknown as MockFn;
+
+/**
+ * Run the handler until it responds or hands an error to next()
+ */
+const verify = (body: Record<string, string>) =>
+  new Promise<{ status?: number; body?: any; error?: any }>((resolve) => {
+    let status: number | undefined;
+    const res = {
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: (json: unknown) => resolve({ status, body: json }),
+    };
+    verifyPayment({ user: { id: 'user_1' }, body } as never, res as never, (error?: unknown) => resolve({ error }));
+  });
+
+describe('verifyPayment', () => {
+  const body = { razorpayOrderId: 'order_1', razorpayPaymentId: 'pay_1', razorpaySignature: 'sig' };
+  const booking = {
+    id: 'booking_1',
+    bookingNumber: 'BK-1',
+    status: 'PENDING',
+    totalAmount: 4500,
+    walletAmount: 0,
+    razorpayOrderId: 'order_1',
+    razorpayPaymentId: null,
+  };
+  const confirmed = { ...booking, status: 'CONFIRMED', razorpayPaymentId: 'pay_1' };
+  const captured = { orderId: 'order_1', status: 'captured', paymentId: 'pay_1', amount: 450000 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.booking.findFirst.mockResolvedValue(booking);
+    confirm.mockResolvedValue(undefined);
+    refund.mockResolvedValue(true);
+  });
+
+  it('confirms a pending booking with the verified payment', async () => {
+    await expect(verify(body)).resolves.toMatchObject({ status: 200, body: { success: true } });
+    expect(confirm).toHaveBeenCalledWith(
+      'booking_1',
+      expect.objectContaining({ razorpayPaymentId: 'pay_1', paymentMethod: 'mock', paidAmount: 4500 })
+    );
+  });
+
+  it('answers a replayed verify without confirming again', async () => {
+    db.booking.findFirst.mockResolvedValue(confirmed);
+
+    await expect(verify(body)).resolves.toMatchObject({ status: 200, body: { data: { status: 'CONFIRMED' } } });
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('succeeds when a concurrent verify confirmed the booking with this payment', async () => {
+    confirm.mockRejectedValue(new BookingConfirmationError('Booking is no longer awaiting payment', 'NOT_PENDING'));
+    db.booking.findUniqueOrThrow.mockResolvedValue(confirmed);
+
+    await expect(verify(body)).resolves.toMatchObject({ status: 200 });
+    expect(refund).not.toHaveBeenCalled();
+  });
+
+  it('refunds a payment verified after the booking expired', async () => {
+    const expired = { ...booking, status: 'FAILED' };
+    confirm.mockRejectedValue(new BookingConfirmationError('Booking is no longer awaiting payment', 'NOT_PENDING'));
+    db.booking.findUniqueOrThrow.mockResolvedValue(expired);
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+
+    const { error } = await verify(body);
+
+    expect(error.message).toBe('Booking is no longer awaiting payment. Your payment will be refunded.');
+    expect(error.statusCode).toBe(400);
+    expect(refund).toHaveBeenCalledWith(expired, captured, 'Payment could not be applied to the booking');
+  });
+
+  it('refunds a payment whose seats were sold before it was verified', async () => {
+    confirm.mockRejectedValue(new BookingConfirmationError('Seats are no longer available', 'INVENTORY_UNAVAILABLE'));
+    db.booking.findUniqueOrThrow.mockResolvedValue(booking);
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+
+    const { error } = await verify(body);
+
+    expect(error.message).toBe('Seats are no longer available. Your payment will be refunded.');
+    expect(refund).toHaveBeenCalledWith(booking, captured, expect.any(String));
+  });
+
+  it('leaves a payment the gateway has not captured to the reconciler', async () => {
+    confirm.mockRejectedValue(new BookingConfirmationError('Seats are no longer available', 'INVENTORY_UNAVAILABLE'));
+    db.booking.findUniqueOrThrow.mockResolvedValue(booking);
+    gateway.fetchPaymentStatus.mockResolvedValue({ ...captured, status: 'authorized' });
+
+    const { error } = await verify(body);
+
+    expect(error.message).toBe('Seats are no longer available');
+    expect(refund).not.toHaveBeenCalled();
+  });
+
+  it('does not refund another payment on the same order', async () => {
+    confirm.mockRejectedValue(new BookingConfirmationError('Booking is no longer awaiting payment', 'NOT_PENDING'));
+    db.booking.findUniqueOrThrow.mockResolvedValue({ ...booking, status: 'FAILED' });
+    gateway.fetchPaymentStatus.mockResolvedValue({ ...captured, paymentId: 'pay_2' });
+
+    await verify(body);
+
+    expect(refund).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
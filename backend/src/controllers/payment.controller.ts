@@ -6,20 +6,23 @@
 
 import { Request, Response } from 'express';
 import { prisma } from '../server';
-import { AuthenticatedRequest, CreatePaymentRequest, PaymentVerificationRequest } from '../types';
+import {
+  AuthenticatedRequest,
+  CreatePaymentRequest,
+  PaymentVerificationRequest,
+  FareLockPaymentRequest,
+  ReschedulePaymentRequest,
+} from '../types';
 import { asyncHandler, BadRequestError, NotFoundError } from '../middleware/error.middleware';
 import { logger } from '../utils/logger';
-import Razorpay from 'razorpay';
-import crypto from 'crypto';
-
-// ============================================================================
-// RAZORPAY CONFIGURATION
-// ============================================================================
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID || 'rzp_test_key',
-  key_secret: process.env.RAZORPAY_KEY_SECRET || 'test_secret',
-});
+import { activateFareLock } from '../services/fareLock.service';
+import { completeReschedule } from '../services/reschedule.service';
+import { reconcileRefundWebhook, refundUnappliedPayment } from '../services/refund.service';
+import { BookingConfirmationError, confirmBooking, reserveSplitPayment } from '../services/booking.service';
+import { refundLapsedPayment } from '../services/paymentReconciliation.service';
+import { debitWallet, releaseBookingWalletHold, topUpWallet } from '../services/wallet.service';
+import { Booking, BookingStatus, FareLockStatus, RescheduleStatus } from '@prisma/client';
+import { getPaymentProvider, getMockPaymentProvider, GatewayWebhookEvent } from '../services/paymentProvider.service';
 
 // ============================================================================
 // CREATE PAYMENT ORDER
@@ -36,12 +39,17 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
     throw new BadRequestError('User not authenticated');
   }
 
-  const { bookingId, amount, method }: CreatePaymentRequest = req.body;
+  const { bookingId, amount, method, walletAmount = 0 }: CreatePaymentRequest = req.body;
 
   if (!bookingId || !amount || !method) {
     throw new BadRequestError('Booking ID, amount, and payment method are required');
   }
 
+  // Split tender: the wallet pays part, the gateway order collects the rest
+  if (walletAmount && (method === 'wallet' || walletAmount <= 0 || walletAmount >= amount)) {
+    throw new BadRequestError('Wallet amount must be less than the total and paired with a gateway method');
+  }
+
   // Get booking details
   const booking = await prisma.booking.findFirst({
     where: { id: bookingId, userId },
@@ -60,58 +68,449 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
     throw new BadRequestError('Payment amount does not match booking total');
   }
 
-  // Handle wallet payment
+  // Handle wallet payment - the debit and the confirmation commit together
   if (method === 'wallet') {
-    const wallet = await prisma.wallet.findUnique({
-      where: { userId },
-    });
-
-    if (!wallet || Number(wallet.balance) < amount) {
-      throw new BadRequestError('Insufficient wallet balance');
+    try {
+      await confirmBooking(bookingId, {
+        paymentMethod: 'wallet',
+        paidAmount: amount,
+        walletAmount: amount,
+      });
+    } catch (error) {
+      throw new BadRequestError((error as Error).message);
     }
 
-    // Deduct from wallet
-    await prisma.wallet.update({
-      where: { userId },
+    logger.info(`Wallet payment successful for booking ${bookingId}`);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Payment successful',
       data: {
-        balance: {
-          decrement: amount,
-        },
+        bookingId,
+        amount,
+        method: 'wallet',
+        status: 'SUCCESS',
       },
     });
+  }
+
+  // Create Razorpay order for other payment methods (the gateway share of a split payment)
+  const gatewayAmount = Math.round((amount - walletAmount) * 100) / 100;
+  const orderOptions = {
+    amount: Math.round(gatewayAmount * 100), // Convert to paise
+    currency: 'INR',
+    receipt: `booking_${bookingId}`,
+    notes: {
+      bookingId,
+      userId,
+      bookingNumber: booking.bookingNumber,
+      ...(walletAmount > 0 && { walletAmount: String(walletAmount) }),
+    },
+  };
+
+  let order;
+  try {
+    order = await getPaymentProvider().createOrder(orderOptions);
+  } catch (error) {
+    logger.error('Failed to create Razorpay order:', error);
+    throw new BadRequestError('Failed to create payment order');
+  }
+
+  if (walletAmount > 0) {
+    // Hold the wallet share until the gateway payment is verified
+    try {
+      await reserveSplitPayment(bookingId, { walletAmount, razorpayOrderId: order.id });
+    } catch (error) {
+      throw new BadRequestError((error as Error).message);
+    }
+  } else {
+    // Update booking with order ID, giving back the wallet hold of an earlier split checkout
+    await prisma.$transaction(async (tx) => {
+      await releaseBookingWalletHold(tx, bookingId, `Booking ${booking.bookingNumber} checkout restarted`);
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: {
+          razorpayOrderId: order.id,
+          walletAmount: 0,
+        },
+      });
+    });
+  }
+
+  logger.info(`Razorpay order created: ${order.id} for booking ${bookingId}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Payment order created',
+    data: {
+      orderId: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      keyId: getPaymentProvider().keyId,
+      bookingId,
+      ...(walletAmount > 0 && { walletAmount, gatewayAmount }),
+    },
+  });
+});
+
+// ============================================================================
+// VERIFY PAYMENT
+// ============================================================================
+
+/**
+ * Give back a verified payment its booking cannot take: the inventory or the
+ * wallet share of a split payment is gone, or the booking expired meanwhile.
+ * Refunded through the reconciler's cancellation path, which claims the booking
+ * so the capture is refunded once. A payment the gateway has not captured yet
+ * is left to the reconciler (or the gateway's own auto-refund).
+ */
+const refundRejectedPayment = async (booking: Booking, razorpayPaymentId: string): Promise<boolean> => {
+  const payment = await getPaymentProvider().fetchPaymentStatus(booking.razorpayOrderId!);
+
+  if (payment.status !== 'captured' || payment.paymentId !== razorpayPaymentId) {
+    return false;
+  }
+
+  return await refundLapsedPayment(booking, payment, 'Payment could not be applied to the booking');
+};
+
+/**
+ * Verify Razorpay payment
+ * POST /api/v1/payments/verify
+ */
+export const verifyPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const { razorpayOrderId, razorpayPaymentId, razorpaySignature }: PaymentVerificationRequest = req.body;
+
+  if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
+    throw new BadRequestError('Order ID, payment ID, and signature are required');
+  }
+
+  // Verify signature
+  const signatureValid = getPaymentProvider().verifyPaymentSignature({
+    orderId: razorpayOrderId,
+    paymentId: razorpayPaymentId,
+    signature: razorpaySignature,
+  });
+
+  if (!signatureValid) {
+    throw new BadRequestError('Invalid payment signature');
+  }
 
-    // Create wallet transaction
-    await prisma.walletTransaction.create({
+  // Get booking by order ID
+  const booking = await prisma.booking.findFirst({
+    where: { razorpayOrderId },
+  });
+
+  if (!booking) {
+    throw new NotFoundError('Booking not found');
+  }
+
+  // A replayed verify (or the reconciler) already confirmed it with this payment
+  const isConfirmedBy = (current: Booking) =>
+    current.status === BookingStatus.CONFIRMED && current.razorpayPaymentId === razorpayPaymentId;
+
+  if (!isConfirmedBy(booking)) {
+    // A split payment collects its reserved wallet share in the same transaction
+    const walletAmount = Number(booking.walletAmount);
+
+    try {
+      await confirmBooking(booking.id, {
+        razorpayOrderId,
+        razorpayPaymentId,
+        razorpaySignature,
+        paymentMethod: walletAmount > 0 ? 'split' : getPaymentProvider().name,
+        paidAmount: Number(booking.totalAmount),
+        walletAmount,
+      });
+    } catch (error) {
+      if (!(error instanceof BookingConfirmationError)) {
+        throw error;
+      }
+
+      // NOT_PENDING may just be a concurrent verify or reconciler run confirming it
+      const current = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
+
+      if (!isConfirmedBy(current)) {
+        const refunded = await refundRejectedPayment(current, razorpayPaymentId);
+        throw new BadRequestError(refunded ? `${error.message}. Your payment will be refunded.` : error.message);
+      }
+    }
+
+    logger.info(`Payment verified for booking ${booking.id}`);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Payment verified successfully',
+    data: {
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      amount: booking.totalAmount,
+      status: 'CONFIRMED',
+    },
+  });
+});
+
+// ============================================================================
+// FARE LOCK PAYMENTS
+// ============================================================================
+
+/**
+ * Pay a fare lock fee from the wallet or create a Razorpay order for it
+ * POST /api/v1/payments/fare-lock/create-order
+ */
+export const createFareLockOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const { fareLockId, method }: FareLockPaymentRequest = req.body;
+
+  if (!fareLockId || !method) {
+    throw new BadRequestError('Fare lock ID and payment method are required');
+  }
+
+  const fareLock = await prisma.fareLock.findFirst({
+    where: { id: fareLockId, userId },
+  });
+
+  if (!fareLock) {
+    throw new NotFoundError('Fare lock not found');
+  }
+
+  if (fareLock.status !== FareLockStatus.PENDING_PAYMENT || fareLock.expiresAt < new Date()) {
+    throw new BadRequestError('Fare lock is not awaiting payment');
+  }
+
+  const amount = Number(fareLock.lockFee);
+
+  // Handle wallet payment
+  if (method === 'wallet') {
+    let activated;
+    try {
+      activated = await prisma.$transaction(async (tx) => {
+        await debitWallet(tx, userId, amount, {
+          description: 'Fare lock fee',
+          referenceId: fareLockId,
+          referenceType: 'FARE_LOCK',
+          idempotencyKey: `fare-lock-payment:${fareLockId}`,
+        });
+
+        return activateFareLock(tx, fareLockId, { paymentMethod: 'wallet' });
+      });
+    } catch (error) {
+      throw new BadRequestError((error as Error).message);
+    }
+
+    logger.info(`Wallet payment successful for fare lock ${fareLockId}`);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Fare locked',
       data: {
-        walletId: wallet.id,
-        type: 'DEBIT',
+        fareLockId,
         amount,
+        method: 'wallet',
         status: 'SUCCESS',
-        description: `Payment for booking ${booking.bookingNumber}`,
-        referenceId: bookingId,
-        referenceType: 'BOOKING',
+        expiresAt: activated.expiresAt,
+      },
+    });
+  }
+
+  // Create Razorpay order for other payment methods
+  const orderOptions = {
+    amount: Math.round(amount * 100), // Convert to paise
+    currency: 'INR',
+    receipt: `fare_lock_${fareLockId}`,
+    notes: {
+      fareLockId,
+      userId,
+      type: 'FARE_LOCK',
+    },
+  };
+
+  try {
+    const order = await getPaymentProvider().createOrder(orderOptions);
+
+    await prisma.fareLock.update({
+      where: { id: fareLockId },
+      data: {
+        razorpayOrderId: order.id,
       },
     });
 
-    // Update booking
-    await prisma.booking.update({
-      where: { id: bookingId },
+    logger.info(`Razorpay order created: ${order.id} for fare lock ${fareLockId}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment order created',
       data: {
-        status: 'CONFIRMED',
-        paymentStatus: 'CAPTURED',
-        paidAmount: amount,
-        paymentMethod: 'wallet',
-        confirmedAt: new Date(),
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        keyId: getPaymentProvider().keyId,
+        fareLockId,
       },
     });
+  } catch (error) {
+    logger.error('Failed to create Razorpay order for fare lock:', error);
+    throw new BadRequestError('Failed to create payment order');
+  }
+});
 
-    logger.info(`Wallet payment successful for booking ${bookingId}`);
+/**
+ * Verify Razorpay payment for a fare lock fee
+ * POST /api/v1/payments/fare-lock/verify
+ */
+export const verifyFareLockPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const { razorpayOrderId, razorpayPaymentId, razorpaySignature }: PaymentVerificationRequest = req.body;
+
+  if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
+    throw new BadRequestError('Order ID, payment ID, and signature are required');
+  }
+
+  // Verify signature
+  const signatureValid = getPaymentProvider().verifyPaymentSignature({
+    orderId: razorpayOrderId,
+    paymentId: razorpayPaymentId,
+    signature: razorpaySignature,
+  });
+
+  if (!signatureValid) {
+    throw new BadRequestError('Invalid payment signature');
+  }
+
+  const fareLock = await prisma.fareLock.findFirst({
+    where: { razorpayOrderId, userId },
+  });
+
+  if (!fareLock) {
+    throw new NotFoundError('Fare lock not found');
+  }
+
+  let activated;
+  try {
+    activated = await prisma.$transaction((tx) =>
+      activateFareLock(tx, fareLock.id, {
+        paymentMethod: getPaymentProvider().name,
+        razorpayOrderId,
+        razorpayPaymentId,
+      })
+    );
+  } catch (error) {
+    const current = await prisma.fareLock.findUnique({
+      where: { id: fareLock.id },
+    });
+
+    const appliedHere = current?.razorpayPaymentId === razorpayPaymentId;
+    const activatable =
+      current?.status === FareLockStatus.PENDING_PAYMENT && current.expiresAt > new Date() && !!current.holdId;
+
+    if (current && appliedHere && current.status !== FareLockStatus.PENDING_PAYMENT) {
+      // A replayed or concurrent verify already activated the lock with this payment
+      activated = current;
+    } else if (activatable) {
+      // Transient failure - the client can verify again
+      throw new BadRequestError((error as Error).message);
+    } else {
+      // The fee was captured but the lock can no longer be had - give it back
+      await refundUnappliedPayment({
+        razorpayPaymentId,
+        amount: Number(fareLock.lockFee),
+        source: { fareLockId: fareLock.id },
+      });
+      throw new BadRequestError(`${(error as Error).message}. The lock fee will be refunded.`);
+    }
+  }
+
+  logger.info(`Payment verified for fare lock ${fareLock.id}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Fare locked',
+    data: {
+      fareLockId: fareLock.id,
+      amount: fareLock.lockFee,
+      status: activated.status,
+      expiresAt: activated.expiresAt,
+    },
+  });
+});
+
+// ============================================================================
+// RESCHEDULE PAYMENTS
+// ============================================================================
+
+/**
+ * Pay the amount due on a reschedule from the wallet or create a Razorpay order for it
+ * POST /api/v1/payments/reschedule/create-order
+ */
+export const createRescheduleOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const { rescheduleId, method }: ReschedulePaymentRequest = req.body;
+
+  if (!rescheduleId || !method) {
+    throw new BadRequestError('Reschedule ID and payment method are required');
+  }
+
+  const reschedule = await prisma.bookingReschedule.findFirst({
+    where: { id: rescheduleId, userId },
+  });
+
+  if (!reschedule) {
+    throw new NotFoundError('Reschedule not found');
+  }
+
+  if (reschedule.status !== RescheduleStatus.PENDING_PAYMENT || reschedule.expiresAt < new Date()) {
+    throw new BadRequestError('Reschedule is not awaiting payment');
+  }
+
+  const amount = Number(reschedule.amountDue);
+
+  // Handle wallet payment
+  if (method === 'wallet') {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await debitWallet(tx, userId, amount, {
+          description: 'Reschedule fare difference and charges',
+          referenceId: rescheduleId,
+          referenceType: 'RESCHEDULE',
+          idempotencyKey: `reschedule-payment:${rescheduleId}`,
+        });
+
+        return completeReschedule(tx, rescheduleId, { paymentMethod: 'wallet' });
+      });
+    } catch (error) {
+      throw new BadRequestError((error as Error).message);
+    }
+
+    logger.info(`Wallet payment successful for reschedule ${rescheduleId}`);
 
     return res.status(200).json({
       success: true,
-      message: 'Payment successful',
+      message: 'Booking rescheduled',
       data: {
-        bookingId,
+        rescheduleId,
+        bookingId: reschedule.bookingId,
         amount,
         method: 'wallet',
         status: 'SUCCESS',
@@ -123,26 +522,26 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
   const orderOptions = {
     amount: Math.round(amount * 100), // Convert to paise
     currency: 'INR',
-    receipt: `booking_${bookingId}`,
+    receipt: `reschedule_${rescheduleId}`,
     notes: {
-      bookingId,
+      rescheduleId,
+      bookingId: reschedule.bookingId,
       userId,
-      bookingNumber: booking.bookingNumber,
+      type: 'RESCHEDULE',
     },
   };
 
   try {
-    const order = await razorpay.orders.create(orderOptions);
+    const order = await getPaymentProvider().createOrder(orderOptions);
 
-    // Update booking with order ID
-    await prisma.booking.update({
-      where: { id: bookingId },
+    await prisma.bookingReschedule.update({
+      where: { id: rescheduleId },
       data: {
         razorpayOrderId: order.id,
       },
     });
 
-    logger.info(`Razorpay order created: ${order.id} for booking ${bookingId}`);
+    logger.info(`Razorpay order created: ${order.id} for reschedule ${rescheduleId}`);
 
     res.status(200).json({
       success: true,
@@ -151,27 +550,23 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
         orderId: order.id,
         amount: order.amount,
         currency: order.currency,
-        keyId: process.env.RAZORPAY_KEY_ID,
-        bookingId,
+        keyId: getPaymentProvider().keyId,
+        rescheduleId,
       },
     });
   } catch (error) {
-    logger.error('Failed to create Razorpay order:', error);
+    logger.error('Failed to create Razorpay order for reschedule:', error);
     throw new BadRequestError('Failed to create payment order');
   }
 });
 
-// ============================================================================
-// VERIFY PAYMENT
-// ============================================================================
-
 /**
- * Verify Razorpay payment
- * POST /api/v1/payments/verify
+ * Verify Razorpay payment for a reschedule and move the booking
+ * POST /api/v1/payments/reschedule/verify
  */
-export const verifyPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+export const verifyReschedulePayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.user?.id;
-  
+
   if (!userId) {
     throw new BadRequestError('User not authenticated');
   }
@@ -183,49 +578,73 @@ export const verifyPayment = asyncHandler(async (req: AuthenticatedRequest, res:
   }
 
   // Verify signature
-  const body = razorpayOrderId + '|' + razorpayPaymentId;
-  const expectedSignature = crypto
-    .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || 'test_secret')
-    .update(body)
-    .digest('hex');
+  const signatureValid = getPaymentProvider().verifyPaymentSignature({
+    orderId: razorpayOrderId,
+    paymentId: razorpayPaymentId,
+    signature: razorpaySignature,
+  });
 
-  if (expectedSignature !== razorpaySignature) {
+  if (!signatureValid) {
     throw new BadRequestError('Invalid payment signature');
   }
 
-  // Get booking by order ID
-  const booking = await prisma.booking.findFirst({
-    where: { razorpayOrderId },
+  const reschedule = await prisma.bookingReschedule.findFirst({
+    where: { razorpayOrderId, userId },
   });
 
-  if (!booking) {
-    throw new NotFoundError('Booking not found');
+  if (!reschedule) {
+    throw new NotFoundError('Reschedule not found');
   }
 
-  // Update booking
-  await prisma.booking.update({
-    where: { id: booking.id },
-    data: {
-      status: 'CONFIRMED',
-      paymentStatus: 'CAPTURED',
-      paidAmount: booking.totalAmount,
-      razorpayPaymentId,
-      razorpaySignature,
-      paymentMethod: 'razorpay',
-      confirmedAt: new Date(),
-    },
-  });
+  let completed;
+  try {
+    completed = await prisma.$transaction((tx) =>
+      completeReschedule(tx, reschedule.id, {
+        paymentMethod: getPaymentProvider().name,
+        razorpayOrderId,
+        razorpayPaymentId,
+      })
+    );
+  } catch (error) {
+    const current = await prisma.bookingReschedule.findUnique({
+      where: { id: reschedule.id },
+      include: { booking: true },
+    });
+
+    const appliedHere = current?.razorpayPaymentId === razorpayPaymentId;
+    const completable =
+      current?.status === RescheduleStatus.PENDING_PAYMENT &&
+      current.expiresAt > new Date() &&
+      !!current.holdId &&
+      current.booking.status === BookingStatus.CONFIRMED;
+
+    if (current && appliedHere && current.status === RescheduleStatus.COMPLETED) {
+      // A replayed or concurrent verify already completed the reschedule with this payment
+      completed = current;
+    } else if (completable) {
+      // Transient failure - the client can verify again
+      throw new BadRequestError((error as Error).message);
+    } else {
+      // The payment was captured but the booking can no longer be moved - give it back
+      await refundUnappliedPayment({
+        razorpayPaymentId,
+        amount: Number(reschedule.amountDue),
+        source: { rescheduleId: reschedule.id, bookingId: reschedule.bookingId },
+      });
+      throw new BadRequestError(`${(error as Error).message}. The payment will be refunded.`);
+    }
+  }
 
-  logger.info(`Payment verified for booking ${booking.id}`);
+  logger.info(`Payment verified for reschedule ${reschedule.id}`);
 
   res.status(200).json({
     success: true,
-    message: 'Payment verified successfully',
+    message: 'Booking rescheduled',
     data: {
-      bookingId: booking.id,
-      bookingNumber: booking.bookingNumber,
-      amount: booking.totalAmount,
-      status: 'CONFIRMED',
+      rescheduleId: reschedule.id,
+      bookingId: reschedule.bookingId,
+      amount: reschedule.amountDue,
+      status: completed.status,
     },
   });
 });
@@ -311,7 +730,7 @@ export const addMoneyToWallet = asyncHandler(async (req: AuthenticatedRequest, r
   };
 
   try {
-    const order = await razorpay.orders.create(orderOptions);
+    const order = await getPaymentProvider().createOrder(orderOptions);
 
     logger.info(`Wallet top-up order created: ${order.id} for user ${userId}`);
 
@@ -322,7 +741,7 @@ export const addMoneyToWallet = asyncHandler(async (req: AuthenticatedRequest, r
         orderId: order.id,
         amount: order.amount,
         currency: order.currency,
-        keyId: process.env.RAZORPAY_KEY_ID,
+        keyId: getPaymentProvider().keyId,
       },
     });
   } catch (error) {
@@ -342,57 +761,44 @@ export const verifyWalletTopup = asyncHandler(async (req: AuthenticatedRequest,
     throw new BadRequestError('User not authenticated');
   }
 
-  const { razorpayOrderId, razorpayPaymentId, razorpaySignature, amount } = req.body;
+  const { razorpayOrderId, razorpayPaymentId, razorpaySignature } = req.body;
 
   // Verify signature
-  const body = razorpayOrderId + '|' + razorpayPaymentId;
-  const expectedSignature = crypto
-    .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || 'test_secret')
-    .update(body)
-    .digest('hex');
+  const signatureValid = getPaymentProvider().verifyPaymentSignature({
+    orderId: razorpayOrderId,
+    paymentId: razorpayPaymentId,
+    signature: razorpaySignature,
+  });
 
-  if (expectedSignature !== razorpaySignature) {
+  if (!signatureValid) {
     throw new BadRequestError('Invalid payment signature');
   }
 
-  // Get or create wallet
-  let wallet = await prisma.wallet.findUnique({
-    where: { userId },
-  });
+  // Credit what was actually ordered, never the amount sent by the client
+  let order;
+  try {
+    order = await getPaymentProvider().fetchOrder(razorpayOrderId);
+  } catch (error) {
+    logger.error(`Failed to fetch wallet top-up order ${razorpayOrderId}:`, error);
+    throw new BadRequestError('Failed to verify wallet top-up order');
+  }
 
-  if (!wallet) {
-    wallet = await prisma.wallet.create({
-      data: {
-        userId,
-        balance: 0,
-        currency: 'INR',
-      },
-    });
+  if (order.notes?.type !== 'WALLET_TOPUP' || order.notes?.userId !== userId) {
+    throw new BadRequestError('Order is not a wallet top-up for this user');
   }
 
-  // Add money to wallet
-  await prisma.wallet.update({
-    where: { userId },
-    data: {
-      balance: {
-        increment: amount,
-      },
-    },
-  });
+  const amount = order.amount / 100;
 
-  // Create transaction record
-  await prisma.walletTransaction.create({
-    data: {
-      walletId: wallet.id,
-      type: 'CREDIT',
-      amount,
-      status: 'SUCCESS',
+  // A retried verification replays the original posting
+  await prisma.$transaction((tx) =>
+    topUpWallet(tx, userId, amount, {
       description: 'Wallet top-up',
+      idempotencyKey: `wallet-topup:${razorpayPaymentId}`,
       razorpayOrderId,
       razorpayPaymentId,
       razorpaySignature,
-    },
-  });
+    })
+  );
 
   logger.info(`Wallet top-up successful: ${amount} for user ${userId}`);
 
@@ -411,48 +817,96 @@ export const verifyWalletTopup = asyncHandler(async (req: AuthenticatedRequest,
 // ============================================================================
 
 /**
- * Handle Razorpay webhooks
+ * Apply a normalised gateway event
+ */
+const applyWebhookEvent = async (event: GatewayWebhookEvent): Promise<void> => {
+  switch (event.type) {
+    case 'payment.captured':
+      // Payment captured - booking already updated in verify endpoint
+      break;
+    case 'payment.failed':
+      // The customer may retry on the same order, so the booking (and any wallet
+      // hold of a split payment) stays until the order or booking expires
+      logger.warn(`Gateway payment ${event.paymentId} failed for order ${event.orderId}`);
+      break;
+    case 'refund.processed':
+    case 'refund.failed':
+      await reconcileRefundWebhook(event.type, event.refund);
+      break;
+  }
+};
+
+/**
+ * Handle payment gateway webhooks
  * POST /api/v1/payments/webhook
  */
 export const handleWebhook = asyncHandler(async (req: Request, res: Response) => {
-  const signature = req.headers['x-razorpay-signature'] as string;
-  
+  const signature = (req.headers['x-razorpay-signature'] || req.headers['x-mock-signature']) as string | undefined;
+
   if (!signature) {
     throw new BadRequestError('Webhook signature missing');
   }
 
-  // Verify webhook signature
-  const expectedSignature = crypto
-    .createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET || 'webhook_secret')
-    .update(JSON.stringify(req.body))
-    .digest('hex');
+  let event: GatewayWebhookEvent;
+  try {
+    event = getPaymentProvider().parseWebhook(req.body, signature);
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  logger.info(`Payment webhook received: ${event.type === 'unhandled' ? event.name : event.type}`);
+
+  await applyWebhookEvent(event);
+
+  res.status(200).json({ received: true });
+});
+
+// ============================================================================
+// MOCK CHECKOUT
+// ============================================================================
+
+/**
+ * Pay an order through the mock provider (stands in for the hosted checkout)
+ * Returns what the checkout would hand the client for the verify endpoints;
+ * a failed payment is applied like the gateway's payment.failed webhook.
+ * POST /api/v1/payments/mock/checkout
+ */
+export const mockCheckout = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const mockProvider = getMockPaymentProvider();
+
+  if (!mockProvider) {
+    throw new NotFoundError('Mock payments are not enabled');
+  }
+
+  const { orderId, outcome } = req.body;
 
-  if (signature !== expectedSignature) {
-    throw new BadRequestError('Invalid webhook signature');
+  if (!orderId) {
+    throw new BadRequestError('Order ID is required');
   }
 
-  const { event, payload } = req.body;
+  if (outcome && !['success', 'failure', 'delayed_capture'].includes(outcome)) {
+    throw new BadRequestError('Outcome must be success, failure or delayed_capture');
+  }
 
-  logger.info(`Razorpay webhook received: ${event}`);
+  let result;
+  try {
+    result = mockProvider.simulatePayment(orderId, outcome);
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
 
-  // Handle different events
-  switch (event) {
-    case 'payment.captured':
-      // Payment captured - booking already updated in verify endpoint
-      break;
-    case 'payment.failed':
-      // Handle payment failure
-      const orderId = payload.payment.entity.order_id;
-      await prisma.booking.updateMany({
-        where: { razorpayOrderId: orderId },
-        data: { paymentStatus: 'FAILED' },
-      });
-      break;
-    case 'refund.processed':
-      // Handle refund
-      // TODO: Update cancellation request status
-      break;
+  if (result.status === 'failed') {
+    await applyWebhookEvent({ type: 'payment.failed', orderId, paymentId: result.paymentId });
   }
 
-  res.status(200).json({ received: true });
+  res.status(200).json({
+    success: true,
+    message: result.status === 'failed' ? 'Mock payment failed' : `Mock payment ${result.status}`,
+    data: {
+      status: result.status,
+      razorpayOrderId: result.orderId,
+      razorpayPaymentId: result.paymentId,
+      razorpaySignature: result.signature,
+    },
+  });
 });
\ No newline at end of file
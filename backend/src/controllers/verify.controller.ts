@@ -0,0 +1,94 @@
+/**
+ * VERIFY CONTROLLER
+ * HTTP request handlers for ticket verification at boarding / check-in
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../server';
+import { AuthenticatedRequest, VerifyTicketRequest, RecordNoShowRequest } from '../types';
+import { asyncHandler, BadRequestError, NotFoundError, ForbiddenError } from '../middleware/error.middleware';
+import { verifyTicket, recordNoShow, canVerifyBooking } from '../services/verification.service';
+import { ticketBookingInclude } from '../services/ticket.service';
+import { getTicketPublicKeyPem } from '../utils/ticketToken';
+
+// ============================================================================
+// TICKET VERIFICATION
+// ============================================================================
+
+/**
+ * Verify scanned ticket and record boarding / check-in
+ * POST /api/v1/verify/ticket
+ */
+export const verifyTicketHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { token, passengerIds, location }: VerifyTicketRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  if (!token) {
+    throw new BadRequestError('Ticket token is required');
+  }
+
+  const result = await verifyTicket({ token, userId, passengerIds, location });
+
+  res.status(200).json({
+    success: result.valid,
+    message: result.message,
+    data: result,
+  });
+});
+
+/**
+ * Record no-show for passengers who did not board / check in
+ * POST /api/v1/verify/no-show
+ */
+export const recordNoShowHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  const { bookingId, notes }: RecordNoShowRequest = req.body;
+
+  if (!userId) {
+    throw new BadRequestError('User not authenticated');
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: ticketBookingInclude,
+  });
+
+  if (!booking) {
+    throw new NotFoundError('Booking not found');
+  }
+
+  if (!(await canVerifyBooking(userId, booking))) {
+    throw new ForbiddenError('Booking does not belong to your inventory');
+  }
+
+  try {
+    const result = await recordNoShow(bookingId, userId, notes);
+
+    res.status(200).json({
+      success: true,
+      message: 'No-show recorded',
+      data: result,
+    });
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+});
+
+/**
+ * Public key for offline ticket verification
+ * GET /api/v1/verify/public-key
+ */
+export const getPublicKey = asyncHandler(async (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    message: 'Ticket verification key retrieved',
+    data: {
+      algorithm: 'Ed25519',
+      publicKey: getTicketPublicKeyPem(),
+    },
+  });
+});
\ No newline at end of file
@@ -10,6 +10,7 @@ import {
   getUsers,
   getUserById,
   updateUserStatus,
+  updateUserPartner,
   createAdminUser,
   getPartners,
   createPartner,
@@ -19,6 +20,37 @@ import {
   updateBookingStatus,
   getCancellationRequests,
   processCancellation,
+  getDisruptions,
+  getDisruptionById,
+  getRefunds,
+  retryRefund,
+  auditWalletsHandler,
+  reconcilePaymentsHandler,
+  getSettlementReports,
+  createSettlementReport,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  getCouponRedemptions,
+  getChargeRules,
+  createChargeRule,
+  updateChargeRule,
+  deleteChargeRule,
+  getPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+  simulatePricing,
+  getHolidays,
+  createHoliday,
+  deleteHoliday,
+  rollForwardSchedulesHandler,
+  getPolicies,
+  getPolicyById,
+  createPolicyHandler,
+  updatePolicyHandler,
+  deletePolicyHandler,
+  evaluatePolicyHandler,
 } from '../controllers/admin.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { authorizeAdmin } from '../middleware/auth.middleware';
@@ -65,6 +97,13 @@ router.get('/users/:id', getUserById);
  */
 router.patch('/users/:id/status', updateUserStatus);
 
+/**
+ * @route   PATCH /api/v1/admin/users/:id/partner
+ * @desc    Link user to partner as staff
+ * @access  Admin
+ */
+router.patch('/users/:id/partner', updateUserPartner);
+
 /**
  * @route   POST /api/v1/admin/users/create-admin
  * @desc    Create admin user
@@ -159,4 +198,295 @@ router.post('/cancellations/:id/process', [
   body('action').isIn(['APPROVE', 'REJECT']),
 ], processCancellation);
 
+/**
+ * @route   GET /api/v1/admin/disruptions
+ * @desc    Get cancelled and delayed schedules
+ * @access  Admin
+ */
+router.get('/disruptions', getDisruptions);
+
+/**
+ * @route   GET /api/v1/admin/disruptions/:id
+ * @desc    Get disruption with per-passenger audit trail
+ * @access  Admin
+ */
+router.get('/disruptions/:id', getDisruptionById);
+
+/**
+ * @route   GET /api/v1/admin/refunds
+ * @desc    Get refund payouts (gateway and wallet)
+ * @access  Admin
+ */
+router.get('/refunds', getRefunds);
+
+/**
+ * @route   POST /api/v1/admin/refunds/:id/retry
+ * @desc    Retry a failed refund now
+ * @access  Admin
+ */
+router.post('/refunds/:id/retry', retryRefund);
+
+/**
+ * @route   POST /api/v1/admin/wallets/audit
+ * @desc    Recompute wallet balances from the ledger (fix: true resets drifted wallets)
+ * @access  Admin
+ */
+router.post('/wallets/audit', auditWalletsHandler);
+
+/**
+ * @route   POST /api/v1/admin/payments/reconcile
+ * @desc    Confirm or expire stale pending bookings from gateway order status
+ * @access  Admin
+ */
+router.post('/payments/reconcile', reconcilePaymentsHandler);
+
+/**
+ * @route   GET /api/v1/admin/payments/settlement-reports
+ * @desc    Get daily gateway settlement mismatch reports
+ * @access  Admin
+ */
+router.get('/payments/settlement-reports', getSettlementReports);
+
+/**
+ * @route   POST /api/v1/admin/payments/settlement-reports
+ * @desc    Build the settlement report for a day (date, default today)
+ * @access  Admin
+ */
+router.post('/payments/settlement-reports', createSettlementReport);
+
+// ============================================================================
+// COUPON MANAGEMENT
+// ============================================================================
+
+/**
+ * @route   GET /api/v1/admin/coupons
+ * @desc    Get coupons
+ * @access  Admin
+ */
+router.get('/coupons', getCoupons);
+
+/**
+ * @route   POST /api/v1/admin/coupons
+ * @desc    Create coupon
+ * @access  Admin
+ */
+router.post('/coupons', [
+  body('code').trim().isLength({ min: 3, max: 32 }),
+  body('discountType').isIn(['PERCENTAGE', 'FLAT']),
+  body('discountValue').isFloat({ gt: 0 }),
+  body('maxDiscountAmount').isFloat({ gt: 0 }).optional(),
+  body('minOrderValue').isFloat({ min: 0 }).optional(),
+  body('categories').isArray().optional(),
+  body('categories.*').isIn(['BUS', 'AIRLINE', 'HOTEL']),
+  body('validFrom').isISO8601(),
+  body('validUntil').isISO8601(),
+  body('usageLimit').isInt({ min: 1 }).optional(),
+  body('perUserLimit').isInt({ min: 1 }).optional(),
+], createCoupon);
+
+/**
+ * @route   PATCH /api/v1/admin/coupons/:id
+ * @desc    Update coupon
+ * @access  Admin
+ */
+router.patch('/coupons/:id', updateCoupon);
+
+/**
+ * @route   GET /api/v1/admin/coupons/:id/redemptions
+ * @desc    Get coupon redemption ledger
+ * @access  Admin
+ */
+router.get('/coupons/:id/redemptions', getCouponRedemptions);
+
+// ============================================================================
+// FEE & TAX RULES
+// ============================================================================
+
+/**
+ * @route   GET /api/v1/admin/charge-rules
+ * @desc    Get fee/tax rules
+ * @access  Admin
+ */
+router.get('/charge-rules', getChargeRules);
+
+/**
+ * @route   POST /api/v1/admin/charge-rules
+ * @desc    Create fee/tax rule
+ * @access  Admin
+ */
+router.post('/charge-rules', [
+  body('code').trim().isLength({ min: 2 }),
+  body('name').trim().isLength({ min: 2 }),
+  body('type').isIn(['FEE', 'TAX']),
+  body('category').isIn(['BUS', 'AIRLINE', 'HOTEL']),
+  body('minAmount').isFloat({ min: 0 }).optional(),
+  body('maxAmount').isFloat({ min: 0 }).optional(),
+  body('calculation').isIn(['PERCENTAGE', 'FLAT']).optional(),
+  body('rate').isFloat({ min: 0 }),
+  body('appliesOn').isIn(['BASE_FARE', 'FEES']).optional(),
+  body('priority').isInt().optional(),
+], createChargeRule);
+
+/**
+ * @route   PATCH /api/v1/admin/charge-rules/:id
+ * @desc    Update fee/tax rule
+ * @access  Admin
+ */
+router.patch('/charge-rules/:id', updateChargeRule);
+
+/**
+ * @route   DELETE /api/v1/admin/charge-rules/:id
+ * @desc    Delete fee/tax rule
+ * @access  Admin
+ */
+router.delete('/charge-rules/:id', deleteChargeRule);
+
+// ============================================================================
+// DYNAMIC PRICING
+// ============================================================================
+
+const pricingRuleValidation = [
+  body('name').trim().isLength({ min: 2 }),
+  body('category').isIn(['BUS', 'AIRLINE']),
+  body('trigger').isIn(['LOAD_FACTOR', 'DAYS_TO_DEPARTURE', 'DAY_OF_WEEK', 'HOLIDAY']),
+  body('minValue').isFloat({ min: 0 }).optional(),
+  body('maxValue').isFloat({ min: 0 }).optional(),
+  body('daysOfWeek').isArray().optional(),
+  body('daysOfWeek.*').isInt({ min: 0, max: 6 }),
+  body('calculation').isIn(['PERCENTAGE', 'FLAT']).optional(),
+  body('adjustment').isFloat(),
+  body('priority').isInt().optional(),
+];
+
+/**
+ * @route   GET /api/v1/admin/pricing-rules
+ * @desc    Get dynamic pricing rules
+ * @access  Admin
+ */
+router.get('/pricing-rules', getPricingRules);
+
+/**
+ * @route   POST /api/v1/admin/pricing-rules/simulate
+ * @desc    Preview fares for a schedule with active or draft rules
+ * @access  Admin
+ */
+router.post('/pricing-rules/simulate', [
+  body('scheduleId').notEmpty(),
+  body('category').isIn(['BUS', 'AIRLINE']),
+  body('cabinClass').isIn(['ECONOMY', 'PREMIUM_ECONOMY', 'BUSINESS', 'FIRST']).optional(),
+  body('rules').isArray().optional(),
+], simulatePricing);
+
+/**
+ * @route   POST /api/v1/admin/pricing-rules
+ * @desc    Create dynamic pricing rule
+ * @access  Admin
+ */
+router.post('/pricing-rules', pricingRuleValidation, createPricingRule);
+
+/**
+ * @route   PATCH /api/v1/admin/pricing-rules/:id
+ * @desc    Update dynamic pricing rule
+ * @access  Admin
+ */
+router.patch('/pricing-rules/:id', updatePricingRule);
+
+/**
+ * @route   DELETE /api/v1/admin/pricing-rules/:id
+ * @desc    Delete dynamic pricing rule
+ * @access  Admin
+ */
+router.delete('/pricing-rules/:id', deletePricingRule);
+
+/**
+ * @route   GET /api/v1/admin/holidays
+ * @desc    Get holiday calendar used by pricing rules
+ * @access  Admin
+ */
+router.get('/holidays', getHolidays);
+
+/**
+ * @route   POST /api/v1/admin/holidays
+ * @desc    Add a holiday
+ * @access  Admin
+ */
+router.post('/holidays', [
+  body('date').isISO8601(),
+  body('name').trim().isLength({ min: 2 }),
+], createHoliday);
+
+/**
+ * @route   DELETE /api/v1/admin/holidays/:id
+ * @desc    Remove a holiday
+ * @access  Admin
+ */
+router.delete('/holidays/:id', deleteHoliday);
+
+// ============================================================================
+// SCHEDULE GENERATION
+// ============================================================================
+
+/**
+ * @route   POST /api/v1/admin/schedules/roll-forward
+ * @desc    Run the rolling schedule job now (supports dry run)
+ * @access  Admin
+ */
+router.post('/schedules/roll-forward', [
+  body('days').isInt({ min: 1, max: 365 }).optional(),
+  body('dryRun').isBoolean().optional(),
+], rollForwardSchedulesHandler);
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+/**
+ * @route   GET /api/v1/admin/policies
+ * @desc    Get policies (every version)
+ * @access  Admin
+ */
+router.get('/policies', getPolicies);
+
+/**
+ * @route   GET /api/v1/admin/policies/evaluate
+ * @desc    Evaluate the policy that applies to a booking category / partner (optionally at a date)
+ * @access  Admin
+ */
+router.get('/policies/evaluate', evaluatePolicyHandler);
+
+/**
+ * @route   GET /api/v1/admin/policies/:id
+ * @desc    Get policy version with its version history
+ * @access  Admin
+ */
+router.get('/policies/:id', getPolicyById);
+
+/**
+ * @route   POST /api/v1/admin/policies
+ * @desc    Create policy, or the next version of an existing name
+ * @access  Admin
+ */
+router.post('/policies', [
+  body('name').trim().isLength({ min: 2 }),
+  body('category').isIn(['CANCELLATION', 'REFUND', 'BOOKING', 'HOLD']),
+  body('bookingCategory').isIn(['BUS', 'AIRLINE', 'HOTEL']).optional(),
+  body('rules').isObject(),
+  body('effectiveFrom').isISO8601(),
+  body('effectiveUntil').isISO8601().optional(),
+], createPolicyHandler);
+
+/**
+ * @route   PATCH /api/v1/admin/policies/:id
+ * @desc    Update policy version (rules only before it takes effect)
+ * @access  Admin
+ */
+router.patch('/policies/:id', updatePolicyHandler);
+
+/**
+ * @route   DELETE /api/v1/admin/policies/:id
+ * @desc    Delete a policy version that has not taken effect
+ * @access  Admin
+ */
+router.delete('/policies/:id', deletePolicyHandler);
+
 export default router;
\ No newline at end of file
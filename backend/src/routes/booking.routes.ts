@@ -11,8 +11,16 @@ import {
   getBookingById,
   confirmBookingHandler,
   cancelBookingHandler,
+  cancelPassengersHandler,
   getCancellationDetails,
   downloadTicket,
+  validateCouponHandler,
+  downloadInvoice,
+  getBookingInvoices,
+  getDisruptionHandler,
+  rebookDisruptionHandler,
+  refundDisruptionHandler,
+  rescheduleBookingHandler,
 } from '../controllers/booking.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -50,6 +58,18 @@ const cancelBookingValidation = [
     .withMessage('Cancellation reason is required (min 5 characters)'),
 ];
 
+const partialCancellationValidation = [
+  ...cancelBookingValidation,
+  body('passengerIds')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Passenger IDs must be a non-empty array'),
+  body('roomNumbers')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Room numbers must be a non-empty array'),
+];
+
 const confirmBookingValidation = [
   body('paymentMethod')
     .isIn(['razorpay', 'wallet', 'upi', 'card'])
@@ -59,6 +79,44 @@ const confirmBookingValidation = [
     .withMessage('Paid amount is required'),
 ];
 
+const rescheduleBookingValidation = [
+  body('scheduleId')
+    .optional()
+    .isString()
+    .withMessage('Schedule ID must be a string'),
+  body('seatNumbers')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Seat numbers must be a non-empty array'),
+  body('checkInDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Check-in date must be a valid date'),
+  body('checkOutDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Check-out date must be a valid date'),
+];
+
+const rebookDisruptionValidation = [
+  body('scheduleId')
+    .notEmpty()
+    .withMessage('Schedule ID is required'),
+];
+
+const validateCouponValidation = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Coupon code is required'),
+  body('category')
+    .isIn(['BUS', 'AIRLINE', 'HOTEL'])
+    .withMessage('Category must be BUS, AIRLINE, or HOTEL'),
+  body('orderAmount')
+    .isFloat({ min: 0 })
+    .withMessage('Order amount is required'),
+];
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -73,6 +131,13 @@ router.use(authenticate);
  */
 router.post('/', createBookingValidation, createBooking);
 
+/**
+ * @route   POST /api/v1/bookings/coupons/validate
+ * @desc    Preview coupon discount
+ * @access  Private
+ */
+router.post('/coupons/validate', validateCouponValidation, validateCouponHandler);
+
 /**
  * @route   GET /api/v1/bookings
  * @desc    Get user's bookings
@@ -101,6 +166,13 @@ router.patch('/:id/confirm', confirmBookingValidation, confirmBookingHandler);
  */
 router.post('/:id/cancel', cancelBookingValidation, cancelBookingHandler);
 
+/**
+ * @route   POST /api/v1/bookings/:id/cancel-partial
+ * @desc    Cancel some passengers (bus/flight) or rooms (hotel)
+ * @access  Private
+ */
+router.post('/:id/cancel-partial', partialCancellationValidation, cancelPassengersHandler);
+
 /**
  * @route   GET /api/v1/bookings/:id/cancellation-details
  * @desc    Get cancellation details
@@ -108,6 +180,34 @@ router.post('/:id/cancel', cancelBookingValidation, cancelBookingHandler);
  */
 router.get('/:id/cancellation-details', getCancellationDetails);
 
+/**
+ * @route   POST /api/v1/bookings/:id/reschedule
+ * @desc    Change schedule (bus/flight) or stay dates (hotel)
+ * @access  Private
+ */
+router.post('/:id/reschedule', rescheduleBookingValidation, rescheduleBookingHandler);
+
+/**
+ * @route   GET /api/v1/bookings/:id/disruption
+ * @desc    Get rebooking offer after a schedule cancellation or delay
+ * @access  Private
+ */
+router.get('/:id/disruption', getDisruptionHandler);
+
+/**
+ * @route   POST /api/v1/bookings/:id/disruption/rebook
+ * @desc    Rebook onto an offered alternative schedule
+ * @access  Private
+ */
+router.post('/:id/disruption/rebook', rebookDisruptionValidation, rebookDisruptionHandler);
+
+/**
+ * @route   POST /api/v1/bookings/:id/disruption/refund
+ * @desc    Decline rebooking and take a full refund
+ * @access  Private
+ */
+router.post('/:id/disruption/refund', refundDisruptionHandler);
+
 /**
  * @route   GET /api/v1/bookings/:id/ticket
  * @desc    Download booking ticket
@@ -115,4 +215,18 @@ router.get('/:id/cancellation-details', getCancellationDetails);
  */
 router.get('/:id/ticket', downloadTicket);
 
+/**
+ * @route   GET /api/v1/bookings/:id/invoice
+ * @desc    Download GST invoice or credit note PDF
+ * @access  Private
+ */
+router.get('/:id/invoice', downloadInvoice);
+
+/**
+ * @route   GET /api/v1/bookings/:id/invoices
+ * @desc    List invoices and credit notes
+ * @access  Private
+ */
+router.get('/:id/invoices', getBookingInvoices);
+
 export default router;
\ No newline at end of file
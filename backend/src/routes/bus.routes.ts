@@ -4,17 +4,39 @@
  */
 
 import { Router } from 'express';
+import { body } from 'express-validator';
 import {
   searchBuses,
+  getBusFareCalendarHandler,
   getScheduleDetails,
   getSeatLayout,
   createRoute,
   createSchedule,
+  generateSchedules,
+  updateScheduleStatus,
 } from '../controllers/bus.controller';
-import { authenticate, authorizeAdmin } from '../middleware/auth.middleware';
+import { authenticate, authorizeAdmin, authorizePartner } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// ============================================================================
+// VALIDATION MIDDLEWARE
+// ============================================================================
+
+const updateScheduleStatusValidation = [
+  body('status')
+    .isIn(['CANCELLED', 'DELAYED'])
+    .withMessage('Status must be CANCELLED or DELAYED'),
+  body('delayMinutes')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Delay must be a positive number of minutes'),
+  body('reason')
+    .trim()
+    .isLength({ min: 5 })
+    .withMessage('Reason is required (min 5 characters)'),
+];
+
 // ============================================================================
 // PUBLIC ROUTES
 // ============================================================================
@@ -26,6 +48,13 @@ const router = Router();
  */
 router.get('/search', searchBuses);
 
+/**
+ * @route   GET /api/v1/buses/fare-calendar
+ * @desc    Lowest fare per day for a month
+ * @access  Public
+ */
+router.get('/fare-calendar', getBusFareCalendarHandler);
+
 /**
  * @route   GET /api/v1/buses/schedules/:id
  * @desc    Get bus schedule details
@@ -58,4 +87,28 @@ router.post('/routes', authenticate, authorizeAdmin, createRoute);
  */
 router.post('/schedules', authenticate, authorizeAdmin, createSchedule);
 
+/**
+ * @route   POST /api/v1/buses/schedules/generate
+ * @desc    Generate schedules on operating days for a date range (supports dry run)
+ * @access  Admin
+ */
+router.post('/schedules/generate', authenticate, authorizeAdmin, generateSchedules);
+
+// ============================================================================
+// PARTNER ROUTES
+// ============================================================================
+
+/**
+ * @route   PATCH /api/v1/buses/schedules/:id/status
+ * @desc    Cancel or delay a schedule (rebooking offers / refunds for affected bookings)
+ * @access  Partner (own inventory), Admin
+ */
+router.patch(
+  '/schedules/:id/status',
+  authenticate,
+  authorizePartner,
+  updateScheduleStatusValidation,
+  updateScheduleStatus
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * FARE LOCK ROUTES
+ * Routes for paid fare locks
+ */
+
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  createFareLockHandler,
+  getUserFareLocks,
+  getFareLockById,
+  cancelFareLockHandler,
+} from '../controllers/fareLock.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION MIDDLEWARE
+// ============================================================================
+
+const createFareLockValidation = [
+  body('category')
+    .isIn(['BUS', 'AIRLINE'])
+    .withMessage('Category must be BUS or AIRLINE'),
+  body('durationHours')
+    .isInt({ min: 24, max: 72 })
+    .withMessage('Fares can be locked for 24 to 72 hours'),
+  body('seatNumbers')
+    .optional()
+    .isArray()
+    .withMessage('Seat numbers must be an array'),
+  body('seatCount')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Seat count must be at least 1'),
+];
+
+// ============================================================================
+// PROTECTED ROUTES
+// ============================================================================
+
+router.use(authenticate);
+
+/**
+ * @route   POST /api/v1/fare-locks
+ * @desc    Lock the current fare and hold seats
+ * @access  Private
+ */
+router.post('/', createFareLockValidation, createFareLockHandler);
+
+/**
+ * @route   GET /api/v1/fare-locks
+ * @desc    Get user's fare locks
+ * @access  Private
+ */
+router.get('/', getUserFareLocks);
+
+/**
+ * @route   GET /api/v1/fare-locks/:id
+ * @desc    Get fare lock by ID
+ * @access  Private
+ */
+router.get('/:id', getFareLockById);
+
+/**
+ * @route   POST /api/v1/fare-locks/:id/cancel
+ * @desc    Cancel fare lock and release seats
+ * @access  Private
+ */
+router.post('/:id/cancel', cancelFareLockHandler);
+
+export default router;
\ No newline at end of file
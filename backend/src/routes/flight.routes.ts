@@ -4,18 +4,42 @@
  */
 
 import { Router } from 'express';
+import { body } from 'express-validator';
 import {
   searchFlights,
+  searchConnectingFlights,
+  getFlightFareCalendarHandler,
   getScheduleDetails,
   getFareRules,
   createFlight,
   createSchedule,
+  generateSchedules,
+  updateScheduleStatus,
   createFareRules,
+  upsertAirport,
 } from '../controllers/flight.controller';
-import { authenticate, authorizeAdmin } from '../middleware/auth.middleware';
+import { authenticate, authorizeAdmin, authorizePartner } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// ============================================================================
+// VALIDATION MIDDLEWARE
+// ============================================================================
+
+const updateScheduleStatusValidation = [
+  body('status')
+    .isIn(['CANCELLED', 'DELAYED'])
+    .withMessage('Status must be CANCELLED or DELAYED'),
+  body('delayMinutes')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Delay must be a positive number of minutes'),
+  body('reason')
+    .trim()
+    .isLength({ min: 5 })
+    .withMessage('Reason is required (min 5 characters)'),
+];
+
 // ============================================================================
 // PUBLIC ROUTES
 // ============================================================================
@@ -27,6 +51,20 @@ const router = Router();
  */
 router.get('/search', searchFlights);
 
+/**
+ * @route   GET /api/v1/flights/search/connections
+ * @desc    Search connecting flights (1-2 stops)
+ * @access  Public
+ */
+router.get('/search/connections', searchConnectingFlights);
+
+/**
+ * @route   GET /api/v1/flights/fare-calendar
+ * @desc    Lowest fare per day for a month
+ * @access  Public
+ */
+router.get('/fare-calendar', getFlightFareCalendarHandler);
+
 /**
  * @route   GET /api/v1/flights/schedules/:id
  * @desc    Get flight schedule details
@@ -59,6 +97,13 @@ router.post('/', authenticate, authorizeAdmin, createFlight);
  */
 router.post('/schedules', authenticate, authorizeAdmin, createSchedule);
 
+/**
+ * @route   POST /api/v1/flights/schedules/generate
+ * @desc    Generate schedules on operating days for a date range (supports dry run)
+ * @access  Admin
+ */
+router.post('/schedules/generate', authenticate, authorizeAdmin, generateSchedules);
+
 /**
  * @route   POST /api/v1/flights/fare-rules
  * @desc    Create fare rules
@@ -66,4 +111,28 @@ router.post('/schedules', authenticate, authorizeAdmin, createSchedule);
  */
 router.post('/fare-rules', authenticate, authorizeAdmin, createFareRules);
 
+/**
+ * @route   PUT /api/v1/flights/airports/:code
+ * @desc    Create or update airport connection settings
+ * @access  Admin
+ */
+router.put('/airports/:code', authenticate, authorizeAdmin, upsertAirport);
+
+// ============================================================================
+// PARTNER ROUTES
+// ============================================================================
+
+/**
+ * @route   PATCH /api/v1/flights/schedules/:id/status
+ * @desc    Cancel or delay a schedule (rebooking offers / refunds for affected bookings)
+ * @access  Partner (own inventory), Admin
+ */
+router.patch(
+  '/schedules/:id/status',
+  authenticate,
+  authorizePartner,
+  updateScheduleStatusValidation,
+  updateScheduleStatus
+);
+
 export default router;
\ No newline at end of file
@@ -7,10 +7,15 @@ import { Router } from 'express';
 import {
   createOrder,
   verifyPayment,
+  createFareLockOrder,
+  verifyFareLockPayment,
+  createRescheduleOrder,
+  verifyReschedulePayment,
   getWallet,
   addMoneyToWallet,
   verifyWalletTopup,
   handleWebhook,
+  mockCheckout,
 } from '../controllers/payment.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -22,7 +27,7 @@ const router = Router();
 
 /**
  * @route   POST /api/v1/payments/webhook
- * @desc    Handle Razorpay webhooks
+ * @desc    Handle payment gateway webhooks
  * @access  Public (Webhook)
  */
 router.post('/webhook', handleWebhook);
@@ -47,6 +52,34 @@ router.post('/create-order', createOrder);
  */
 router.post('/verify', verifyPayment);
 
+/**
+ * @route   POST /api/v1/payments/fare-lock/create-order
+ * @desc    Pay fare lock fee by wallet or create Razorpay order
+ * @access  Private
+ */
+router.post('/fare-lock/create-order', createFareLockOrder);
+
+/**
+ * @route   POST /api/v1/payments/fare-lock/verify
+ * @desc    Verify Razorpay payment for fare lock fee
+ * @access  Private
+ */
+router.post('/fare-lock/verify', verifyFareLockPayment);
+
+/**
+ * @route   POST /api/v1/payments/reschedule/create-order
+ * @desc    Pay reschedule amount due by wallet or create Razorpay order
+ * @access  Private
+ */
+router.post('/reschedule/create-order', createRescheduleOrder);
+
+/**
+ * @route   POST /api/v1/payments/reschedule/verify
+ * @desc    Verify Razorpay payment for a reschedule
+ * @access  Private
+ */
+router.post('/reschedule/verify', verifyReschedulePayment);
+
 /**
  * @route   GET /api/v1/payments/wallet
  * @desc    Get wallet balance
@@ -68,4 +101,11 @@ router.post('/wallet/add', addMoneyToWallet);
  */
 router.post('/wallet/verify', verifyWalletTopup);
 
+/**
+ * @route   POST /api/v1/payments/mock/checkout
+ * @desc    Pay an order through the mock provider (PAYMENT_PROVIDER=mock only)
+ * @access  Private
+ */
+router.post('/mock/checkout', mockCheckout);
+
 export default router;
\ No newline at end of file
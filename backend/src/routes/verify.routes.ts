@@ -0,0 +1,59 @@
+/**
+ * VERIFY ROUTES
+ * Routes for ticket verification by operators and hotel front desks
+ */
+
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { verifyTicketHandler, recordNoShowHandler, getPublicKey } from '../controllers/verify.controller';
+import { authenticate, authorizePartner } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION MIDDLEWARE
+// ============================================================================
+
+const verifyTicketValidation = [
+  body('token')
+    .trim()
+    .notEmpty()
+    .withMessage('Ticket token is required'),
+  body('passengerIds')
+    .optional()
+    .isArray()
+    .withMessage('Passenger IDs must be an array'),
+];
+
+const recordNoShowValidation = [
+  body('bookingId')
+    .notEmpty()
+    .withMessage('Booking ID is required'),
+];
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/v1/verify/public-key
+ * @desc    Get public key for offline ticket verification
+ * @access  Public
+ */
+router.get('/public-key', getPublicKey);
+
+/**
+ * @route   POST /api/v1/verify/ticket
+ * @desc    Verify ticket and record boarding / check-in
+ * @access  Partner
+ */
+router.post('/ticket', authenticate, authorizePartner, verifyTicketValidation, verifyTicketHandler);
+
+/**
+ * @route   POST /api/v1/verify/no-show
+ * @desc    Record no-show for passengers who did not turn up
+ * @access  Partner
+ */
+router.post('/no-show', authenticate, authorizePartner, recordNoShowValidation, recordNoShowHandler);
+
+export default router;
\ No newline at end of file
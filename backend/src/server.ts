@@ -27,6 +27,8 @@ import bookingRoutes from './routes/booking.routes';
 import paymentRoutes from './routes/payment.routes';
 import adminRoutes from './routes/admin.routes';
 import reportRoutes from './routes/report.routes';
+import verifyRoutes from './routes/verify.routes';
+import fareLockRoutes from './routes/fareLock.routes';
 
 // Import middleware
 import { errorHandler } from './middleware/error.middleware';
@@ -34,6 +36,11 @@ import { requestLogger } from './middleware/logging.middleware';
 
 // Import services
 import { startHoldExpiryCron } from './services/holdQuota.service';
+import { startScheduleGeneratorCron } from './services/scheduleGenerator.service';
+import { startRefundCron } from './services/refund.service';
+import { startDisruptionRefundCron } from './services/disruption.service';
+import { startWalletAuditCron } from './services/wallet.service';
+import { startPaymentReconciliationCron } from './services/paymentReconciliation.service';
 import { logger } from './utils/logger';
 
 // Initialize Express app
@@ -143,6 +150,8 @@ app.use(`${API_PREFIX}/bookings`, bookingRoutes);
 app.use(`${API_PREFIX}/payments`, paymentRoutes);
 app.use(`${API_PREFIX}/admin`, adminRoutes);
 app.use(`${API_PREFIX}/reports`, reportRoutes);
+app.use(`${API_PREFIX}/verify`, verifyRoutes);
+app.use(`${API_PREFIX}/fare-locks`, fareLockRoutes);
 
 // ============================================================================
 // ERROR HANDLING
@@ -175,6 +184,36 @@ const startServer = async () => {
       logger.info('✅ Hold quota cron job started');
     }
 
+    // Start rolling schedule generation
+    if (process.env.ENABLE_SCHEDULE_GENERATOR === 'true') {
+      startScheduleGeneratorCron();
+      logger.info('✅ Rolling schedule cron job started');
+    }
+
+    // Start refund payouts and retries
+    if (process.env.ENABLE_REFUND_PROCESSING === 'true') {
+      startRefundCron();
+      logger.info('✅ Refund cron job started');
+    }
+
+    // Start nightly wallet ledger audit
+    if (process.env.ENABLE_WALLET_AUDIT === 'true') {
+      startWalletAuditCron();
+      logger.info('✅ Wallet audit cron job started');
+    }
+
+    // Start automatic refunds of unanswered disruption offers
+    if (process.env.ENABLE_DISRUPTION_REFUNDS === 'true') {
+      startDisruptionRefundCron();
+      logger.info('✅ Disruption refund cron job started');
+    }
+
+    // Start pending payment reconciliation and daily settlement report
+    if (process.env.ENABLE_PAYMENT_RECONCILIATION === 'true') {
+      startPaymentReconciliationCron();
+      logger.info('✅ Payment reconciliation cron job started');
+    }
+
     // Start server
     app.listen(PORT, () => {
       logger.info(`🚀 Server running on port ${PORT}`);
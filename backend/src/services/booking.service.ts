@@ -7,7 +7,7 @@
  * - Calculate pricing with taxes and fees
  * - Apply add-ons
  * - Manage booking lifecycle
- * - Handle cancellations and refunds
+ * - Handle cancellations and refunds (policy slabs by hours before travel)
  */
 
 import { prisma } from '../server';
@@ -17,23 +17,45 @@ import {
   PaymentStatus,
   HoldStatus,
   CabinClass,
+  TripType,
+  AmendmentType,
+  BookingAmendment,
+  Booking,
+  Prisma,
 } from '@prisma/client';
 import {
   CreateBookingRequest,
+  PassengerInfo,
   BookingResponse,
   CancellationRequest,
   CancellationResponse,
 } from '../types';
-import { holdSeats, releaseHold, convertHoldToBooking } from './holdQuota.service';
+import {
+  holdSeats,
+  holdRoom,
+  releaseHold,
+  convertHoldToBooking,
+  bookBusSeatsWithoutHold,
+  bookFlightSeatsWithoutHold,
+  bookRoomsWithoutHold,
+  getCabinFields,
+  getCabinAvailableSeats,
+} from './holdQuota.service';
+import { validateCoupon, redeemCoupon, reverseCouponRedemption } from './coupon.service';
+import { calculateCharges, getBusChargeSubType, ChargeLine } from './chargeRule.service';
+import { loadPricingEnvironment, quoteBusFare, quoteFlightFare, FareQuote } from './dynamicPricing.service';
+import { getRedeemableFareLock, redeemFareLock } from './fareLock.service';
+import { issueTaxInvoice, issueCreditNote } from './invoice.service';
+import { evaluatePolicy, getCancellationPolicy, findCancellationSlab } from './policy.service';
+import { ticketBookingInclude, getTravelStart } from './ticket.service';
+import { getBookingPartnerId } from './verification.service';
+import { holdWalletFunds, payBookingFromWallet, releaseBookingWalletHold, WalletFundsError } from './wallet.service';
+import { splitRefundByTender } from './refund.service';
+import { combineDateAndTime } from '../utils/date';
 import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
 import { v4 as uuidv4 } from 'uuid';
-
-// ============================================================================
-// CONFIGURATION
-// ============================================================================
-
-const CONVENIENCE_FEE_PERCENTAGE = 2; // 2% convenience fee
-const GST_PERCENTAGE = 5; // 5% GST on convenience fee
+import { randomBytes } from 'crypto';
 
 // ============================================================================
 // BOOKING NUMBER GENERATION
@@ -51,6 +73,17 @@ export const generateBookingNumber = (category: BookingCategory): string => {
   return `${prefix}-${catCode}-${date}-${random}`;
 };
 
+/**
+ * Generate a 6-character airline PNR
+ * Excludes ambiguous characters (0/O, 1/I)
+ */
+export const generatePnr = (): string => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  return Array.from(randomBytes(6))
+    .map((byte) => alphabet[byte % alphabet.length])
+    .join('');
+};
+
 // ============================================================================
 // PRICING CALCULATIONS
 // ============================================================================
@@ -60,22 +93,41 @@ export interface PricingBreakdown {
   taxAmount: number;
   convenienceFee: number;
   gstOnConvenience: number;
+  charges: ChargeLine[];
   discountAmount: number;
   addOnAmount: number;
   totalAmount: number;
+  couponId?: string;
+  couponCode?: string;
+}
+
+export interface PricingContext {
+  category: BookingCategory;
+  subType?: string | null; // Bus AC/NON_AC, flight cabin class
+  userId?: string;
+  couponCode?: string;
 }
 
 /**
  * Calculate booking pricing
+ * Fees and taxes come from the charge rule table; throws if a coupon is
+ * supplied but cannot be applied.
+ * @param baseFare - Fare per unit, or one fare per unit (hotel nightly rates)
+ * @param units - Passengers for bus/flight, nights for hotels
  */
-export const calculatePricing = (
-  baseFare: number,
-  passengerCount: number,
+export const calculatePricing = async (
+  baseFare: number | number[],
+  units: number,
   addOns: Array<{ price: number; quantity: number }> = [],
-  discountCode?: string
-): PricingBreakdown => {
+  context: PricingContext,
+  db: Prisma.TransactionClient = prisma
+): Promise<PricingBreakdown> => {
   // Base amount
-  const baseAmount = baseFare * passengerCount;
+  const unitFares = Array.isArray(baseFare) ? baseFare : Array<number>(units).fill(baseFare);
+  const baseAmount = Math.round(unitFares.reduce((sum, fare) => sum + fare, 0) * 100) / 100;
+
+  // Fare band is picked on the average unit fare (e.g. average nightly rate)
+  const unitAmount = unitFares.length > 0 ? baseAmount / unitFares.length : 0;
 
   // Calculate add-ons
   const addOnAmount = addOns.reduce(
@@ -83,20 +135,41 @@ export const calculatePricing = (
     0
   );
 
-  // Convenience fee (2% of base amount)
-  const convenienceFee = (baseAmount * CONVENIENCE_FEE_PERCENTAGE) / 100;
-
-  // GST on convenience fee (5%)
-  const gstOnConvenience = (convenienceFee * GST_PERCENTAGE) / 100;
+  // Fees and taxes by category, sub-type and fare band
+  const chargeSummary = await calculateCharges(
+    context.category,
+    context.subType ?? null,
+    unitAmount,
+    baseAmount,
+    db
+  );
 
-  // Tax amount (GST on convenience fee)
-  const taxAmount = gstOnConvenience;
+  const convenienceFee = chargeSummary.feeAmount;
+  const gstOnConvenience = chargeSummary.taxOnFees;
+  const taxAmount = chargeSummary.taxAmount;
 
-  // Discount (if applicable)
+  // Discount (coupon applies to fare + add-ons, not to fees and taxes)
   let discountAmount = 0;
-  if (discountCode) {
-    // TODO: Implement coupon/discount logic
-    discountAmount = 0;
+  let couponId: string | undefined;
+  let couponCode: string | undefined;
+  if (context.couponCode && context.userId) {
+    const result = await validateCoupon(
+      context.couponCode,
+      {
+        userId: context.userId,
+        category: context.category,
+        orderAmount: baseAmount + addOnAmount,
+      },
+      db
+    );
+
+    if (!result.valid) {
+      throw new Error(result.message);
+    }
+
+    discountAmount = result.discountAmount;
+    couponId = result.couponId;
+    couponCode = result.code;
   }
 
   // Total amount
@@ -112,16 +185,79 @@ export const calculatePricing = (
     taxAmount,
     convenienceFee,
     gstOnConvenience,
+    charges: chargeSummary.charges,
     discountAmount,
     addOnAmount,
     totalAmount: Math.round(totalAmount * 100) / 100,
+    couponId,
+    couponCode,
   };
 };
 
+/**
+ * Record coupon redemption for a newly created booking
+ */
+const applyCouponRedemption = async (
+  tx: Prisma.TransactionClient,
+  pricing: PricingBreakdown,
+  userId: string,
+  bookingId: string
+): Promise<void> => {
+  if (!pricing.couponId) {
+    return;
+  }
+
+  await redeemCoupon(tx, {
+    couponId: pricing.couponId,
+    userId,
+    bookingId,
+    discountAmount: pricing.discountAmount,
+  });
+};
+
 // ============================================================================
 // BUS BOOKING
 // ============================================================================
 
+/**
+ * Seat passengers on the seats held by a fare lock
+ * Passengers who picked a seat keep it; the rest get the remaining locked seats.
+ */
+const assignLockedSeats = (passengers: PassengerInfo[], lockedSeats: string[]): PassengerInfo[] => {
+  for (const p of passengers) {
+    if (p.seatNumber && !lockedSeats.includes(p.seatNumber)) {
+      throw new Error(`Seat ${p.seatNumber} is not part of the fare lock`);
+    }
+  }
+
+  const unassigned = lockedSeats.filter((seat) => !passengers.some((p) => p.seatNumber === seat));
+  return passengers.map((p) => (p.seatNumber ? p : { ...p, seatNumber: unassigned.shift() }));
+};
+
+/**
+ * Reserve the booking total in the user's wallet (holdBalance) for as long
+ * as the inventory is held for payment
+ */
+const reserveWalletForBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: Booking,
+  context: { bookingCategory: BookingCategory; partnerId?: string | null },
+  reservation: { amount: number; idempotencyKey?: string } = { amount: Number(booking.totalAmount) }
+): Promise<void> => {
+  if (reservation.amount <= 0) {
+    return;
+  }
+
+  const bookingPolicy = await evaluatePolicy('BOOKING', context, tx);
+
+  await holdWalletFunds(tx, booking.userId, reservation.amount, {
+    bookingId: booking.id,
+    bookingNumber: booking.bookingNumber,
+    expiresAt: new Date(Date.now() + bookingPolicy.rules.paymentHoldMinutes * 60 * 1000),
+    idempotencyKey: reservation.idempotencyKey,
+  });
+};
+
 /**
  * Create bus booking
  */
@@ -129,7 +265,7 @@ export const createBusBooking = async (
   userId: string,
   data: CreateBookingRequest
 ): Promise<BookingResponse> => {
-  const { busScheduleId, passengers, addOns, couponCode } = data;
+  const { busScheduleId, addOns, couponCode, fareLockId } = data;
 
   if (!busScheduleId) {
     throw new Error('Bus schedule ID is required');
@@ -140,7 +276,7 @@ export const createBusBooking = async (
     const schedule = await tx.busSchedule.findUnique({
       where: { id: busScheduleId },
       include: {
-        route: true,
+        route: { include: { partner: true } },
       },
     });
 
@@ -148,29 +284,54 @@ export const createBusBooking = async (
       throw new Error('Bus schedule not available');
     }
 
-    if (schedule.availableSeats < passengers.length) {
-      throw new Error('Not enough seats available');
-    }
-
-    // Check seat availability
-    const seatStatus = schedule.seatStatus as Record<string, string>;
+    // A fare lock already holds its seats at the locked fare
+    const fareLock = fareLockId
+      ? await getRedeemableFareLock(tx, userId, fareLockId, {
+          category: BookingCategory.BUS,
+          scheduleId: busScheduleId,
+          passengers: data.passengers.length,
+        })
+      : null;
+    const passengers = fareLock ? assignLockedSeats(data.passengers, fareLock.seatNumbers) : data.passengers;
     const requestedSeats = passengers.map((p) => p.seatNumber).filter(Boolean) as string[];
 
-    for (const seat of requestedSeats) {
-      if (seat && seatStatus[seat] !== 'AVAILABLE') {
-        throw new Error(`Seat ${seat} is not available`);
+    if (!fareLock) {
+      if (schedule.availableSeats < passengers.length) {
+        throw new Error('Not enough seats available');
+      }
+
+      // Check seat availability
+      const seatStatus = schedule.seatStatus as Record<string, string>;
+      for (const seat of requestedSeats) {
+        if (seat && seatStatus[seat] !== 'AVAILABLE') {
+          throw new Error(`Seat ${seat} is not available`);
+        }
       }
     }
 
+    // Current sell fare for the schedule, or the fare frozen by the lock
+    const fareQuote = fareLock
+      ? (fareLock.fareSnapshot as unknown as FareQuote)
+      : quoteBusFare(await loadPricingEnvironment(BookingCategory.BUS, tx), schedule);
+
     // Calculate pricing
     const addOnItems = addOns?.map((a) => ({ price: a.price, quantity: a.quantity })) || [];
-    const pricing = calculatePricing(
-      Number(schedule.baseFare),
+    const pricing = await calculatePricing(
+      fareQuote.fare,
       passengers.length,
       addOnItems,
-      couponCode
+      {
+        category: BookingCategory.BUS,
+        subType: getBusChargeSubType(schedule.route.busType),
+        userId,
+        couponCode,
+      },
+      tx
     );
 
+    // Lock fee already paid is credited against the booking
+    const fareLockCredit = fareLock ? Math.min(Number(fareLock.lockFee), pricing.totalAmount) : 0;
+
     // Generate booking number
     const bookingNumber = generateBookingNumber(BookingCategory.BUS);
 
@@ -191,11 +352,16 @@ export const createBusBooking = async (
         convenienceFee: pricing.convenienceFee,
         discountAmount: pricing.discountAmount,
         addOnAmount: pricing.addOnAmount,
-        totalAmount: pricing.totalAmount,
+        totalAmount: pricing.totalAmount - fareLockCredit,
+        fareLockCredit,
+        charges: pricing.charges as unknown as Prisma.InputJsonArray,
+        fareSnapshot: [{ scheduleId: busScheduleId, ...fareQuote }] as unknown as Prisma.InputJsonArray,
         addOns: addOns ? JSON.stringify(addOns) : null,
       },
     });
 
+    await applyCouponRedemption(tx, pricing, userId, booking.id);
+
     // Create passenger records
     await tx.bookingPassenger.createMany({
       data: passengers.map((p) => ({
@@ -213,21 +379,39 @@ export const createBusBooking = async (
       })),
     });
 
-    // Hold seats temporarily (10 minutes for payment)
-    if (requestedSeats.length > 0) {
-      const holdResult = await holdSeats({
-        scheduleId: busScheduleId,
-        seatNumbers: requestedSeats,
-        heldBy: userId,
-        category: 'BUS',
-        holdExpiryMinutes: 10, // 10 minutes for payment
-      });
+    // Hold seats temporarily for payment (booking policy)
+    const bookingPolicy = await evaluatePolicy(
+      'BOOKING',
+      { bookingCategory: BookingCategory.BUS, partnerId: schedule.route.partnerId },
+      tx
+    );
+
+    if (fareLock) {
+      // The lock's seat hold carries over to the booking
+      const holdExpiry = new Date(Date.now() + bookingPolicy.rules.paymentHoldMinutes * 60 * 1000);
+      await redeemFareLock(tx, fareLock, booking.id, holdExpiry);
+    } else if (requestedSeats.length > 0) {
+      const holdResult = await holdSeats(
+        {
+          scheduleId: busScheduleId,
+          seatNumbers: requestedSeats,
+          heldBy: userId,
+          bookingId: booking.id,
+          category: 'BUS',
+          holdExpiryMinutes: bookingPolicy.rules.paymentHoldMinutes,
+        },
+        tx
+      );
 
       if (!holdResult.success) {
         throw new Error(holdResult.message);
       }
     }
 
+    if (data.payWithWallet) {
+      await reserveWalletForBooking(tx, booking, { bookingCategory: BookingCategory.BUS, partnerId: schedule.route.partnerId });
+    }
+
     logger.info(`Bus booking created: ${bookingNumber}`);
 
     return {
@@ -253,60 +437,113 @@ export const createBusBooking = async (
 
 /**
  * Create flight booking
+ * One-way bookings use flightScheduleId; round-trip and multi-city bookings
+ * pass every leg in `segments` and are paid and cancelled as one unit.
  */
 export const createFlightBooking = async (
   userId: string,
   data: CreateBookingRequest
 ): Promise<BookingResponse> => {
-  const { flightScheduleId, cabinClass, passengers, addOns, couponCode } = data;
+  const { flightScheduleId, cabinClass, passengers, addOns, couponCode, fareLockId } = data;
+
+  const segmentRequests =
+    data.segments && data.segments.length > 0
+      ? data.segments
+      : flightScheduleId
+        ? [{ flightScheduleId, cabinClass }]
+        : [];
 
-  if (!flightScheduleId) {
+  if (segmentRequests.length === 0) {
     throw new Error('Flight schedule ID is required');
   }
 
+  // Itineraries can span airlines, so the segment limit is not partner-specific
+  const { rules: itineraryRules } = await evaluatePolicy('BOOKING', { bookingCategory: BookingCategory.AIRLINE });
+  if (segmentRequests.length > itineraryRules.maxFlightSegments) {
+    throw new Error(`An itinerary can have at most ${itineraryRules.maxFlightSegments} flights`);
+  }
+
+  const tripType =
+    data.tripType || (segmentRequests.length === 1 ? TripType.ONE_WAY : TripType.MULTI_CITY);
+
+  // Seats can only be picked for single-flight bookings (fare locks hold a cabin, not seats)
+  const isItinerary = segmentRequests.length > 1;
+
+  if (fareLockId && isItinerary) {
+    throw new Error('A fare lock can only be used on a single-flight booking');
+  }
+  const canPickSeats = !isItinerary && !fareLockId;
+  const seatNumbers = canPickSeats ? (passengers.map((p) => p.seatNumber).filter(Boolean) as string[]) : [];
+
   return await prisma.$transaction(async (tx) => {
-    // Get schedule with flight details
-    const schedule = await tx.flightSchedule.findUnique({
-      where: { id: flightScheduleId },
-      include: {
-        flight: true,
-        fareRules: true,
-      },
-    });
+    const pricingEnv = await loadPricingEnvironment(BookingCategory.AIRLINE, tx);
+
+    // A fare lock already holds its cabin seats at the locked fare
+    const fareLock = fareLockId
+      ? await getRedeemableFareLock(tx, userId, fareLockId, {
+          category: BookingCategory.AIRLINE,
+          scheduleId: segmentRequests[0].flightScheduleId,
+          cabinClass: segmentRequests[0].cabinClass || cabinClass,
+          passengers: passengers.length,
+        })
+      : null;
+
+    // Get every schedule with flight details
+    const segments = [];
+    for (const [index, request] of segmentRequests.entries()) {
+      const schedule = await tx.flightSchedule.findUnique({
+        where: { id: request.flightScheduleId },
+        include: {
+          flight: { include: { partner: true } },
+          fareRules: true,
+        },
+      });
 
-    if (!schedule || schedule.status !== 'ACTIVE') {
-      throw new Error('Flight schedule not available');
-    }
+      if (!schedule || schedule.status !== 'ACTIVE') {
+        throw new Error('Flight schedule not available');
+      }
 
-    // Determine fare based on cabin class
-    let baseFare: number;
-    let availableSeats: number;
+      const segmentCabin = ((request.cabinClass || cabinClass) as CabinClass) || CabinClass.ECONOMY;
 
-    switch (cabinClass) {
-      case 'PREMIUM_ECONOMY':
-        baseFare = Number(schedule.premiumFare);
-        availableSeats = schedule.premiumSeats - schedule.premiumBooked;
-        break;
-      case 'BUSINESS':
-        baseFare = Number(schedule.businessFare);
-        availableSeats = schedule.businessSeats - schedule.businessBooked;
-        break;
-      case 'FIRST':
-        baseFare = Number(schedule.firstFare);
-        availableSeats = schedule.firstSeats - schedule.firstBooked;
-        break;
-      default:
-        baseFare = Number(schedule.economyFare);
-        availableSeats = schedule.economySeats - schedule.economyBooked;
-    }
+      // Determine the current sell fare for the cabin class, or the fare frozen by the lock
+      const fareQuote = fareLock
+        ? (fareLock.fareSnapshot as unknown as FareQuote)
+        : quoteFlightFare(pricingEnv, schedule, segmentCabin);
+      const fare = fareQuote.fare;
+      const availableSeats = fareLock ? fareLock.seatCount : getCabinAvailableSeats(schedule, segmentCabin);
+
+      if (!fare || availableSeats < passengers.length) {
+        throw new Error('Not enough seats available in selected cabin class');
+      }
 
-    if (!baseFare || availableSeats < passengers.length) {
-      throw new Error('Not enough seats available in selected cabin class');
+      const departure = combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime);
+      const arrival = new Date(departure.getTime() + schedule.flight.durationMinutes * 60 * 1000);
+      const previous = segments[segments.length - 1];
+
+      if (previous && departure <= previous.arrival) {
+        throw new Error(`Flight ${index + 1} departs before flight ${index} arrives`);
+      }
+
+      segments.push({ schedule, cabinClass: segmentCabin, fare, fareQuote, departure, arrival });
     }
 
-    // Calculate pricing
+    // Calculate pricing (one fare per passenger per leg)
     const addOnItems = addOns?.map((a) => ({ price: a.price, quantity: a.quantity })) || [];
-    const pricing = calculatePricing(baseFare, passengers.length, addOnItems, couponCode);
+    const pricing = await calculatePricing(
+      segments.flatMap((segment) => passengers.map(() => segment.fare)),
+      segments.length * passengers.length,
+      addOnItems,
+      {
+        category: BookingCategory.AIRLINE,
+        subType: segments[0].cabinClass,
+        userId,
+        couponCode,
+      },
+      tx
+    );
+
+    // Lock fee already paid is credited against the booking
+    const fareLockCredit = fareLock ? Math.min(Number(fareLock.lockFee), pricing.totalAmount) : 0;
 
     // Generate booking number
     const bookingNumber = generateBookingNumber(BookingCategory.AIRLINE);
@@ -317,8 +554,9 @@ export const createFlightBooking = async (
         bookingNumber,
         userId,
         category: BookingCategory.AIRLINE,
-        flightScheduleId,
-        cabinClass: cabinClass || 'ECONOMY',
+        flightScheduleId: segments[0].schedule.id,
+        cabinClass: segments[0].cabinClass,
+        tripType,
         status: BookingStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         primaryPassengerName: `${passengers[0].firstName} ${passengers[0].lastName}`,
@@ -329,11 +567,31 @@ export const createFlightBooking = async (
         convenienceFee: pricing.convenienceFee,
         discountAmount: pricing.discountAmount,
         addOnAmount: pricing.addOnAmount,
-        totalAmount: pricing.totalAmount,
+        totalAmount: pricing.totalAmount - fareLockCredit,
+        fareLockCredit,
+        charges: pricing.charges as unknown as Prisma.InputJsonArray,
+        fareSnapshot: segments.map((segment) => ({
+          scheduleId: segment.schedule.id,
+          cabinClass: segment.cabinClass,
+          ...segment.fareQuote,
+        })) as unknown as Prisma.InputJsonArray,
         addOns: addOns ? JSON.stringify(addOns) : null,
       },
     });
 
+    await applyCouponRedemption(tx, pricing, userId, booking.id);
+
+    // Record each leg of the itinerary
+    await tx.bookingFlightSegment.createMany({
+      data: segments.map((segment, index) => ({
+        bookingId: booking.id,
+        flightScheduleId: segment.schedule.id,
+        sequence: index + 1,
+        cabinClass: segment.cabinClass,
+        fare: segment.fare,
+      })),
+    });
+
     // Create passenger records
     await tx.bookingPassenger.createMany({
       data: passengers.map((p) => ({
@@ -344,7 +602,7 @@ export const createFlightBooking = async (
         gender: p.gender,
         phone: p.phone,
         email: p.email,
-        seatNumber: p.seatNumber,
+        seatNumber: canPickSeats ? p.seatNumber : undefined,
         seatPreference: p.seatPreference,
         mealPreference: p.mealPreference,
         specialAssistance: p.specialAssistance,
@@ -353,16 +611,45 @@ export const createFlightBooking = async (
       })),
     });
 
-    // Update seat availability
-    const cabinClassField = `${cabinClass?.toLowerCase() || 'economy'}Booked`;
-    await tx.flightSchedule.update({
-      where: { id: flightScheduleId },
-      data: {
-        [cabinClassField]: { increment: passengers.length },
-      },
-    });
+    // Hold seats on every leg until payment (booking policy of the first leg's airline)
+    const bookingPolicy = await evaluatePolicy(
+      'BOOKING',
+      { bookingCategory: BookingCategory.AIRLINE, partnerId: segments[0].schedule.flight.partnerId },
+      tx
+    );
+
+    if (fareLock) {
+      // The lock's cabin hold carries over to the booking
+      const holdExpiry = new Date(Date.now() + bookingPolicy.rules.paymentHoldMinutes * 60 * 1000);
+      await redeemFareLock(tx, fareLock, booking.id, holdExpiry);
+    } else {
+      // Held inside the booking transaction: a failed leg rolls back the whole itinerary
+      for (const segment of segments) {
+        const holdResult = await holdSeats(
+          {
+            scheduleId: segment.schedule.id,
+            seatNumbers,
+            seatCount: passengers.length,
+            cabinClass: segment.cabinClass,
+            heldBy: userId,
+            bookingId: booking.id,
+            category: 'FLIGHT',
+            holdExpiryMinutes: bookingPolicy.rules.paymentHoldMinutes,
+          },
+          tx
+        );
+
+        if (!holdResult.success) {
+          throw new Error(holdResult.message);
+        }
+      }
+    }
+
+    if (data.payWithWallet) {
+      await reserveWalletForBooking(tx, booking, { bookingCategory: BookingCategory.AIRLINE, partnerId: segments[0].schedule.flight.partnerId });
+    }
 
-    logger.info(`Flight booking created: ${bookingNumber}`);
+    logger.info(`Flight booking created: ${bookingNumber} (${segments.length} flight(s))`);
 
     return {
       id: booking.id,
@@ -385,6 +672,93 @@ export const createFlightBooking = async (
 // HOTEL BOOKING
 // ============================================================================
 
+interface HotelRoomOccupancy {
+  roomNumber: number;
+  adults: number;
+  children: number;
+  chargeableChildren: number; // Children between childFreeAge and childMaxAge
+}
+
+interface HotelGuest extends PassengerInfo {
+  guestType: 'ADULT' | 'CHILD';
+  roomNumber: number;
+}
+
+/**
+ * Age in whole years on a given date
+ */
+const getAgeOn = (dateOfBirth: Date, on: Date): number => {
+  const dob = new Date(dateOfBirth);
+  let age = on.getFullYear() - dob.getFullYear();
+  const beforeBirthday =
+    on.getMonth() < dob.getMonth() || (on.getMonth() === dob.getMonth() && on.getDate() < dob.getDate());
+  if (beforeBirthday) {
+    age--;
+  }
+  return age;
+};
+
+/**
+ * Assign guests to rooms and validate each room's occupancy
+ * Children older than the room's childMaxAge count as adults.
+ */
+export const allocateHotelGuests = (
+  room: { maxAdults: number; maxChildren: number; maxOccupancy: number; childFreeAge: number; childMaxAge: number },
+  passengers: PassengerInfo[],
+  rooms: number,
+  checkIn: Date
+): { guests: HotelGuest[]; occupancy: HotelRoomOccupancy[] } => {
+  const occupancy: HotelRoomOccupancy[] = Array.from({ length: rooms }, (_, index) => ({
+    roomNumber: index + 1,
+    adults: 0,
+    children: 0,
+    chargeableChildren: 0,
+  }));
+
+  const guests = passengers.map((p): HotelGuest => {
+    const roomNumber = p.roomNumber ?? 1;
+    if (!Number.isInteger(roomNumber) || roomNumber < 1 || roomNumber > rooms) {
+      throw new Error(`Guest ${p.firstName} must be assigned to a room between 1 and ${rooms}`);
+    }
+
+    const age = p.age ?? (p.dateOfBirth ? getAgeOn(p.dateOfBirth, checkIn) : undefined);
+    if (p.guestType === 'CHILD' && age === undefined) {
+      throw new Error(`Age is required for child guest ${p.firstName}`);
+    }
+
+    const isChild = p.guestType === 'CHILD' && age !== undefined && age <= room.childMaxAge;
+    const roomOccupancy = occupancy[roomNumber - 1];
+
+    if (isChild) {
+      roomOccupancy.children++;
+      if (age >= room.childFreeAge) {
+        roomOccupancy.chargeableChildren++;
+      }
+    } else {
+      roomOccupancy.adults++;
+    }
+
+    return { ...p, age, roomNumber, guestType: isChild ? 'CHILD' : 'ADULT' };
+  });
+
+  for (const r of occupancy) {
+    if (r.adults < 1) {
+      throw new Error(`Room ${r.roomNumber} needs at least one adult`);
+    }
+    if (r.adults > room.maxAdults) {
+      throw new Error(`Room ${r.roomNumber} allows at most ${room.maxAdults} adults`);
+    }
+    if (r.children > room.maxChildren) {
+      throw new Error(`Room ${r.roomNumber} allows at most ${room.maxChildren} children`);
+    }
+    if (r.adults + r.children > room.maxOccupancy) {
+      throw new Error(`Room ${r.roomNumber} allows at most ${room.maxOccupancy} guests`);
+    }
+  }
+
+  return { guests, occupancy };
+};
+
 /**
  * Create hotel booking
  */
@@ -392,32 +766,66 @@ export const createHotelBooking = async (
   userId: string,
   data: CreateBookingRequest
 ): Promise<BookingResponse> => {
-  const { roomInventoryId, checkInDate, checkOutDate, nights, passengers, addOns, couponCode } = data;
+  const { roomInventoryId, checkInDate, checkOutDate, passengers, addOns, couponCode } = data;
+  const rooms = data.rooms || Math.max(1, ...passengers.map((p) => p.roomNumber || 1));
 
-  if (!roomInventoryId || !checkInDate || !checkOutDate || !nights) {
-    throw new Error('Room inventory ID, check-in, check-out dates, and nights are required');
+  if (!roomInventoryId || !checkInDate || !checkOutDate) {
+    throw new Error('Room inventory ID, check-in and check-out dates are required');
+  }
+
+  const checkIn = new Date(checkInDate);
+  const checkOut = new Date(checkOutDate);
+  const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (nights <= 0) {
+    throw new Error('Check-out date must be after check-in date');
   }
 
   return await prisma.$transaction(async (tx) => {
-    // Get room inventory
-    const inventory = await tx.roomInventory.findUnique({
+    // Identify the room from the selected inventory row
+    const selected = await tx.roomInventory.findUnique({
       where: { id: roomInventoryId },
       include: {
-        room: true,
+        room: { include: { hotel: { select: { partnerId: true } } } },
       },
     });
 
-    if (!inventory || !inventory.isAvailable || inventory.availableRooms < 1) {
+    if (!selected) {
       throw new Error('Room not available for selected dates');
     }
 
-    // Calculate pricing
+    const { guests, occupancy } = allocateHotelGuests(selected.room, passengers, rooms, checkIn);
+
+    // One inventory row per night in [checkIn, checkOut)
+    const inventories = await tx.roomInventory.findMany({
+      where: {
+        roomId: selected.roomId,
+        date: { gte: checkIn, lt: checkOut },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    if (inventories.length !== nights) {
+      throw new Error('Room not available for selected dates');
+    }
+
+    const soldOut = inventories.find((inv) => !inv.isAvailable || inv.availableRooms < rooms);
+    if (soldOut) {
+      throw new Error(`Room sold out on ${soldOut.date.toISOString().split('T')[0]}`);
+    }
+
+    // Calculate pricing from nightly rates, one unit per room-night
+    const childRate = Number(selected.room.childRatePerNight);
+    const roomNightFares = inventories.flatMap((inv) =>
+      occupancy.map((r) => Number(inv.price) + r.chargeableChildren * childRate)
+    );
     const addOnItems = addOns?.map((a) => ({ price: a.price, quantity: a.quantity })) || [];
-    const pricing = calculatePricing(
-      Number(inventory.price),
-      nights,
+    const pricing = await calculatePricing(
+      roomNightFares,
+      nights * rooms,
       addOnItems,
-      couponCode
+      { category: BookingCategory.HOTEL, userId, couponCode },
+      tx
     );
 
     // Generate booking number
@@ -429,10 +837,11 @@ export const createHotelBooking = async (
         bookingNumber,
         userId,
         category: BookingCategory.HOTEL,
-        roomInventoryId,
-        checkInDate,
-        checkOutDate,
+        roomInventoryId: inventories[0].id,
+        checkInDate: checkIn,
+        checkOutDate: checkOut,
         nights,
+        rooms,
         status: BookingStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         primaryPassengerName: `${passengers[0].firstName} ${passengers[0].lastName}`,
@@ -444,31 +853,60 @@ export const createHotelBooking = async (
         discountAmount: pricing.discountAmount,
         addOnAmount: pricing.addOnAmount,
         totalAmount: pricing.totalAmount,
+        charges: pricing.charges as unknown as Prisma.InputJsonArray,
         addOns: addOns ? JSON.stringify(addOns) : null,
       },
     });
 
+    await applyCouponRedemption(tx, pricing, userId, booking.id);
+
+    // Record each night of the stay
+    await tx.bookingRoomNight.createMany({
+      data: inventories.map((inv) => ({
+        bookingId: booking.id,
+        roomInventoryId: inv.id,
+        date: inv.date,
+        price: inv.price,
+        rooms,
+      })),
+    });
+
     // Create guest records
     await tx.bookingPassenger.createMany({
-      data: passengers.map((p, index) => ({
+      data: guests.map((p) => ({
         bookingId: booking.id,
         firstName: p.firstName,
         lastName: p.lastName,
-        guestType: index === 0 ? 'ADULT' : 'CHILD',
+        dateOfBirth: p.dateOfBirth,
+        gender: p.gender,
+        guestType: p.guestType,
+        age: p.age,
+        roomNumber: p.roomNumber,
         phone: p.phone,
         email: p.email,
+        idType: p.idType,
+        idNumber: p.idNumber,
       })),
     });
 
-    // Update room availability
-    await tx.roomInventory.update({
-      where: { id: roomInventoryId },
-      data: {
-        availableRooms: { decrement: 1 },
-        heldRooms: { increment: 1 },
-      },
+    // Hold the rooms for every night until payment (booking policy)
+    const bookingPolicy = await evaluatePolicy(
+      'BOOKING',
+      { bookingCategory: BookingCategory.HOTEL, partnerId: selected.room.hotel.partnerId },
+      tx
+    );
+    await holdRoom(tx, {
+      roomInventoryIds: inventories.map((inv) => inv.id),
+      rooms,
+      heldBy: userId,
+      bookingId: booking.id,
+      holdExpiryMinutes: bookingPolicy.rules.paymentHoldMinutes,
     });
 
+    if (data.payWithWallet) {
+      await reserveWalletForBooking(tx, booking, { bookingCategory: BookingCategory.HOTEL, partnerId: selected.room.hotel.partnerId });
+    }
+
     logger.info(`Hotel booking created: ${bookingNumber}`);
 
     return {
@@ -493,24 +931,162 @@ export const createHotelBooking = async (
 // ============================================================================
 
 /**
- * Confirm booking after payment
+ * A paid booking that cannot be confirmed for good - the caller should refund
+ * the payment rather than retry
  */
-export const confirmBooking = async (
-  bookingId: string,
-  paymentDetails: {
-    razorpayOrderId?: string;
-    razorpayPaymentId?: string;
-    razorpaySignature?: string;
-    paymentMethod: string;
-    paidAmount: number;
+export class BookingConfirmationError extends Error {
+  constructor(
+    message: string,
+    public reason: 'NOT_PENDING' | 'INVENTORY_UNAVAILABLE' | 'WALLET_UNAVAILABLE'
+  ) {
+    super(message);
+    this.name = 'BookingConfirmationError';
   }
-): Promise<BookingResponse> => {
-  const booking = await prisma.booking.update({
-    where: { id: bookingId },
+}
+
+export interface BookingPaymentDetails {
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpaySignature?: string;
+  paymentMethod: string;
+  paidAmount: number;
+  walletAmount?: number; // Part of paidAmount collected from the wallet (all of it for wallet payments)
+}
+
+/**
+ * Convert the seat hold of a paid bus booking
+ * A hold released before payment arrived is booked again from availability;
+ * if any seat has been taken the confirmation fails.
+ */
+const convertBusHolds = async (tx: Prisma.TransactionClient, booking: Booking): Promise<void> => {
+  const hold = await tx.seatHold.findFirst({
+    where: {
+      bookingId: booking.id,
+      status: HoldStatus.ACTIVE,
+    },
+  });
+
+  if (hold && (await convertHoldToBooking(hold.id, booking.id, 'BUS', tx))) {
+    return;
+  }
+
+  const passengers = await tx.bookingPassenger.findMany({
+    where: { bookingId: booking.id, cancelledAt: null },
+  });
+  const seatNumbers = passengers.flatMap((passenger) => (passenger.seatNumber ? [passenger.seatNumber] : []));
+
+  const rebooked = await bookBusSeatsWithoutHold(tx, { scheduleId: booking.busScheduleId!, seatNumbers });
+
+  if (!rebooked) {
+    throw new BookingConfirmationError(
+      `Seats on booking ${booking.bookingNumber} were released before payment and are no longer available`,
+      'INVENTORY_UNAVAILABLE'
+    );
+  }
+
+  logger.warn(`Booking ${booking.bookingNumber}: seat hold had lapsed, seats rebooked`);
+};
+
+/**
+ * Convert the cabin hold on every leg of a paid flight booking
+ * A leg whose hold was released before payment arrived is booked again from
+ * availability; if the seats are gone the confirmation fails as a whole.
+ */
+const convertFlightHolds = async (tx: Prisma.TransactionClient, booking: Booking): Promise<void> => {
+  const [segments, holds, passengers] = await Promise.all([
+    tx.bookingFlightSegment.findMany({ where: { bookingId: booking.id }, orderBy: { sequence: 'asc' } }),
+    tx.flightSeatHold.findMany({ where: { bookingId: booking.id }, orderBy: { createdAt: 'desc' } }),
+    tx.bookingPassenger.findMany({ where: { bookingId: booking.id, cancelledAt: null } }),
+  ]);
+
+  const legs = segments.length > 0
+    ? segments.map((segment) => ({ scheduleId: segment.flightScheduleId, cabinClass: segment.cabinClass }))
+    : [{ scheduleId: booking.flightScheduleId!, cabinClass: (booking.cabinClass as CabinClass) || CabinClass.ECONOMY }];
+
+  for (const leg of legs) {
+    const legHolds = holds.filter((hold) => hold.scheduleId === leg.scheduleId);
+    const active = legHolds.find((hold) => hold.status === HoldStatus.ACTIVE);
+
+    if (active && (await convertHoldToBooking(active.id, booking.id, 'FLIGHT', tx))) {
+      continue;
+    }
+
+    // Latest lapsed hold tells us what the leg had reserved
+    const lapsed = legHolds.find((hold) => hold.status === HoldStatus.RELEASED);
+    const rebooked = await bookFlightSeatsWithoutHold(tx, {
+      scheduleId: leg.scheduleId,
+      cabinClass: lapsed?.cabinClass || leg.cabinClass,
+      seatCount: lapsed?.seatCount || passengers.length,
+      seatNumbers: lapsed?.seatNumbers || [],
+    });
+
+    if (!rebooked) {
+      throw new BookingConfirmationError(
+        `Seats on booking ${booking.bookingNumber} were released before payment and are no longer available`,
+        'INVENTORY_UNAVAILABLE'
+      );
+    }
+
+    logger.warn(`Booking ${booking.bookingNumber}: hold had lapsed, seats rebooked on schedule ${leg.scheduleId}`);
+  }
+};
+
+/**
+ * Convert the room hold of a paid hotel booking
+ * A hold released before payment arrived is booked again from availability;
+ * if any night is sold out the confirmation fails.
+ */
+const convertRoomHolds = async (tx: Prisma.TransactionClient, booking: Booking): Promise<void> => {
+  const hold = await tx.roomHold.findFirst({
+    where: {
+      bookingId: booking.id,
+      status: HoldStatus.ACTIVE,
+    },
+  });
+
+  if (hold && (await convertHoldToBooking(hold.id, booking.id, 'HOTEL', tx))) {
+    return;
+  }
+
+  const nights = await tx.bookingRoomNight.findMany({
+    where: { bookingId: booking.id },
+  });
+  const roomInventoryIds = nights.length > 0 ? nights.map((night) => night.roomInventoryId) : [booking.roomInventoryId!];
+
+  const rebooked = await bookRoomsWithoutHold(tx, { roomInventoryIds, rooms: booking.rooms || 1 });
+
+  if (!rebooked) {
+    throw new BookingConfirmationError(
+      `Rooms on booking ${booking.bookingNumber} were released before payment and are no longer available`,
+      'INVENTORY_UNAVAILABLE'
+    );
+  }
+
+  logger.warn(`Booking ${booking.bookingNumber}: room hold had lapsed, rooms rebooked`);
+};
+
+/**
+ * Mark a booking paid and convert its inventory holds, inside the caller's
+ * transaction so the payment posting and confirmation commit together
+ * The wallet share is collected here, so a wallet or split payment either
+ * confirms the booking or moves no money at all. Only a PENDING booking is
+ * confirmed: a replayed verify or a reconciler run racing it finds it taken.
+ */
+export const confirmBookingInTransaction = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  paymentDetails: BookingPaymentDetails
+): Promise<Booking> => {
+  const walletAmount = paymentDetails.walletAmount || 0;
+
+  const { count } = await tx.booking.updateMany({
+    where: { id: bookingId, status: BookingStatus.PENDING },
     data: {
       status: BookingStatus.CONFIRMED,
       paymentStatus: PaymentStatus.CAPTURED,
       paidAmount: paymentDetails.paidAmount,
+      walletAmount,
+      gatewayAmount: Math.round((paymentDetails.paidAmount - walletAmount) * 100) / 100,
       razorpayOrderId: paymentDetails.razorpayOrderId,
       razorpayPaymentId: paymentDetails.razorpayPaymentId,
       razorpaySignature: paymentDetails.razorpaySignature,
@@ -519,35 +1095,77 @@ export const confirmBooking = async (
     },
   });
 
-  // If bus booking, convert hold to booking
-  if (booking.category === BookingCategory.BUS && booking.busScheduleId) {
-    // Find active hold for this user and schedule
-    const hold = await prisma.seatHold.findFirst({
-      where: {
-        scheduleId: booking.busScheduleId,
-        heldBy: booking.userId,
-        status: HoldStatus.ACTIVE,
-      },
-    });
+  if (count === 0) {
+    throw new BookingConfirmationError('Booking is no longer awaiting payment', 'NOT_PENDING');
+  }
 
-    if (hold) {
-      await convertHoldToBooking(hold.id, bookingId);
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+  });
+
+  if (walletAmount > 0) {
+    try {
+      await payBookingFromWallet(tx, {
+        userId: booking.userId,
+        bookingId,
+        bookingNumber: booking.bookingNumber,
+        amount: walletAmount,
+      });
+    } catch (error) {
+      if (error instanceof WalletFundsError) {
+        throw new BookingConfirmationError(error.message, 'WALLET_UNAVAILABLE');
+      }
+      throw error;
     }
   }
 
-  // If hotel booking, update held rooms to booked
-  if (booking.category === BookingCategory.HOTEL && booking.roomInventoryId) {
-    await prisma.roomInventory.update({
-      where: { id: booking.roomInventoryId },
-      data: {
-        heldRooms: { decrement: 1 },
-        bookedRooms: { increment: 1 },
-      },
+  // Assign PNR to flight bookings
+  if (booking.category === BookingCategory.AIRLINE && !booking.pnr) {
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: { pnr: generatePnr() },
     });
   }
 
+  // If bus booking, convert seat hold to booking
+  if (booking.category === BookingCategory.BUS && booking.busScheduleId) {
+    await convertBusHolds(tx, booking);
+  }
+
+  // If flight booking, convert the cabin hold on every leg to booking
+  if (booking.category === BookingCategory.AIRLINE && booking.flightScheduleId) {
+    await convertFlightHolds(tx, booking);
+  }
+
+  // If hotel booking, convert room hold to booking
+  if (booking.category === BookingCategory.HOTEL && booking.roomInventoryId) {
+    await convertRoomHolds(tx, booking);
+  }
+
+  // Reservation left over when the wallet was not used after all
+  await releaseBookingWalletHold(tx, bookingId, `Booking ${booking.bookingNumber} paid`);
+
+  return booking;
+};
+
+/**
+ * Confirm booking after payment
+ */
+export const confirmBooking = async (
+  bookingId: string,
+  paymentDetails: BookingPaymentDetails
+): Promise<BookingResponse> => {
+  const booking = await prisma.$transaction((tx) => confirmBookingInTransaction(tx, bookingId, paymentDetails));
+
   logger.info(`Booking confirmed: ${booking.bookingNumber}`);
 
+  // Invoice failures must not fail the confirmation - it is re-attempted on download
+  try {
+    await issueTaxInvoice(booking.id);
+  } catch (error) {
+    logger.error(`Failed to issue invoice for booking ${booking.bookingNumber}:`, error);
+  }
+
   return {
     id: booking.id,
     bookingNumber: booking.bookingNumber,
@@ -564,67 +1182,246 @@ export const confirmBooking = async (
   };
 };
 
+// ============================================================================
+// SPLIT PAYMENTS
+// ============================================================================
+
+/**
+ * Start a split-tender checkout: reserve the wallet share and record the
+ * breakdown against the gateway order that collects the rest
+ * A reservation from an earlier checkout of the booking is given back first.
+ */
+export const reserveSplitPayment = async (
+  bookingId: string,
+  params: { walletAmount: number; razorpayOrderId: string }
+): Promise<Booking> => {
+  return await prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: ticketBookingInclude,
+    });
+
+    if (!booking || booking.status !== BookingStatus.PENDING) {
+      throw new Error('Payment can only be made for pending bookings');
+    }
+
+    await releaseBookingWalletHold(tx, bookingId, `Booking ${booking.bookingNumber} checkout restarted`);
+
+    await reserveWalletForBooking(
+      tx,
+      booking,
+      { bookingCategory: booking.category, partnerId: getBookingPartnerId(booking) },
+      { amount: params.walletAmount, idempotencyKey: `split-hold:${params.razorpayOrderId}` }
+    );
+
+    return await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        razorpayOrderId: params.razorpayOrderId,
+        walletAmount: params.walletAmount,
+        gatewayAmount: Math.round((Number(booking.totalAmount) - params.walletAmount) * 100) / 100,
+      },
+    });
+  });
+};
+
 // ============================================================================
 // CANCELLATION & REFUNDS
 // ============================================================================
 
 /**
  * Calculate cancellation charges and refund amount
+ * The charge comes from the cancellation policy slab for how many hours
+ * before departure / check-in the booking is cancelled; a flight's fixed
+ * fare-rule charge is the minimum.
+ * @param portion - Share of the booking being cancelled (e.g. 1 of 3 passengers)
  */
 export const calculateCancellationRefund = async (
-  bookingId: string
+  bookingId: string,
+  portion: number = 1
 ): Promise<CancellationResponse> => {
   const booking = await prisma.booking.findUnique({
     where: { id: bookingId },
-    include: {
-      flightSchedule: {
-        include: {
-          fareRules: true,
-        },
-      },
-    },
+    include: ticketBookingInclude,
   });
 
   if (!booking) {
     throw new Error('Booking not found');
   }
 
-  const now = new Date();
-  const bookingDate = booking.createdAt;
-  const hoursSinceBooking = (now.getTime() - bookingDate.getTime()) / (1000 * 60 * 60);
+  const partnerId = getBookingPartnerId(booking);
+  const policy = await getCancellationPolicy(booking.category, partnerId);
+  const refundPolicy = await evaluatePolicy('REFUND', { bookingCategory: booking.category, partnerId });
+
+  const travelStart = getTravelStart(booking);
+  const hoursBeforeTravel = travelStart
+    ? Math.round(((travelStart.getTime() - Date.now()) / (1000 * 60 * 60)) * 10) / 10
+    : null;
+
+  const appliedSlab =
+    hoursBeforeTravel === null ? policy.slabs[0] : findCancellationSlab(policy.slabs, hoursBeforeTravel);
+  const chargePercentage = appliedSlab ? appliedSlab.chargePercentage : 100;
 
-  // Get fare rules (for flights) or default rules
   const fareRules = booking.flightSchedule?.fareRules;
-  const freeCancellationHours = fareRules?.cancellationFreeWithinHours || 24;
-
-  let cancellationCharges = 0;
-  let eligibleRefundAmount = Number(booking.paidAmount);
-
-  // Check if within free cancellation window
-  if (hoursSinceBooking <= freeCancellationHours) {
-    // Full refund
-    cancellationCharges = 0;
-  } else {
-    // Apply cancellation charges
-    const chargePercentage = fareRules?.cancellationChargePercentage || 0;
-    const chargeFixed = fareRules?.cancellationChargeFixed || 0;
-
-    cancellationCharges = Math.max(
-      (eligibleRefundAmount * Number(chargePercentage)) / 100,
-      Number(chargeFixed)
-    );
-  }
+  const eligibleRefundAmount = Math.round(Number(booking.paidAmount) * portion * 100) / 100;
+
+  const cancellationCharges = Math.min(
+    eligibleRefundAmount,
+    Math.round(
+      Math.max(
+        (eligibleRefundAmount * chargePercentage) / 100,
+        Number(fareRules?.cancellationChargeFixed || 0) * portion
+      ) * 100
+    ) / 100
+  );
 
   const finalRefundAmount = Math.max(0, eligibleRefundAmount - cancellationCharges);
 
+  // Split-tender bookings are refunded to the wallet and the gateway in proportion
+  const { walletAmount: walletRefundAmount, gatewayAmount: gatewayRefundAmount } = splitRefundByTender(
+    booking,
+    finalRefundAmount
+  );
+
   return {
     eligibleRefundAmount,
     cancellationCharges,
     finalRefundAmount,
-    refundProcessingDays: fareRules?.refundProcessingDays || 7,
+    walletRefundAmount,
+    gatewayRefundAmount,
+    refundProcessingDays: fareRules?.refundProcessingDays || refundPolicy.rules.processingDays,
+    hoursBeforeTravel,
+    chargePercentage,
+    appliedSlab,
+    slabs: policy.slabs,
+    policy: policy.name,
   };
 };
 
+type BookingWithInventory = Prisma.BookingGetPayload<{
+  include: { passengers: true; roomNights: true; flightSegments: true };
+}>;
+
+/**
+ * Give a booking's seats or rooms back to inventory
+ * Unpaid bookings release their holds; confirmed bookings decrement the booked counts.
+ */
+export const releaseBookingInventory = async (
+  tx: Prisma.TransactionClient,
+  booking: BookingWithInventory
+): Promise<void> => {
+  if (booking.category === BookingCategory.BUS && booking.busScheduleId) {
+    const hold = await tx.seatHold.findFirst({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+
+    if (hold) {
+      // Not paid yet - give the held seats back
+      await releaseHold(hold.id, 'USER_CANCELLED', 'BUS', tx);
+    } else {
+      const schedule = await tx.busSchedule.findUnique({
+        where: { id: booking.busScheduleId },
+      });
+
+      if (schedule) {
+        const seatStatus = schedule.seatStatus as Record<string, string>;
+        const newSeatStatus = { ...seatStatus };
+
+        for (const passenger of booking.passengers) {
+          if (passenger.seatNumber) {
+            newSeatStatus[passenger.seatNumber] = 'AVAILABLE';
+          }
+        }
+
+        await tx.busSchedule.update({
+          where: { id: booking.busScheduleId },
+          data: {
+            seatStatus: newSeatStatus,
+            bookedSeats: { decrement: booking.passengers.length },
+            availableSeats: { increment: booking.passengers.length },
+          },
+        });
+      }
+    }
+  }
+
+  if (booking.category === BookingCategory.AIRLINE && booking.flightScheduleId) {
+    const holds = await tx.flightSeatHold.findMany({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+
+    if (holds.length > 0) {
+      // Not paid yet - give the held seats back on every leg
+      for (const hold of holds) {
+        await releaseHold(hold.id, 'USER_CANCELLED', 'FLIGHT', tx);
+      }
+    } else if (booking.status === BookingStatus.CONFIRMED) {
+      const segments =
+        booking.flightSegments.length > 0
+          ? booking.flightSegments.map((segment) => ({
+              flightScheduleId: segment.flightScheduleId,
+              cabinClass: segment.cabinClass as string,
+            }))
+          : [{ flightScheduleId: booking.flightScheduleId, cabinClass: booking.cabinClass }];
+
+      for (const segment of segments) {
+        const schedule = await tx.flightSchedule.findUnique({
+          where: { id: segment.flightScheduleId },
+        });
+
+        if (!schedule) {
+          continue;
+        }
+
+        const seatStatus = schedule.seatStatus as Record<string, string>;
+        const newSeatStatus = { ...seatStatus };
+
+        // Seats are only assigned on single-flight bookings
+        if (segments.length === 1) {
+          for (const passenger of booking.passengers) {
+            if (passenger.seatNumber) {
+              delete newSeatStatus[passenger.seatNumber];
+            }
+          }
+        }
+
+        await tx.flightSchedule.update({
+          where: { id: segment.flightScheduleId },
+          data: {
+            seatStatus: newSeatStatus,
+            [getCabinFields(segment.cabinClass).booked]: { decrement: booking.passengers.length },
+          },
+        });
+      }
+    }
+  }
+
+  if (booking.category === BookingCategory.HOTEL && booking.roomInventoryId) {
+    const hold = await tx.roomHold.findFirst({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+
+    if (hold) {
+      // Not paid yet - give the held room back
+      await releaseHold(hold.id, 'USER_CANCELLED', 'HOTEL', tx);
+    } else if (booking.status === BookingStatus.CONFIRMED) {
+      const roomInventoryIds =
+        booking.roomNights.length > 0
+          ? booking.roomNights.map((night) => night.roomInventoryId)
+          : [booking.roomInventoryId];
+
+      const rooms = booking.rooms || 1;
+      await tx.roomInventory.updateMany({
+        where: { id: { in: roomInventoryIds } },
+        data: {
+          bookedRooms: { decrement: rooms },
+          availableRooms: { increment: rooms },
+        },
+      });
+    }
+  }
+};
+
 /**
  * Cancel booking
  */
@@ -638,7 +1435,9 @@ export const cancelBooking = async (
     const booking = await tx.booking.findUnique({
       where: { id: bookingId },
       include: {
-        passengers: true,
+        passengers: { where: { cancelledAt: null } },
+        roomNights: true,
+        flightSegments: true,
       },
     });
 
@@ -690,54 +1489,217 @@ export const cancelBooking = async (
       },
     });
 
-    // Release inventory
-    if (booking.category === BookingCategory.BUS && booking.busScheduleId) {
-      const schedule = await tx.busSchedule.findUnique({
-        where: { id: booking.busScheduleId },
-      });
+    // Give the coupon back to the user
+    await reverseCouponRedemption(tx, bookingId);
 
-      if (schedule) {
-        const seatStatus = schedule.seatStatus as Record<string, string>;
-        const newSeatStatus = { ...seatStatus };
+    // Credit note for the refunded value
+    await issueCreditNote(tx, bookingId, refund.finalRefundAmount, `Booking cancelled: ${reason}`);
 
-        for (const passenger of booking.passengers) {
-          if (passenger.seatNumber) {
-            newSeatStatus[passenger.seatNumber] = 'AVAILABLE';
-          }
-        }
+    // Release inventory and any wallet reservation still waiting for payment
+    await releaseBookingInventory(tx, booking);
+    await releaseBookingWalletHold(tx, bookingId, `Booking ${booking.bookingNumber} cancelled`);
 
-        await tx.busSchedule.update({
-          where: { id: booking.busScheduleId },
-          data: {
-            seatStatus: newSeatStatus,
-            bookedSeats: { decrement: booking.passengers.length },
-            availableSeats: { increment: booking.passengers.length },
-          },
-        });
+    logger.info(`Booking cancelled: ${booking.bookingNumber}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+    return {
+      booking: {
+        id: updatedBooking.id,
+        bookingNumber: updatedBooking.bookingNumber,
+        category: updatedBooking.category,
+        status: updatedBooking.status,
+        paymentStatus: updatedBooking.paymentStatus,
+        baseAmount: Number(updatedBooking.baseAmount),
+        taxAmount: Number(updatedBooking.taxAmount),
+        convenienceFee: Number(updatedBooking.convenienceFee),
+        discountAmount: Number(updatedBooking.discountAmount),
+        totalAmount: Number(updatedBooking.totalAmount),
+        paidAmount: Number(updatedBooking.paidAmount),
+        createdAt: updatedBooking.createdAt,
+      },
+      refund,
+    };
+  });
+};
+
+// ============================================================================
+// PARTIAL CANCELLATION
+// ============================================================================
+
+export interface PartialCancellationParams {
+  passengerIds?: string[]; // Bus / flight
+  roomNumbers?: number[]; // Hotel rooms within the booking
+  reason: string;
+}
+
+/**
+ * Cancel some passengers (bus/flight) or rooms (hotel) of a confirmed booking
+ * The refund is the removed share of the paid amount under the usual
+ * cancellation rules. Only the removed seats / rooms are released and the
+ * booking totals are scaled down to what remains; the change is recorded
+ * as a booking amendment.
+ */
+export const cancelPassengers = async (
+  bookingId: string,
+  userId: string,
+  params: PartialCancellationParams
+): Promise<{ booking: BookingResponse; amendment: BookingAmendment; refund: CancellationResponse }> => {
+  return await prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        passengers: { where: { cancelledAt: null } },
+        roomNights: true,
+        flightSegments: true,
+      },
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    if (booking.userId !== userId) {
+      throw new Error('Unauthorized to cancel this booking');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new Error('Only confirmed bookings can be partially cancelled');
+    }
+
+    let removed: typeof booking.passengers;
+    let rooms = 0;
+    let portion: number;
+
+    if (booking.category === BookingCategory.HOTEL) {
+      const roomNumbers = [...new Set(params.roomNumbers || [])];
+      const activeRooms = new Set(booking.passengers.map((p) => p.roomNumber ?? 1));
+
+      if (roomNumbers.length === 0) {
+        throw new Error('Select the rooms to cancel');
       }
+
+      const unknown = roomNumbers.find((roomNumber) => !activeRooms.has(roomNumber));
+      if (unknown !== undefined) {
+        throw new Error(`Room ${unknown} is not part of this booking`);
+      }
+
+      if (roomNumbers.length >= activeRooms.size) {
+        throw new Error('Cancel the whole booking to remove every room');
+      }
+
+      removed = booking.passengers.filter((p) => roomNumbers.includes(p.roomNumber ?? 1));
+      rooms = roomNumbers.length;
+      portion = rooms / activeRooms.size;
+    } else {
+      const passengerIds = [...new Set(params.passengerIds || [])];
+
+      if (passengerIds.length === 0) {
+        throw new Error('Select the passengers to cancel');
+      }
+
+      removed = booking.passengers.filter((p) => passengerIds.includes(p.id));
+
+      if (removed.length !== passengerIds.length) {
+        throw new Error('Passenger not found on this booking');
+      }
+
+      if (removed.length >= booking.passengers.length) {
+        throw new Error('Cancel the whole booking to remove every passenger');
+      }
+
+      portion = removed.length / booking.passengers.length;
     }
 
-    if (booking.category === BookingCategory.AIRLINE && booking.flightScheduleId) {
-      const cabinClassField = `${booking.cabinClass?.toLowerCase() || 'economy'}Booked`;
-      await tx.flightSchedule.update({
-        where: { id: booking.flightScheduleId },
-        data: {
-          [cabinClassField]: { decrement: booking.passengers.length },
-        },
+    const refund = await calculateCancellationRefund(bookingId, portion);
+
+    // Release only the removed passengers' seats / rooms
+    await releaseBookingInventory(tx, { ...booking, passengers: removed, rooms });
+
+    if (rooms > 0) {
+      await tx.bookingRoomNight.updateMany({
+        where: { bookingId },
+        data: { rooms: { decrement: rooms } },
       });
     }
 
-    if (booking.category === BookingCategory.HOTEL && booking.roomInventoryId) {
-      await tx.roomInventory.update({
-        where: { id: booking.roomInventoryId },
-        data: {
-          bookedRooms: { decrement: 1 },
-          availableRooms: { increment: 1 },
-        },
-      });
+    await tx.bookingPassenger.updateMany({
+      where: { id: { in: removed.map((p) => p.id) } },
+      data: { cancelledAt: new Date() },
+    });
+
+    // Keep the remaining rooms numbered 1..rooms
+    if (rooms > 0) {
+      const remainingRooms = [...new Set(booking.passengers.map((p) => p.roomNumber ?? 1))]
+        .filter((roomNumber) => !params.roomNumbers?.includes(roomNumber))
+        .sort((a, b) => a - b);
+
+      for (const [index, roomNumber] of remainingRooms.entries()) {
+        if (roomNumber !== index + 1) {
+          await tx.bookingPassenger.updateMany({
+            where: { bookingId, roomNumber, cancelledAt: null },
+            data: { roomNumber: index + 1 },
+          });
+        }
+      }
     }
 
-    logger.info(`Booking cancelled: ${booking.bookingNumber}`);
+    const remaining = 1 - portion;
+    const scale = (amount: Prisma.Decimal | number) => Math.round(Number(amount) * remaining * 100) / 100;
+    const charges = (booking.charges as unknown as ChargeLine[] | null)?.map((line) => ({
+      ...line,
+      amount: scale(line.amount),
+    }));
+
+    const updatedBooking = await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        baseAmount: scale(booking.baseAmount),
+        taxAmount: scale(booking.taxAmount),
+        convenienceFee: scale(booking.convenienceFee),
+        discountAmount: scale(booking.discountAmount),
+        addOnAmount: scale(booking.addOnAmount),
+        fareLockCredit: scale(booking.fareLockCredit),
+        totalAmount: scale(booking.totalAmount),
+        ...(charges && { charges: charges as unknown as Prisma.InputJsonArray }),
+        paidAmount: Math.round((Number(booking.paidAmount) - refund.eligibleRefundAmount) * 100) / 100,
+        refundAmount: Number(booking.refundAmount || 0) + refund.finalRefundAmount,
+        ...(rooms > 0 && { rooms: (booking.rooms || 1) - rooms }),
+      },
+    });
+
+    const amendment = await tx.bookingAmendment.create({
+      data: {
+        bookingId,
+        type: rooms > 0 ? AmendmentType.ROOMS_CANCELLED : AmendmentType.PASSENGERS_CANCELLED,
+        passengerIds: removed.map((p) => p.id),
+        rooms: rooms || undefined,
+        reason: params.reason,
+        performedBy: userId,
+        previousTotals: {
+          baseAmount: Number(booking.baseAmount),
+          taxAmount: Number(booking.taxAmount),
+          convenienceFee: Number(booking.convenienceFee),
+          discountAmount: Number(booking.discountAmount),
+          totalAmount: Number(booking.totalAmount),
+          paidAmount: Number(booking.paidAmount),
+          passengers: booking.passengers.length,
+          ...(booking.rooms && { rooms: booking.rooms }),
+        },
+        eligibleRefundAmount: refund.eligibleRefundAmount,
+        cancellationCharges: refund.cancellationCharges,
+        finalRefundAmount: refund.finalRefundAmount,
+        refundStatus: refund.finalRefundAmount > 0 ? 'PENDING' : 'COMPLETED',
+      },
+    });
+
+    // Credit note for the refunded value
+    await issueCreditNote(tx, bookingId, refund.finalRefundAmount, `Partial cancellation: ${params.reason}`);
+
+    logger.info(
+      `Booking ${booking.bookingNumber} amended: ${removed.length} passenger(s)` +
+        `${rooms > 0 ? `, ${rooms} room(s)` : ''} cancelled, refund ${refund.finalRefundAmount}`
+    );
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
 
     return {
       booking: {
@@ -754,6 +1716,7 @@ export const cancelBooking = async (
         paidAmount: Number(updatedBooking.paidAmount),
         createdAt: updatedBooking.createdAt,
       },
+      amendment,
       refund,
     };
   });
@@ -0,0 +1,247 @@
+/**
+ * CHARGE RULE SERVICE
+ * Configurable fee and tax rules used by booking pricing
+ *
+ * Features:
+ * - Rule lookup by category, sub-type and fare band
+ * - Percentage or flat charges on fare or on fees
+ * - Itemized fee/tax lines for invoices
+ * - Built-in defaults when no rules are configured
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  BusType,
+  ChargeBase,
+  ChargeCalculation,
+  ChargeType,
+  Prisma,
+} from '@prisma/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChargeRuleDefinition {
+  code: string;
+  name: string;
+  type: ChargeType;
+  subType: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  calculation: ChargeCalculation;
+  rate: number;
+  appliesOn: ChargeBase;
+  priority: number;
+}
+
+export interface ChargeLine {
+  code: string;
+  name: string;
+  type: ChargeType;
+  calculation: ChargeCalculation;
+  rate: number;
+  appliesOn: ChargeBase;
+  amount: number;
+}
+
+export interface ChargeSummary {
+  charges: ChargeLine[];
+  feeAmount: number;
+  taxAmount: number;
+  taxOnFees: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Defaults used when a category has no active rules configured
+ * (2% convenience fee, 5% GST on the convenience fee)
+ */
+const DEFAULT_CHARGE_RULES: ChargeRuleDefinition[] = [
+  {
+    code: 'CONVENIENCE_FEE',
+    name: 'Convenience Fee',
+    type: ChargeType.FEE,
+    subType: null,
+    minAmount: null,
+    maxAmount: null,
+    calculation: ChargeCalculation.PERCENTAGE,
+    rate: 2,
+    appliesOn: ChargeBase.BASE_FARE,
+    priority: 0,
+  },
+  {
+    code: 'GST_ON_FEE',
+    name: 'GST on Convenience Fee',
+    type: ChargeType.TAX,
+    subType: null,
+    minAmount: null,
+    maxAmount: null,
+    calculation: ChargeCalculation.PERCENTAGE,
+    rate: 5,
+    appliesOn: ChargeBase.FEES,
+    priority: 0,
+  },
+];
+
+const NON_AC_BUS_TYPES: BusType[] = [
+  BusType.SLEEPER_NON_AC,
+  BusType.SEATER_NON_AC,
+  BusType.SEMI_SLEEPER_NON_AC,
+];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SUB-TYPE RESOLUTION
+// ============================================================================
+
+/**
+ * Charge sub-type for a bus (GST differs for AC and non-AC buses)
+ */
+export const getBusChargeSubType = (busType: BusType): string =>
+  NON_AC_BUS_TYPES.includes(busType) ? 'NON_AC' : 'AC';
+
+// ============================================================================
+// RULE LOOKUP
+// ============================================================================
+
+/**
+ * Pick the rules that apply to a booking
+ * Rules sharing a code are alternatives: a sub-type specific rule beats a
+ * generic one, then higher priority wins. Rules with different codes stack.
+ */
+export const selectApplicableRules = (
+  rules: ChargeRuleDefinition[],
+  subType: string | null,
+  unitAmount: number
+): ChargeRuleDefinition[] => {
+  const matching = rules.filter(
+    (rule) =>
+      (rule.subType === null || rule.subType === subType) &&
+      (rule.minAmount === null || unitAmount >= rule.minAmount) &&
+      (rule.maxAmount === null || unitAmount <= rule.maxAmount)
+  );
+
+  const byCode = new Map<string, ChargeRuleDefinition>();
+  for (const rule of matching) {
+    const current = byCode.get(rule.code);
+    if (
+      !current ||
+      (current.subType === null && rule.subType !== null) ||
+      ((current.subType === null) === (rule.subType === null) && rule.priority > current.priority)
+    ) {
+      byCode.set(rule.code, rule);
+    }
+  }
+
+  return Array.from(byCode.values());
+};
+
+/**
+ * Load the active rules for a category
+ * Falls back to the built-in defaults when none are configured.
+ */
+export const getChargeRules = async (
+  category: BookingCategory,
+  db: Prisma.TransactionClient = prisma
+): Promise<ChargeRuleDefinition[]> => {
+  const rules = await db.chargeRule.findMany({
+    where: { category, isActive: true },
+    orderBy: { priority: 'desc' },
+  });
+
+  if (rules.length === 0) {
+    return DEFAULT_CHARGE_RULES;
+  }
+
+  return rules.map((rule) => ({
+    code: rule.code,
+    name: rule.name,
+    type: rule.type,
+    subType: rule.subType,
+    minAmount: rule.minAmount !== null ? Number(rule.minAmount) : null,
+    maxAmount: rule.maxAmount !== null ? Number(rule.maxAmount) : null,
+    calculation: rule.calculation,
+    rate: Number(rule.rate),
+    appliesOn: rule.appliesOn,
+    priority: rule.priority,
+  }));
+};
+
+// ============================================================================
+// CHARGE CALCULATION
+// ============================================================================
+
+const computeLine = (rule: ChargeRuleDefinition, baseAmount: number): ChargeLine => ({
+  code: rule.code,
+  name: rule.name,
+  type: rule.type,
+  calculation: rule.calculation,
+  rate: rule.rate,
+  appliesOn: rule.appliesOn,
+  amount: round2(
+    rule.calculation === ChargeCalculation.PERCENTAGE
+      ? (baseAmount * rule.rate) / 100
+      : rule.rate
+  ),
+});
+
+/**
+ * Compute itemized fees and taxes for a fare amount
+ * Charges on fare are computed first, then charges on the fee total.
+ */
+export const computeCharges = (
+  rules: ChargeRuleDefinition[],
+  fareAmount: number
+): ChargeSummary => {
+  const onFare = rules
+    .filter((rule) => rule.appliesOn === ChargeBase.BASE_FARE)
+    .map((rule) => computeLine(rule, fareAmount));
+
+  const fareFees = onFare
+    .filter((line) => line.type === ChargeType.FEE)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  const onFees = rules
+    .filter((rule) => rule.appliesOn === ChargeBase.FEES)
+    .map((rule) => computeLine(rule, fareFees));
+
+  const charges = [...onFare, ...onFees];
+  const feeAmount = charges
+    .filter((line) => line.type === ChargeType.FEE)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const taxAmount = charges
+    .filter((line) => line.type === ChargeType.TAX)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const taxOnFees = onFees
+    .filter((line) => line.type === ChargeType.TAX)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    charges,
+    feeAmount: round2(feeAmount),
+    taxAmount: round2(taxAmount),
+    taxOnFees: round2(taxOnFees),
+  };
+};
+
+/**
+ * Look up rules and compute charges for a booking
+ * @param unitAmount - Per seat/night fare used to match amount bands
+ */
+export const calculateCharges = async (
+  category: BookingCategory,
+  subType: string | null,
+  unitAmount: number,
+  fareAmount: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<ChargeSummary> => {
+  const rules = await getChargeRules(category, db);
+  const applicable = selectApplicableRules(rules, subType, unitAmount);
+  return computeCharges(applicable, fareAmount);
+};
\ No newline at end of file
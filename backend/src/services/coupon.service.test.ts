@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { redeemCoupon } from './coupon.service';
+
+jest.mock('../server', () => ({ prisma: {} }));
+
+type MockFn = jest.Mock<(...args: any[]) => any>;
+
+describe('redeemCoupon', () => {
+  const params = { couponId: 'coupon_1', userId: 'user_1', bookingId: 'booking_1', discountAmount: 100 };
+  const coupon = { id: 'coupon_1', code: 'SAVE10', usageLimit: 10, usedCount: 3, perUserLimit: 1 };
+  let tx: { coupon: Record<string, MockFn>; couponRedemption: Record<string, MockFn> };
+
+  beforeEach(() => {
+    tx = {
+      coupon: { findUnique: jest.fn(), updateMany: jest.fn() },
+      couponRedemption: { count: jest.fn(), create: jest.fn() },
+    };
+    tx.coupon.findUnique.mockResolvedValue(coupon);
+    tx.coupon.updateMany.mockResolvedValue({ count: 1 });
+    tx.couponRedemption.count.mockResolvedValue(0);
+    tx.couponRedemption.create.mockImplementation(async ({ data }: any) => ({ id: 'redemption_1', ...data }));
+  });
+
+  it('counts the redemption against the usage limit', async () => {
+    await expect(redeemCoupon(tx as never, params)).resolves.toMatchObject({ bookingId: 'booking_1', status: 'REDEEMED' });
+    expect(tx.coupon.updateMany).toHaveBeenCalledWith({
+      where: { id: 'coupon_1', usedCount: { lt: 10 } },
+      data: { usedCount: { increment: 1 } },
+    });
+  });
+
+  it('does not cap coupons without a usage limit', async () => {
+    tx.coupon.findUnique.mockResolvedValue({ ...coupon, usageLimit: null });
+
+    await redeemCoupon(tx as never, params);
+
+    expect(tx.coupon.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'coupon_1' } }));
+  });
+
+  it('rejects a coupon whose last use was taken concurrently', async () => {
+    tx.coupon.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(redeemCoupon(tx as never, params)).rejects.toThrow('Coupon usage limit reached');
+    expect(tx.couponRedemption.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a user who reached the per-user limit', async () => {
+    tx.couponRedemption.count.mockResolvedValue(1);
+
+    await expect(redeemCoupon(tx as never, params)).rejects.toThrow('You have already used this coupon');
+    expect(tx.couponRedemption.count).toHaveBeenCalledWith({
+      where: { couponId: 'coupon_1', userId: 'user_1', status: 'REDEEMED' },
+    });
+    expect(tx.couponRedemption.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown coupon', async () => {
+    tx.coupon.findUnique.mockResolvedValue(null);
+
+    await expect(redeemCoupon(tx as never, params)).rejects.toThrow('Coupon not found');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,245 @@
+/**
+ * COUPON SERVICE
+ * Business logic for promo codes and discount coupons
+ *
+ * Features:
+ * - Percentage and flat discounts with max-discount caps
+ * - Minimum order value and category restrictions
+ * - Validity windows
+ * - Global and per-user redemption limits
+ * - Redemption ledger tied to bookings (redeem / reverse)
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  Coupon,
+  DiscountType,
+  Prisma,
+  RedemptionStatus,
+} from '@prisma/client';
+import { logger } from '../utils/logger';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CouponContext {
+  userId: string;
+  category: BookingCategory;
+  orderAmount: number;
+}
+
+export interface CouponValidationResult {
+  valid: boolean;
+  code: string;
+  couponId?: string;
+  discountAmount: number;
+  message: string;
+}
+
+// ============================================================================
+// DISCOUNT CALCULATION
+// ============================================================================
+
+/**
+ * Normalize coupon code for lookup
+ */
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Calculate discount for a coupon against an order amount
+ * Percentage discounts are capped at maxDiscountAmount; the discount
+ * never exceeds the order amount.
+ */
+export const computeCouponDiscount = (coupon: Coupon, orderAmount: number): number => {
+  let discount =
+    coupon.discountType === DiscountType.PERCENTAGE
+      ? (orderAmount * Number(coupon.discountValue)) / 100
+      : Number(coupon.discountValue);
+
+  if (coupon.maxDiscountAmount !== null) {
+    discount = Math.min(discount, Number(coupon.maxDiscountAmount));
+  }
+
+  discount = Math.min(discount, orderAmount);
+
+  return Math.round(discount * 100) / 100;
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a coupon code for a user, category and order amount
+ * Does not redeem the coupon - safe to use for previews.
+ */
+export const validateCoupon = async (
+  code: string,
+  context: CouponContext,
+  db: DbClient = prisma
+): Promise<CouponValidationResult> => {
+  const normalizedCode = normalizeCouponCode(code);
+  const invalid = (message: string): CouponValidationResult => ({
+    valid: false,
+    code: normalizedCode,
+    discountAmount: 0,
+    message,
+  });
+
+  const coupon = await db.coupon.findUnique({
+    where: { code: normalizedCode },
+  });
+
+  if (!coupon || !coupon.isActive) {
+    return invalid('Invalid coupon code');
+  }
+
+  const now = new Date();
+  if (now < coupon.validFrom) {
+    return invalid('Coupon is not active yet');
+  }
+  if (now > coupon.validUntil) {
+    return invalid('Coupon has expired');
+  }
+
+  if (coupon.categories.length > 0 && !coupon.categories.includes(context.category)) {
+    return invalid(`Coupon is not applicable on ${context.category} bookings`);
+  }
+
+  if (context.orderAmount < Number(coupon.minOrderValue)) {
+    return invalid(`Minimum order value of ${Number(coupon.minOrderValue)} required`);
+  }
+
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return invalid('Coupon usage limit reached');
+  }
+
+  const userRedemptions = await db.couponRedemption.count({
+    where: {
+      couponId: coupon.id,
+      userId: context.userId,
+      status: RedemptionStatus.REDEEMED,
+    },
+  });
+
+  if (userRedemptions >= coupon.perUserLimit) {
+    return invalid('You have already used this coupon');
+  }
+
+  return {
+    valid: true,
+    code: normalizedCode,
+    couponId: coupon.id,
+    discountAmount: computeCouponDiscount(coupon, context.orderAmount),
+    message: 'Coupon applied successfully',
+  };
+};
+
+// ============================================================================
+// REDEMPTION LEDGER
+// ============================================================================
+
+/**
+ * Record a coupon redemption against a booking
+ * Must be called inside the booking transaction. The usage counter is
+ * incremented conditionally so concurrent redemptions cannot exceed the
+ * global limit, and the per-user limit is re-checked under its row lock.
+ */
+export const redeemCoupon = async (
+  tx: DbClient,
+  params: {
+    couponId: string;
+    userId: string;
+    bookingId: string;
+    discountAmount: number;
+  }
+) => {
+  const coupon = await tx.coupon.findUnique({
+    where: { id: params.couponId },
+  });
+
+  if (!coupon) {
+    throw new Error('Coupon not found');
+  }
+
+  const updated = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      ...(coupon.usageLimit !== null && { usedCount: { lt: coupon.usageLimit } }),
+    },
+    data: {
+      usedCount: { increment: 1 },
+    },
+  });
+
+  if (updated.count === 0) {
+    throw new Error('Coupon usage limit reached');
+  }
+
+  // The counter update locks the coupon row, so this count sees concurrent redemptions
+  const userRedemptions = await tx.couponRedemption.count({
+    where: {
+      couponId: coupon.id,
+      userId: params.userId,
+      status: RedemptionStatus.REDEEMED,
+    },
+  });
+
+  if (userRedemptions >= coupon.perUserLimit) {
+    throw new Error('You have already used this coupon');
+  }
+
+  const redemption = await tx.couponRedemption.create({
+    data: {
+      couponId: params.couponId,
+      userId: params.userId,
+      bookingId: params.bookingId,
+      discountAmount: params.discountAmount,
+      status: RedemptionStatus.REDEEMED,
+    },
+  });
+
+  logger.info(`Coupon ${coupon.code} redeemed for booking ${params.bookingId}`);
+
+  return redemption;
+};
+
+/**
+ * Reverse the coupon redemption for a booking (e.g. on cancellation)
+ * Returns false if the booking did not use a coupon.
+ */
+export const reverseCouponRedemption = async (
+  tx: DbClient,
+  bookingId: string
+): Promise<boolean> => {
+  const redemption = await tx.couponRedemption.findUnique({
+    where: { bookingId },
+  });
+
+  if (!redemption || redemption.status !== RedemptionStatus.REDEEMED) {
+    return false;
+  }
+
+  await tx.couponRedemption.update({
+    where: { id: redemption.id },
+    data: {
+      status: RedemptionStatus.REVERSED,
+      reversedAt: new Date(),
+    },
+  });
+
+  await tx.coupon.update({
+    where: { id: redemption.couponId },
+    data: {
+      usedCount: { decrement: 1 },
+    },
+  });
+
+  logger.info(`Coupon redemption reversed for booking ${bookingId}`);
+
+  return true;
+};
\ No newline at end of file
@@ -0,0 +1,861 @@
+/**
+ * DISRUPTION SERVICE
+ * Cancelled and delayed bus/flight schedules
+ *
+ * Features:
+ * - Admins and partners cancel or delay a schedule
+ * - Every affected booking is found (including connecting itineraries)
+ * - Alternative schedules on the same route offered for rebooking
+ * - Full refunds through the cancellation pipeline when there is no alternative
+ * - Unanswered offers on cancelled schedules refunded automatically before departure
+ * - Per-passenger audit trail of every action taken
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  BookingStatus,
+  CabinClass,
+  CancellationType,
+  DisruptionActionType,
+  DisruptionType,
+  Prisma,
+  ScheduleDisruption,
+  ScheduleStatus,
+  UserRole,
+} from '@prisma/client';
+import { releaseBookingInventory } from './booking.service';
+import { reverseCouponRedemption } from './coupon.service';
+import { issueCreditNote } from './invoice.service';
+import {
+  convertHoldToBooking,
+  getCabinAvailableSeats,
+  getCabinFields,
+  holdSeats,
+  HoldSeatsParams,
+} from './holdQuota.service';
+import { combineDateAndTime } from '../utils/date';
+import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
+import cron from 'node-cron';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Alternatives are searched this many days either side of the disrupted date
+const DISRUPTION_ALTERNATIVE_DAYS = parseInt(process.env.DISRUPTION_ALTERNATIVE_DAYS || '2');
+const MAX_ALTERNATIVES = 5;
+
+// Delays at least this long entitle passengers to rebook or refund
+const DISRUPTION_REBOOK_DELAY_MINUTES = parseInt(process.env.DISRUPTION_REBOOK_DELAY_MINUTES || '120');
+
+// Unanswered offers on a cancelled schedule are refunded this many hours before its departure
+const DISRUPTION_AUTO_REFUND_HOURS = parseInt(process.env.DISRUPTION_AUTO_REFUND_HOURS || '3');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DisruptScheduleParams {
+  category: BookingCategory;
+  scheduleId: string;
+  type: DisruptionType;
+  delayMinutes?: number;
+  reason: string;
+  userId: string;
+}
+
+export interface DisruptionSummary {
+  disruption: ScheduleDisruption;
+  affectedBookings: number;
+  notified: number;
+  offered: number;
+  refunded: number;
+  cancelled: number;
+  failed: string[]; // Booking numbers that could not be processed
+}
+
+export interface AlternativeSchedule {
+  scheduleId: string;
+  name: string; // Route or flight number
+  departure: Date;
+  availableSeats: number;
+}
+
+interface DisruptedSchedule {
+  id: string;
+  partnerId: string;
+  source: string;
+  destination: string;
+  departure: Date;
+}
+
+interface ActionDetails {
+  alternativeScheduleIds?: string[];
+  newScheduleId?: string;
+  refundAmount?: number;
+  performedBy: string;
+  notes?: string;
+}
+
+const affectedBookingInclude = {
+  passengers: { where: { cancelledAt: null } },
+  roomNights: true,
+  flightSegments: true,
+} satisfies Prisma.BookingInclude;
+
+type AffectedBooking = Prisma.BookingGetPayload<{ include: typeof affectedBookingInclude }>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check that a user may change a schedule
+ * Admins may change any schedule; partner staff only their own inventory.
+ */
+export const canManageSchedule = async (userId: string, partnerId: string): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, partnerId: true },
+  });
+
+  if (!user) {
+    return false;
+  }
+
+  if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+    return true;
+  }
+
+  return user.role === UserRole.PARTNER && user.partnerId === partnerId;
+};
+
+const loadDisruptedSchedule = async (
+  category: BookingCategory,
+  scheduleId: string
+): Promise<DisruptedSchedule & { status: ScheduleStatus }> => {
+  if (category === BookingCategory.BUS) {
+    const schedule = await prisma.busSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { route: true },
+    });
+
+    if (!schedule) {
+      throw new Error('Bus schedule not found');
+    }
+
+    return {
+      id: schedule.id,
+      partnerId: schedule.route.partnerId,
+      source: schedule.route.source,
+      destination: schedule.route.destination,
+      departure: combineDateAndTime(schedule.scheduleDate, schedule.route.departureTime),
+      status: schedule.status,
+    };
+  }
+
+  if (category === BookingCategory.AIRLINE) {
+    const schedule = await prisma.flightSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { flight: true },
+    });
+
+    if (!schedule) {
+      throw new Error('Flight schedule not found');
+    }
+
+    return {
+      id: schedule.id,
+      partnerId: schedule.flight.partnerId,
+      source: schedule.flight.source,
+      destination: schedule.flight.destination,
+      departure: combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime),
+      status: schedule.status,
+    };
+  }
+
+  throw new Error('Only bus and flight schedules can be disrupted');
+};
+
+/**
+ * Active schedules between the same cities around the disrupted date
+ * Seat availability is not filtered here; see hasSeatsFor.
+ */
+const findAlternativeSchedules = async (
+  category: BookingCategory,
+  disrupted: DisruptedSchedule
+): Promise<(AlternativeSchedule & { cabinSeats?: Record<string, number> })[]> => {
+  const from = new Date(disrupted.departure);
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - DISRUPTION_ALTERNATIVE_DAYS);
+  const to = new Date(disrupted.departure);
+  to.setHours(0, 0, 0, 0);
+  to.setDate(to.getDate() + DISRUPTION_ALTERNATIVE_DAYS + 1);
+
+  const now = new Date();
+  let alternatives: (AlternativeSchedule & { cabinSeats?: Record<string, number> })[];
+
+  if (category === BookingCategory.BUS) {
+    const schedules = await prisma.busSchedule.findMany({
+      where: {
+        id: { not: disrupted.id },
+        status: ScheduleStatus.ACTIVE,
+        scheduleDate: { gte: from, lt: to },
+        route: { source: disrupted.source, destination: disrupted.destination, isActive: true },
+      },
+      include: { route: true },
+    });
+
+    alternatives = schedules.map((schedule) => ({
+      scheduleId: schedule.id,
+      name: schedule.route.routeNumber,
+      departure: combineDateAndTime(schedule.scheduleDate, schedule.route.departureTime),
+      availableSeats: schedule.availableSeats,
+    }));
+  } else {
+    const schedules = await prisma.flightSchedule.findMany({
+      where: {
+        id: { not: disrupted.id },
+        status: ScheduleStatus.ACTIVE,
+        scheduleDate: { gte: from, lt: to },
+        flight: { source: disrupted.source, destination: disrupted.destination, isActive: true },
+      },
+      include: { flight: true },
+    });
+
+    alternatives = schedules.map((schedule) => {
+      const cabinSeats: Record<string, number> = {};
+      for (const cabinClass of Object.values(CabinClass)) {
+        if (schedule[getCabinFields(cabinClass).fare] !== null) {
+          cabinSeats[cabinClass] = getCabinAvailableSeats(schedule, cabinClass);
+        }
+      }
+
+      return {
+        scheduleId: schedule.id,
+        name: `${schedule.flight.airlineCode} ${schedule.flight.flightNumber}`,
+        departure: combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime),
+        availableSeats: Math.max(0, ...Object.values(cabinSeats)),
+        cabinSeats,
+      };
+    });
+  }
+
+  // Closest departures to the original first
+  return alternatives
+    .filter((alternative) => alternative.departure > now)
+    .sort(
+      (a, b) =>
+        Math.abs(a.departure.getTime() - disrupted.departure.getTime()) -
+        Math.abs(b.departure.getTime() - disrupted.departure.getTime())
+    );
+};
+
+const hasSeatsFor = (
+  alternative: AlternativeSchedule & { cabinSeats?: Record<string, number> },
+  booking: AffectedBooking
+): boolean => {
+  const seats = booking.passengers.length;
+  if (alternative.cabinSeats) {
+    return (alternative.cabinSeats[booking.cabinClass || CabinClass.ECONOMY] || 0) >= seats;
+  }
+  return alternative.availableSeats >= seats;
+};
+
+/**
+ * Split an amount across passengers, the last one taking the rounding remainder
+ */
+const splitAmount = (amount: number, parts: number): number[] => {
+  const share = Math.floor((amount * 100) / parts) / 100;
+  return Array.from({ length: parts }, (_, index) =>
+    index === parts - 1 ? Math.round((amount - share * (parts - 1)) * 100) / 100 : share
+  );
+};
+
+/**
+ * Record one audit row per passenger (or one for the booking if it has none)
+ */
+const recordActions = async (
+  tx: DbClient,
+  disruptionId: string,
+  booking: AffectedBooking,
+  action: DisruptionActionType,
+  details: ActionDetails
+): Promise<void> => {
+  const passengers = booking.passengers.length > 0 ? booking.passengers : [null];
+  const refunds =
+    details.refundAmount !== undefined ? splitAmount(details.refundAmount, passengers.length) : [];
+
+  await tx.disruptionAction.createMany({
+    data: passengers.map((passenger, index) => ({
+      disruptionId,
+      bookingId: booking.id,
+      passengerId: passenger?.id,
+      action,
+      alternativeScheduleIds: details.alternativeScheduleIds || [],
+      newScheduleId: details.newScheduleId,
+      refundAmount: refunds[index],
+      performedBy: details.performedBy,
+      notes: details.notes,
+    })),
+  });
+};
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+/**
+ * Cancel a disrupted booking with a full refund
+ * Goes through the same cancellation pipeline as a user cancellation, without
+ * charges, recorded as cancelled by the operator (airline for flights).
+ */
+const refundBooking = async (
+  tx: DbClient,
+  booking: AffectedBooking,
+  disruption: ScheduleDisruption,
+  performedBy: string
+): Promise<number> => {
+  const refundAmount = Number(booking.paidAmount);
+  const reason = `Schedule ${disruption.type.toLowerCase()}: ${disruption.reason}`;
+
+  await tx.booking.update({
+    where: { id: booking.id },
+    data: {
+      status: BookingStatus.CANCELLED,
+      cancelledAt: new Date(),
+      cancelledBy: performedBy,
+      cancellationReason: reason,
+      refundAmount,
+    },
+  });
+
+  await tx.cancellationRequest.create({
+    data: {
+      bookingId: booking.id,
+      type:
+        booking.category === BookingCategory.AIRLINE
+          ? CancellationType.AIRLINE_INITIATED
+          : CancellationType.OPERATOR_INITIATED,
+      requestedBy: disruption.createdBy,
+      reason,
+      eligibleRefundAmount: refundAmount,
+      cancellationCharges: 0,
+      finalRefundAmount: refundAmount,
+      status: 'APPROVED',
+      approvedBy: performedBy,
+      approvedAt: new Date(),
+      refundStatus: refundAmount > 0 ? 'PENDING' : 'COMPLETED',
+    },
+  });
+
+  await reverseCouponRedemption(tx, booking.id);
+  await issueCreditNote(tx, booking.id, refundAmount, reason);
+  await releaseBookingInventory(tx, booking);
+
+  await recordActions(tx, disruption.id, booking, DisruptionActionType.REFUNDED, {
+    refundAmount,
+    performedBy,
+    notes: reason,
+  });
+
+  return refundAmount;
+};
+
+// ============================================================================
+// DISRUPT SCHEDULE
+// ============================================================================
+
+/**
+ * Cancel or delay a schedule and act on every affected booking
+ *
+ * Cancelled: unpaid bookings are cancelled; paid bookings are offered the
+ * alternatives with enough seats, or refunded in full when there are none.
+ * Delayed: every booking is notified; long delays also get rebooking offers.
+ * Connecting itineraries are always refunded rather than rebooked.
+ */
+export const disruptSchedule = async (params: DisruptScheduleParams): Promise<DisruptionSummary> => {
+  const { category, scheduleId, type, reason, userId } = params;
+
+  if (type === DisruptionType.DELAYED && (!params.delayMinutes || params.delayMinutes < 1)) {
+    throw new Error('Delay in minutes is required');
+  }
+
+  const schedule = await loadDisruptedSchedule(category, scheduleId);
+
+  if (!(await canManageSchedule(userId, schedule.partnerId))) {
+    throw new Error('Schedule does not belong to your inventory');
+  }
+
+  if (schedule.status !== ScheduleStatus.ACTIVE && schedule.status !== ScheduleStatus.DELAYED) {
+    throw new Error(`Schedule is already ${schedule.status.toLowerCase()}`);
+  }
+
+  const delayMinutes = type === DisruptionType.DELAYED ? params.delayMinutes : undefined;
+  const status = type === DisruptionType.CANCELLED ? ScheduleStatus.CANCELLED : ScheduleStatus.DELAYED;
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+      ...(category === BookingCategory.BUS
+        ? { busScheduleId: scheduleId }
+        : {
+            OR: [
+              { flightScheduleId: scheduleId },
+              { flightSegments: { some: { flightScheduleId: scheduleId } } },
+            ],
+          }),
+    },
+    include: affectedBookingInclude,
+  });
+
+  const disruption = await prisma.$transaction(async (tx) => {
+    if (category === BookingCategory.BUS) {
+      await tx.busSchedule.update({ where: { id: scheduleId }, data: { status } });
+    } else {
+      await tx.flightSchedule.update({ where: { id: scheduleId }, data: { status } });
+    }
+
+    return tx.scheduleDisruption.create({
+      data: {
+        category,
+        busScheduleId: category === BookingCategory.BUS ? scheduleId : undefined,
+        flightScheduleId: category === BookingCategory.AIRLINE ? scheduleId : undefined,
+        type,
+        delayMinutes,
+        reason,
+        partnerId: schedule.partnerId,
+        createdBy: userId,
+        affectedBookings: bookings.length,
+      },
+    });
+  });
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  const offerRebooking =
+    type === DisruptionType.CANCELLED || (delayMinutes || 0) >= DISRUPTION_REBOOK_DELAY_MINUTES;
+  const alternatives =
+    bookings.length > 0 && offerRebooking ? await findAlternativeSchedules(category, schedule) : [];
+
+  const summary: DisruptionSummary = {
+    disruption,
+    affectedBookings: bookings.length,
+    notified: 0,
+    offered: 0,
+    refunded: 0,
+    cancelled: 0,
+    failed: [],
+  };
+
+  for (const booking of bookings) {
+    const taken: DisruptionActionType[] = [];
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        if (type === DisruptionType.DELAYED) {
+          await recordActions(tx, disruption.id, booking, DisruptionActionType.NOTIFIED, {
+            performedBy: 'SYSTEM',
+            notes: `Delayed by ${delayMinutes} minutes: ${reason}`,
+          });
+          taken.push(DisruptionActionType.NOTIFIED);
+        }
+
+        if (booking.status === BookingStatus.PENDING) {
+          if (type === DisruptionType.CANCELLED) {
+            await tx.booking.update({
+              where: { id: booking.id },
+              data: {
+                status: BookingStatus.CANCELLED,
+                cancelledAt: new Date(),
+                cancelledBy: 'SYSTEM',
+                cancellationReason: `Schedule cancelled: ${reason}`,
+              },
+            });
+            await releaseBookingInventory(tx, booking);
+            await recordActions(tx, disruption.id, booking, DisruptionActionType.CANCELLED, {
+              performedBy: 'SYSTEM',
+              notes: reason,
+            });
+            taken.push(DisruptionActionType.CANCELLED);
+          }
+          return;
+        }
+
+        if (!offerRebooking) {
+          return;
+        }
+
+        const options =
+          booking.flightSegments.length > 1
+            ? []
+            : alternatives.filter((alternative) => hasSeatsFor(alternative, booking)).slice(0, MAX_ALTERNATIVES);
+
+        if (options.length > 0) {
+          await recordActions(tx, disruption.id, booking, DisruptionActionType.REBOOKING_OFFERED, {
+            alternativeScheduleIds: options.map((option) => option.scheduleId),
+            performedBy: 'SYSTEM',
+          });
+          taken.push(DisruptionActionType.REBOOKING_OFFERED);
+        } else if (type === DisruptionType.CANCELLED) {
+          await refundBooking(tx, booking, disruption, 'SYSTEM');
+          taken.push(DisruptionActionType.REFUNDED);
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to process disruption ${disruption.id} for booking ${booking.bookingNumber}:`, error);
+      summary.failed.push(booking.bookingNumber);
+      continue;
+    }
+
+    // Counted once the booking's transaction has committed
+    summary.notified += taken.filter((action) => action === DisruptionActionType.NOTIFIED).length;
+    summary.offered += taken.filter((action) => action === DisruptionActionType.REBOOKING_OFFERED).length;
+    summary.refunded += taken.filter((action) => action === DisruptionActionType.REFUNDED).length;
+    summary.cancelled += taken.filter((action) => action === DisruptionActionType.CANCELLED).length;
+  }
+
+  logger.info(
+    `Schedule ${scheduleId} ${type.toLowerCase()}: ${bookings.length} booking(s) affected, ` +
+      `${summary.offered} offered rebooking, ${summary.refunded} refunded, ${summary.cancelled} cancelled`
+  );
+
+  return summary;
+};
+
+// ============================================================================
+// PASSENGER CHOICES
+// ============================================================================
+
+/**
+ * The booking's rebooking offer, if it has not been taken up yet
+ */
+const getOpenOffer = async (db: DbClient, bookingId: string) => {
+  const latest = await db.disruptionAction.findFirst({
+    where: {
+      bookingId,
+      action: {
+        in: [
+          DisruptionActionType.REBOOKING_OFFERED,
+          DisruptionActionType.REBOOKED,
+          DisruptionActionType.REFUNDED,
+        ],
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    include: { disruption: true },
+  });
+
+  return latest?.action === DisruptionActionType.REBOOKING_OFFERED ? latest : null;
+};
+
+/**
+ * Lock a confirmed booking's row for the rest of the transaction
+ * Serialises the passenger's choice with the automatic refund, so an offer is
+ * taken up once. Returns false if the booking is no longer confirmed.
+ */
+const lockConfirmedBooking = async (tx: DbClient, bookingId: string): Promise<boolean> => {
+  const { count } = await tx.booking.updateMany({
+    where: { id: bookingId, status: BookingStatus.CONFIRMED },
+    data: { updatedAt: new Date() },
+  });
+
+  return count === 1;
+};
+
+const loadOwnBooking = async (db: DbClient, userId: string, bookingId: string): Promise<AffectedBooking> => {
+  const booking = await db.booking.findFirst({
+    where: { id: bookingId, userId },
+    include: affectedBookingInclude,
+  });
+
+  if (!booking) {
+    throw new Error('Booking not found');
+  }
+
+  if (booking.status !== BookingStatus.CONFIRMED) {
+    throw new Error(`Booking is ${booking.status.toLowerCase()}`);
+  }
+
+  return booking;
+};
+
+/**
+ * Disruption affecting a booking with the alternatives still available
+ */
+export const getBookingDisruption = async (userId: string, bookingId: string) => {
+  const booking = await loadOwnBooking(prisma, userId, bookingId);
+  const offer = await getOpenOffer(prisma, bookingId);
+
+  if (!offer) {
+    return null;
+  }
+
+  const schedule = await loadDisruptedSchedule(
+    booking.category,
+    offer.disruption.busScheduleId || offer.disruption.flightScheduleId || ''
+  );
+  const alternatives = (await findAlternativeSchedules(booking.category, schedule)).filter(
+    (alternative) =>
+      offer.alternativeScheduleIds.includes(alternative.scheduleId) && hasSeatsFor(alternative, booking)
+  );
+
+  return {
+    disruption: offer.disruption,
+    alternatives: alternatives.map(({ cabinSeats, ...alternative }) => alternative),
+    refundAmount: Number(booking.paidAmount),
+  };
+};
+
+/**
+ * Hold seats on the new schedule and convert the hold straight to the booking
+ * Throws if the seats were taken meanwhile or the hold quota is used up.
+ */
+const bookDisruptionSeats = async (
+  tx: DbClient,
+  booking: AffectedBooking,
+  params: Pick<HoldSeatsParams, 'scheduleId' | 'seatNumbers' | 'seatCount' | 'cabinClass' | 'category'>
+): Promise<void> => {
+  const hold = await holdSeats({ ...params, heldBy: booking.userId, bookingId: booking.id }, tx);
+
+  if (!hold.success || !hold.holdId) {
+    throw new Error(`Could not reserve seats on this schedule: ${hold.message}`);
+  }
+
+  if (!(await convertHoldToBooking(hold.holdId, booking.id, params.category, tx))) {
+    throw new Error('Could not reserve seats on this schedule');
+  }
+};
+
+/**
+ * Move a disrupted booking to one of the offered schedules
+ * There is no fare difference to pay; bus seats are reassigned from what is free.
+ * The new seats are held and converted like any booking's, so the hold quota
+ * and concurrent checkouts on the schedule are respected.
+ */
+export const rebookDisruptedBooking = async (userId: string, bookingId: string, scheduleId: string) => {
+  return await prisma.$transaction(async (tx) => {
+    const booking = await loadOwnBooking(tx, userId, bookingId);
+
+    if (!(await lockConfirmedBooking(tx, bookingId))) {
+      throw new Error('Booking is no longer confirmed');
+    }
+
+    const offer = await getOpenOffer(tx, bookingId);
+
+    if (!offer) {
+      throw new Error('No rebooking offer for this booking');
+    }
+
+    if (!offer.alternativeScheduleIds.includes(scheduleId)) {
+      throw new Error('Schedule was not offered as an alternative');
+    }
+
+    const seats = booking.passengers.length;
+
+    if (booking.category === BookingCategory.BUS) {
+      const schedule = await tx.busSchedule.findUnique({
+        where: { id: scheduleId },
+      });
+
+      if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+        throw new Error('Bus schedule not available');
+      }
+
+      const seatStatus = schedule.seatStatus as Record<string, string>;
+      const freeSeats = Object.keys(seatStatus)
+        .filter((seat) => seatStatus[seat] === 'AVAILABLE')
+        .slice(0, seats);
+
+      if (schedule.availableSeats < seats || freeSeats.length < seats) {
+        throw new Error('Not enough seats available on this schedule');
+      }
+
+      await releaseBookingInventory(tx, booking);
+      await bookDisruptionSeats(tx, booking, { scheduleId, seatNumbers: freeSeats, category: 'BUS' });
+
+      for (const [index, passenger] of booking.passengers.entries()) {
+        await tx.bookingPassenger.update({
+          where: { id: passenger.id },
+          data: { seatNumber: freeSeats[index] },
+        });
+      }
+
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: { busScheduleId: scheduleId },
+      });
+    } else {
+      const schedule = await tx.flightSchedule.findUnique({
+        where: { id: scheduleId },
+      });
+
+      if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+        throw new Error('Flight schedule not available');
+      }
+
+      if (getCabinAvailableSeats(schedule, booking.cabinClass) < seats) {
+        throw new Error('Not enough seats available in your cabin class');
+      }
+
+      await releaseBookingInventory(tx, booking);
+
+      // Seat assignments do not carry over to another flight
+      await tx.bookingPassenger.updateMany({
+        where: { bookingId },
+        data: { seatNumber: null },
+      });
+
+      await bookDisruptionSeats(tx, booking, {
+        scheduleId,
+        seatNumbers: [],
+        seatCount: seats,
+        cabinClass: (booking.cabinClass as CabinClass) || CabinClass.ECONOMY,
+        category: 'FLIGHT',
+      });
+
+      await tx.bookingFlightSegment.updateMany({
+        where: { bookingId },
+        data: { flightScheduleId: scheduleId },
+      });
+
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: { flightScheduleId: scheduleId },
+      });
+    }
+
+    await recordActions(tx, offer.disruptionId, booking, DisruptionActionType.REBOOKED, {
+      newScheduleId: scheduleId,
+      performedBy: userId,
+    });
+
+    logger.info(`Disrupted booking ${booking.bookingNumber} rebooked onto schedule ${scheduleId}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+    return tx.booking.findUnique({
+      where: { id: bookingId },
+      include: { passengers: true },
+    });
+  });
+};
+
+/**
+ * Decline the rebooking offer and take a full refund
+ */
+export const refundDisruptedBooking = async (userId: string, bookingId: string) => {
+  return await prisma.$transaction(async (tx) => {
+    const booking = await loadOwnBooking(tx, userId, bookingId);
+
+    if (!(await lockConfirmedBooking(tx, bookingId))) {
+      throw new Error('Booking is no longer confirmed');
+    }
+
+    const offer = await getOpenOffer(tx, bookingId);
+
+    if (!offer) {
+      throw new Error('No rebooking offer for this booking');
+    }
+
+    const refundAmount = await refundBooking(tx, booking, offer.disruption, userId);
+
+    logger.info(`Disrupted booking ${booking.bookingNumber} refunded ${refundAmount}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+    return { bookingId, bookingNumber: booking.bookingNumber, refundAmount };
+  });
+};
+
+// ============================================================================
+// AUTOMATIC REFUNDS
+// ============================================================================
+
+/**
+ * Refund bookings left on a cancelled schedule whose offer was not answered
+ * Once the original departure is DISRUPTION_AUTO_REFUND_HOURS away the offer
+ * lapses and the booking is refunded in full, as if the passenger had asked.
+ */
+export const refundUnansweredOffers = async (): Promise<number> => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: BookingStatus.CONFIRMED,
+      OR: [
+        { busSchedule: { status: ScheduleStatus.CANCELLED } },
+        { flightSchedule: { status: ScheduleStatus.CANCELLED } },
+      ],
+    },
+    select: { id: true, bookingNumber: true, category: true, busScheduleId: true, flightScheduleId: true },
+  });
+
+  const cutoff = Date.now() + DISRUPTION_AUTO_REFUND_HOURS * 60 * 60 * 1000;
+  let refunded = 0;
+
+  for (const booking of bookings) {
+    try {
+      const schedule = await loadDisruptedSchedule(
+        booking.category,
+        booking.busScheduleId || booking.flightScheduleId || ''
+      );
+
+      if (schedule.departure.getTime() > cutoff) {
+        continue;
+      }
+
+      const refundAmount = await prisma.$transaction(async (tx) => {
+        if (!(await lockConfirmedBooking(tx, booking.id))) {
+          return null;
+        }
+
+        const offer = await getOpenOffer(tx, booking.id);
+        if (!offer || offer.disruption.type !== DisruptionType.CANCELLED) {
+          return null;
+        }
+
+        const current = await tx.booking.findUniqueOrThrow({
+          where: { id: booking.id },
+          include: affectedBookingInclude,
+        });
+
+        return refundBooking(tx, current, offer.disruption, 'SYSTEM');
+      });
+
+      if (refundAmount !== null) {
+        refunded++;
+        logger.info(`Unanswered disruption offer on booking ${booking.bookingNumber} refunded ${refundAmount}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to refund disrupted booking ${booking.bookingNumber}:`, error);
+    }
+  }
+
+  if (refunded > 0) {
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+  }
+
+  return refunded;
+};
+
+// ============================================================================
+// CRON JOBS
+// ============================================================================
+
+/**
+ * Start the unanswered disruption offer job
+ * Runs every 15 minutes
+ */
+export const startDisruptionRefundCron = (): void => {
+  cron.schedule('*/15 * * * *', async () => {
+    logger.debug('Running disruption refund job...');
+    try {
+      await refundUnansweredOffers();
+    } catch (error) {
+      logger.error('Disruption refund job failed:', error);
+    }
+  });
+
+  logger.info(`Disruption refund job scheduled (every 15 minutes, ${DISRUPTION_AUTO_REFUND_HOURS}h before departure)`);
+};
\ No newline at end of file
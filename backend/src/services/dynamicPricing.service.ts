@@ -0,0 +1,318 @@
+/**
+ * DYNAMIC PRICING SERVICE
+ * Sell-price engine for bus and flight schedules
+ *
+ * Features:
+ * - Adjustments by load factor, days to departure, weekday and holidays
+ * - Platform-wide and partner-specific rules
+ * - Partner fare floors and ceilings
+ * - Fare quotes stored on bookings as a price snapshot
+ * - Simulation of unsaved rule sets for admins
+ */
+
+import { prisma } from '../server';
+import { BookingCategory, CabinClass, ChargeCalculation, PricingTrigger, Prisma } from '@prisma/client';
+import { getBusChargeSubType } from './chargeRule.service';
+import { getCabinFields } from './holdQuota.service';
+import { combineDateAndTime, daysBetween, formatDateKey } from '../utils/date';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PricingRuleDefinition {
+  id?: string;
+  name: string;
+  partnerId: string | null;
+  subType: string | null;
+  trigger: PricingTrigger;
+  minValue: number | null;
+  maxValue: number | null;
+  daysOfWeek: number[];
+  calculation: ChargeCalculation;
+  adjustment: number;
+  priority: number;
+}
+
+export interface PricingEnvironment {
+  rules: PricingRuleDefinition[];
+  holidays: Set<string>; // YYYY-MM-DD
+}
+
+export interface FareInputs {
+  partner: {
+    id: string;
+    fareFloorPercentage: Prisma.Decimal | number;
+    fareCeilingPercentage: Prisma.Decimal | number;
+  };
+  subType: string | null;
+  baseFare: number;
+  seatsSold: number;
+  totalSeats: number;
+  departure: Date;
+  now?: Date;
+}
+
+export interface FareQuote {
+  baseFare: number;
+  fare: number;
+  adjustments: Array<{ ruleId?: string; name: string; trigger: PricingTrigger; amount: number }>;
+  loadFactor: number;
+  daysToDeparture: number;
+  floor: number;
+  ceiling: number;
+  quotedAt: Date;
+}
+
+// ============================================================================
+// RULE LOOKUP
+// ============================================================================
+
+const toDefinition = (rule: {
+  id: string;
+  name: string;
+  partnerId: string | null;
+  subType: string | null;
+  trigger: PricingTrigger;
+  minValue: Prisma.Decimal | null;
+  maxValue: Prisma.Decimal | null;
+  daysOfWeek: number[];
+  calculation: ChargeCalculation;
+  adjustment: Prisma.Decimal;
+  priority: number;
+}): PricingRuleDefinition => ({
+  id: rule.id,
+  name: rule.name,
+  partnerId: rule.partnerId,
+  subType: rule.subType,
+  trigger: rule.trigger,
+  minValue: rule.minValue === null ? null : Number(rule.minValue),
+  maxValue: rule.maxValue === null ? null : Number(rule.maxValue),
+  daysOfWeek: rule.daysOfWeek,
+  calculation: rule.calculation,
+  adjustment: Number(rule.adjustment),
+  priority: rule.priority,
+});
+
+/**
+ * Load active rules and the holiday calendar for a category
+ * Load once per request and reuse for every schedule being priced.
+ */
+export const loadPricingEnvironment = async (
+  category: BookingCategory,
+  db: Prisma.TransactionClient = prisma
+): Promise<PricingEnvironment> => {
+  const [rules, holidays] = await Promise.all([
+    db.pricingRule.findMany({
+      where: { category, isActive: true },
+      orderBy: { priority: 'desc' },
+    }),
+    db.holiday.findMany({
+      where: { date: { gte: new Date(new Date().setHours(0, 0, 0, 0)) } },
+    }),
+  ]);
+
+  return {
+    rules: rules.map(toDefinition),
+    holidays: new Set(holidays.map((holiday) => holiday.date.toISOString().split('T')[0])),
+  };
+};
+
+// ============================================================================
+// FARE CALCULATION
+// ============================================================================
+
+const inRange = (value: number, min: number | null, max: number | null): boolean =>
+  (min === null || value >= min) && (max === null || value < max);
+
+const roundFare = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Price one seat on a schedule
+ * Matching adjustments are summed on the base fare, then clamped to the
+ * partner's floor and ceiling.
+ */
+export const quoteFare = (env: PricingEnvironment, inputs: FareInputs): FareQuote => {
+  const now = inputs.now || new Date();
+  const loadFactor = inputs.totalSeats > 0 ? (inputs.seatsSold / inputs.totalSeats) * 100 : 0;
+  const daysToDeparture = Math.max(0, daysBetween(now, inputs.departure));
+  const isHoliday = env.holidays.has(formatDateKey(inputs.departure));
+
+  const matches = (rule: PricingRuleDefinition): boolean => {
+    if (rule.partnerId && rule.partnerId !== inputs.partner.id) {
+      return false;
+    }
+    if (rule.subType && rule.subType !== inputs.subType) {
+      return false;
+    }
+
+    switch (rule.trigger) {
+      case PricingTrigger.LOAD_FACTOR:
+        return inRange(loadFactor, rule.minValue, rule.maxValue);
+      case PricingTrigger.DAYS_TO_DEPARTURE:
+        return inRange(daysToDeparture, rule.minValue, rule.maxValue);
+      case PricingTrigger.DAY_OF_WEEK:
+        return rule.daysOfWeek.includes(inputs.departure.getDay());
+      case PricingTrigger.HOLIDAY:
+        return isHoliday;
+    }
+  };
+
+  const adjustments = env.rules
+    .filter(matches)
+    .sort((a, b) => b.priority - a.priority)
+    .map((rule) => ({
+      ruleId: rule.id,
+      name: rule.name,
+      trigger: rule.trigger,
+      amount: roundFare(
+        rule.calculation === ChargeCalculation.PERCENTAGE
+          ? (inputs.baseFare * rule.adjustment) / 100
+          : rule.adjustment
+      ),
+    }));
+
+  const floor = roundFare((inputs.baseFare * Number(inputs.partner.fareFloorPercentage)) / 100);
+  const ceiling = roundFare((inputs.baseFare * Number(inputs.partner.fareCeilingPercentage)) / 100);
+  const adjusted = inputs.baseFare + adjustments.reduce((sum, a) => sum + a.amount, 0);
+
+  return {
+    baseFare: inputs.baseFare,
+    fare: roundFare(Math.min(Math.max(adjusted, floor), ceiling)),
+    adjustments,
+    loadFactor: Math.round(loadFactor * 100) / 100,
+    daysToDeparture,
+    floor,
+    ceiling,
+    quotedAt: now,
+  };
+};
+
+type BusScheduleForPricing = {
+  baseFare: Prisma.Decimal;
+  bookedSeats: number;
+  scheduleDate: Date;
+  route: {
+    busType: Parameters<typeof getBusChargeSubType>[0];
+    totalSeats: number;
+    departureTime: Date;
+    partner: FareInputs['partner'];
+  };
+};
+
+type FlightScheduleForPricing = Record<
+  'economySeats' | 'premiumSeats' | 'businessSeats' | 'firstSeats' |
+  'economyBooked' | 'premiumBooked' | 'businessBooked' | 'firstBooked',
+  number
+> &
+  Record<'economyFare' | 'premiumFare' | 'businessFare' | 'firstFare', Prisma.Decimal | null> & {
+    scheduleDate: Date;
+    flight: { departureTime: Date; partner: FareInputs['partner'] };
+  };
+
+const busFareInputs = (schedule: BusScheduleForPricing): FareInputs => ({
+  partner: schedule.route.partner,
+  subType: getBusChargeSubType(schedule.route.busType),
+  baseFare: Number(schedule.baseFare),
+  seatsSold: schedule.bookedSeats,
+  totalSeats: schedule.route.totalSeats,
+  departure: combineDateAndTime(schedule.scheduleDate, schedule.route.departureTime),
+});
+
+const flightFareInputs = (
+  schedule: FlightScheduleForPricing,
+  cabinClass: CabinClass | string
+): FareInputs => {
+  const fields = getCabinFields(cabinClass);
+
+  return {
+    partner: schedule.flight.partner,
+    subType: cabinClass,
+    baseFare: Number(schedule[fields.fare]),
+    seatsSold: schedule[fields.booked],
+    totalSeats: schedule[fields.seats],
+    departure: combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime),
+  };
+};
+
+/**
+ * Sell fare for a bus schedule
+ */
+export const quoteBusFare = (env: PricingEnvironment, schedule: BusScheduleForPricing): FareQuote =>
+  quoteFare(env, busFareInputs(schedule));
+
+/**
+ * Sell fare for a cabin on a flight schedule
+ */
+export const quoteFlightFare = (
+  env: PricingEnvironment,
+  schedule: FlightScheduleForPricing,
+  cabinClass: CabinClass | string = CabinClass.ECONOMY
+): FareQuote => quoteFare(env, flightFareInputs(schedule, cabinClass));
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+const SIMULATION_LOAD_FACTORS = [0, 25, 50, 75, 90, 100];
+const SIMULATION_DAYS_TO_DEPARTURE = [60, 30, 14, 7, 3, 1, 0];
+
+/**
+ * Preview pricing on a schedule
+ * Uses the given (unsaved) rules if provided, otherwise the active rules.
+ * Returns the current quote plus a grid of fares by load factor and days
+ * to departure.
+ */
+export const simulateFare = async (params: {
+  scheduleId: string;
+  category: BookingCategory;
+  cabinClass?: CabinClass;
+  rules?: PricingRuleDefinition[];
+}): Promise<{
+  current: FareQuote;
+  grid: Array<{ loadFactor: number; daysToDeparture: number; fare: number }>;
+}> => {
+  let inputs: FareInputs;
+
+  if (params.category === BookingCategory.BUS) {
+    const schedule = await prisma.busSchedule.findUnique({
+      where: { id: params.scheduleId },
+      include: { route: { include: { partner: true } } },
+    });
+    if (!schedule) {
+      throw new Error('Bus schedule not found');
+    }
+    inputs = busFareInputs(schedule);
+  } else if (params.category === BookingCategory.AIRLINE) {
+    const schedule = await prisma.flightSchedule.findUnique({
+      where: { id: params.scheduleId },
+      include: { flight: { include: { partner: true } } },
+    });
+    if (!schedule) {
+      throw new Error('Flight schedule not found');
+    }
+    inputs = flightFareInputs(schedule, params.cabinClass || CabinClass.ECONOMY);
+  } else {
+    throw new Error('Dynamic pricing applies to bus and flight schedules only');
+  }
+
+  const active = await loadPricingEnvironment(params.category);
+  const env = params.rules ? { ...active, rules: params.rules } : active;
+
+  const grid = SIMULATION_LOAD_FACTORS.flatMap((loadFactor) =>
+    SIMULATION_DAYS_TO_DEPARTURE.map((days) => {
+      const now = new Date(inputs.departure);
+      now.setDate(now.getDate() - days);
+
+      const quote = quoteFare(env, {
+        ...inputs,
+        seatsSold: Math.round((inputs.totalSeats * loadFactor) / 100),
+        now,
+      });
+
+      return { loadFactor, daysToDeparture: days, fare: quote.fare };
+    })
+  );
+
+  return { current: quoteFare(env, inputs), grid };
+};
\ No newline at end of file
@@ -0,0 +1,215 @@
+/**
+ * FARE CALENDAR SERVICE
+ * Lowest available fare per day for a route over a month
+ *
+ * Features:
+ * - Flight calendar across economy, premium economy and business fares
+ * - Bus calendar from schedule sell fares
+ * - Fares quoted by the dynamic pricing engine
+ * - Only schedules with enough free seats are considered
+ * - Cached per route/month, invalidated on schedule and booking changes
+ */
+
+import { prisma } from '../server';
+import { BookingCategory, CabinClass, ScheduleStatus } from '@prisma/client';
+import { getCabinAvailableSeats, getCabinFields } from './holdQuota.service';
+import { loadPricingEnvironment, quoteBusFare, quoteFlightFare } from './dynamicPricing.service';
+import { CACHE_NAMESPACES, getCached, setCached } from '../utils/cache';
+import { formatDateKey } from '../utils/date';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FARE_CALENDAR_CACHE_TTL_SECONDS = parseInt(
+  process.env.FARE_CALENDAR_CACHE_TTL_SECONDS || '300'
+);
+
+// Cabins compared when no cabin class is requested
+const DEFAULT_CALENDAR_CABINS: CabinClass[] = [
+  CabinClass.ECONOMY,
+  CabinClass.PREMIUM_ECONOMY,
+  CabinClass.BUSINESS,
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FareCalendarParams {
+  source: string;
+  destination: string;
+  month: string; // YYYY-MM
+  passengers?: number;
+  cabinClass?: CabinClass;
+}
+
+export interface FareCalendarDay {
+  date: string; // YYYY-MM-DD
+  lowestFare: number | null;
+  cabinClass?: CabinClass;
+  scheduleId?: string;
+  options: number; // Schedules with seats that day
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse YYYY-MM into the first and last instant of the month
+ */
+export const getMonthRange = (month: string): { start: Date; end: Date } => {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) {
+    throw new Error('Month must be in YYYY-MM format');
+  }
+
+  const year = parseInt(match[1]);
+  const monthIndex = parseInt(match[2]) - 1;
+  if (monthIndex < 0 || monthIndex > 11) {
+    throw new Error('Month must be in YYYY-MM format');
+  }
+
+  return {
+    start: new Date(year, monthIndex, 1, 0, 0, 0, 0),
+    end: new Date(year, monthIndex + 1, 0, 23, 59, 59, 999),
+  };
+};
+
+/**
+ * One empty entry per day of the month
+ */
+const buildEmptyCalendar = (start: Date, end: Date): Map<string, FareCalendarDay> => {
+  const days = new Map<string, FareCalendarDay>();
+  for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+    const date = formatDateKey(day);
+    days.set(date, { date, lowestFare: null, options: 0 });
+  }
+  return days;
+};
+
+const recordFare = (
+  days: Map<string, FareCalendarDay>,
+  scheduleDate: Date,
+  fare: number,
+  scheduleId: string,
+  cabinClass?: CabinClass
+) => {
+  const day = days.get(formatDateKey(scheduleDate));
+  if (!day) {
+    return;
+  }
+
+  day.options++;
+  if (day.lowestFare === null || fare < day.lowestFare) {
+    day.lowestFare = fare;
+    day.scheduleId = scheduleId;
+    if (cabinClass) {
+      day.cabinClass = cabinClass;
+    }
+  }
+};
+
+const cacheKey = (category: 'BUS' | 'FLIGHT', params: FareCalendarParams): string =>
+  [
+    category,
+    params.source.toLowerCase(),
+    params.destination.toLowerCase(),
+    params.month,
+    params.passengers || 1,
+    params.cabinClass || 'ANY',
+  ].join(':');
+
+// ============================================================================
+// FARE CALENDARS
+// ============================================================================
+
+/**
+ * Lowest available flight fare per day
+ */
+export const getFlightFareCalendar = async (params: FareCalendarParams): Promise<FareCalendarDay[]> => {
+  const key = cacheKey('FLIGHT', params);
+  const cached = getCached<FareCalendarDay[]>(CACHE_NAMESPACES.FARE_CALENDAR, key);
+  if (cached) {
+    return cached;
+  }
+
+  const { start, end } = getMonthRange(params.month);
+  const passengers = params.passengers || 1;
+  const cabins = params.cabinClass ? [params.cabinClass] : DEFAULT_CALENDAR_CABINS;
+
+  const schedules = await prisma.flightSchedule.findMany({
+    where: {
+      scheduleDate: { gte: start, lte: end },
+      status: ScheduleStatus.ACTIVE,
+      flight: {
+        source: { equals: params.source, mode: 'insensitive' },
+        destination: { equals: params.destination, mode: 'insensitive' },
+        isActive: true,
+      },
+    },
+    include: {
+      flight: { include: { partner: true } },
+    },
+  });
+  const pricingEnv = await loadPricingEnvironment(BookingCategory.AIRLINE);
+
+  const days = buildEmptyCalendar(start, end);
+
+  for (const schedule of schedules) {
+    for (const cabinClass of cabins) {
+      const baseFare = Number(schedule[getCabinFields(cabinClass).fare]);
+      if (baseFare > 0 && getCabinAvailableSeats(schedule, cabinClass) >= passengers) {
+        const fare = quoteFlightFare(pricingEnv, schedule, cabinClass).fare;
+        recordFare(days, schedule.scheduleDate, fare, schedule.id, cabinClass);
+      }
+    }
+  }
+
+  const calendar = Array.from(days.values());
+  setCached(CACHE_NAMESPACES.FARE_CALENDAR, key, calendar, FARE_CALENDAR_CACHE_TTL_SECONDS);
+
+  return calendar;
+};
+
+/**
+ * Lowest available bus fare per day
+ */
+export const getBusFareCalendar = async (params: FareCalendarParams): Promise<FareCalendarDay[]> => {
+  const key = cacheKey('BUS', params);
+  const cached = getCached<FareCalendarDay[]>(CACHE_NAMESPACES.FARE_CALENDAR, key);
+  if (cached) {
+    return cached;
+  }
+
+  const { start, end } = getMonthRange(params.month);
+
+  const schedules = await prisma.busSchedule.findMany({
+    where: {
+      scheduleDate: { gte: start, lte: end },
+      status: ScheduleStatus.ACTIVE,
+      availableSeats: { gte: params.passengers || 1 },
+      route: {
+        source: { contains: params.source, mode: 'insensitive' },
+        destination: { contains: params.destination, mode: 'insensitive' },
+        isActive: true,
+      },
+    },
+    include: {
+      route: { include: { partner: true } },
+    },
+  });
+  const pricingEnv = await loadPricingEnvironment(BookingCategory.BUS);
+
+  const days = buildEmptyCalendar(start, end);
+
+  for (const schedule of schedules) {
+    recordFare(days, schedule.scheduleDate, quoteBusFare(pricingEnv, schedule).fare, schedule.id);
+  }
+
+  const calendar = Array.from(days.values());
+  setCached(CACHE_NAMESPACES.FARE_CALENDAR, key, calendar, FARE_CALENDAR_CACHE_TTL_SECONDS);
+
+  return calendar;
+};
\ No newline at end of file
@@ -0,0 +1,352 @@
+/**
+ * FARE LOCK SERVICE
+ * Paid price freeze on bus and flight schedules
+ *
+ * Features:
+ * - Freeze the current dynamic fare for 24-72 hours
+ * - Inventory held through the seat hold quota (partner holdQuotaPercentage)
+ * - Lock fee paid by wallet or Razorpay, credited against the final booking
+ * - Fee forfeited on expiry; the hold expiry cron releases the seats
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  CabinClass,
+  FareLock,
+  FareLockStatus,
+  Prisma,
+  ScheduleStatus,
+} from '@prisma/client';
+import { holdSeats, releaseHold, extendHold, getCabinAvailableSeats, getCabinFields } from './holdQuota.service';
+import { loadPricingEnvironment, quoteBusFare, quoteFlightFare, FareQuote } from './dynamicPricing.service';
+import { combineDateAndTime } from '../utils/date';
+import { logger } from '../utils/logger';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MIN_LOCK_HOURS = 24;
+const MAX_LOCK_HOURS = 72;
+
+// Fee per day of lock, as a percentage of the locked fare
+const FARE_LOCK_FEE_PERCENTAGE_PER_DAY = parseFloat(
+  process.env.FARE_LOCK_FEE_PERCENTAGE_PER_DAY || '2'
+);
+const FARE_LOCK_MIN_FEE = parseFloat(process.env.FARE_LOCK_MIN_FEE || '99');
+
+// Time to pay the lock fee before the hold is released
+const FARE_LOCK_PAYMENT_MINUTES = 10;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateFareLockParams {
+  category: BookingCategory;
+  busScheduleId?: string;
+  flightScheduleId?: string;
+  cabinClass?: CabinClass;
+  seatNumbers?: string[]; // Bus
+  seatCount?: number; // Flight
+  durationHours: number;
+}
+
+export interface FareLockPayment {
+  paymentMethod: string;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+}
+
+// ============================================================================
+// FEES
+// ============================================================================
+
+/**
+ * Lock fee for freezing a fare
+ */
+export const calculateFareLockFee = (fare: number, seats: number, durationHours: number): number => {
+  const days = durationHours / 24;
+  const fee = (fare * seats * FARE_LOCK_FEE_PERCENTAGE_PER_DAY * days) / 100;
+  return Math.round(Math.max(fee, FARE_LOCK_MIN_FEE) * 100) / 100;
+};
+
+// ============================================================================
+// LOCK LIFECYCLE
+// ============================================================================
+
+/**
+ * Quote the current fare and hold the seats until the lock fee is paid
+ */
+export const createFareLock = async (
+  userId: string,
+  params: CreateFareLockParams
+): Promise<FareLock> => {
+  const { category, durationHours } = params;
+
+  if (!Number.isInteger(durationHours) || durationHours < MIN_LOCK_HOURS || durationHours > MAX_LOCK_HOURS) {
+    throw new Error(`Fares can be locked for ${MIN_LOCK_HOURS} to ${MAX_LOCK_HOURS} hours`);
+  }
+
+  let scheduleId: string;
+  let seatNumbers: string[] = [];
+  let seatCount: number;
+  let cabinClass: CabinClass | undefined;
+  let quote: FareQuote;
+  let departure: Date;
+
+  if (category === BookingCategory.BUS) {
+    if (!params.busScheduleId) {
+      throw new Error('Bus schedule ID is required');
+    }
+
+    seatNumbers = params.seatNumbers || [];
+    if (seatNumbers.length === 0) {
+      throw new Error('Select the seats to lock');
+    }
+
+    const schedule = await prisma.busSchedule.findUnique({
+      where: { id: params.busScheduleId },
+      include: { route: { include: { partner: true } } },
+    });
+
+    if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new Error('Bus schedule not available');
+    }
+
+    scheduleId = schedule.id;
+    seatCount = seatNumbers.length;
+    quote = quoteBusFare(await loadPricingEnvironment(BookingCategory.BUS), schedule);
+    departure = combineDateAndTime(schedule.scheduleDate, schedule.route.departureTime);
+  } else if (category === BookingCategory.AIRLINE) {
+    if (!params.flightScheduleId) {
+      throw new Error('Flight schedule ID is required');
+    }
+
+    seatCount = params.seatCount || 0;
+    if (seatCount < 1) {
+      throw new Error('Seat count is required');
+    }
+
+    const schedule = await prisma.flightSchedule.findUnique({
+      where: { id: params.flightScheduleId },
+      include: { flight: { include: { partner: true } } },
+    });
+
+    if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new Error('Flight schedule not available');
+    }
+
+    cabinClass = params.cabinClass || CabinClass.ECONOMY;
+    if (!Number(schedule[getCabinFields(cabinClass).fare]) || getCabinAvailableSeats(schedule, cabinClass) < seatCount) {
+      throw new Error('Not enough seats available in selected cabin class');
+    }
+
+    scheduleId = schedule.id;
+    quote = quoteFlightFare(await loadPricingEnvironment(BookingCategory.AIRLINE), schedule, cabinClass);
+    departure = combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime);
+  } else {
+    throw new Error('Fare lock is available for buses and flights only');
+  }
+
+  const lockExpiry = new Date(Date.now() + durationHours * 60 * 60 * 1000);
+  if (lockExpiry >= departure) {
+    throw new Error('Fare lock must expire before departure');
+  }
+
+  // Held seats count against the partner's hold quota
+  const hold = await holdSeats({
+    scheduleId,
+    seatNumbers,
+    seatCount,
+    cabinClass,
+    heldBy: userId,
+    category: category === BookingCategory.BUS ? 'BUS' : 'FLIGHT',
+    holdExpiryMinutes: FARE_LOCK_PAYMENT_MINUTES,
+  });
+
+  if (!hold.success) {
+    throw new Error(hold.message);
+  }
+
+  const lock = await prisma.fareLock.create({
+    data: {
+      userId,
+      category,
+      busScheduleId: params.busScheduleId,
+      flightScheduleId: params.flightScheduleId,
+      cabinClass,
+      seatCount,
+      seatNumbers,
+      holdId: hold.holdId,
+      lockedFare: quote.fare,
+      fareSnapshot: { scheduleId, ...(cabinClass && { cabinClass }), ...quote } as unknown as Prisma.InputJsonObject,
+      lockFee: calculateFareLockFee(quote.fare, seatCount, durationHours),
+      durationHours,
+      expiresAt: hold.holdExpiry,
+    },
+  });
+
+  logger.info(`Fare lock created: ${lock.id} at ${quote.fare} x ${seatCount} for ${durationHours}h`);
+
+  return lock;
+};
+
+const holdCategory = (lock: FareLock): 'BUS' | 'FLIGHT' =>
+  lock.category === BookingCategory.BUS ? 'BUS' : 'FLIGHT';
+
+/**
+ * Start the lock once its fee is paid
+ * The lock duration runs from payment; the seat hold is extended to match.
+ */
+export const activateFareLock = async (
+  tx: DbClient,
+  lockId: string,
+  payment: FareLockPayment
+): Promise<FareLock> => {
+  const lock = await tx.fareLock.findUnique({
+    where: { id: lockId },
+  });
+
+  if (!lock || lock.status !== FareLockStatus.PENDING_PAYMENT) {
+    throw new Error('Fare lock is not awaiting payment');
+  }
+
+  if (lock.expiresAt < new Date() || !lock.holdId) {
+    throw new Error('Fare lock payment window has expired');
+  }
+
+  const expiresAt = new Date(Date.now() + lock.durationHours * 60 * 60 * 1000);
+  await extendHold(tx, lock.holdId, expiresAt, holdCategory(lock));
+
+  const activated = await tx.fareLock.update({
+    where: { id: lockId },
+    data: {
+      status: FareLockStatus.ACTIVE,
+      expiresAt,
+      paymentMethod: payment.paymentMethod,
+      razorpayOrderId: payment.razorpayOrderId,
+      razorpayPaymentId: payment.razorpayPaymentId,
+      paidAt: new Date(),
+    },
+  });
+
+  logger.info(`Fare lock activated: ${lockId} until ${expiresAt.toISOString()}`);
+
+  return activated;
+};
+
+/**
+ * Cancel a fare lock and release its seats
+ * A paid lock fee is not refunded.
+ */
+export const cancelFareLock = async (userId: string, lockId: string): Promise<FareLock> => {
+  const lock = await prisma.fareLock.findFirst({
+    where: { id: lockId, userId },
+  });
+
+  if (!lock) {
+    throw new Error('Fare lock not found');
+  }
+
+  if (lock.status !== FareLockStatus.PENDING_PAYMENT && lock.status !== FareLockStatus.ACTIVE) {
+    throw new Error(`Fare lock is already ${lock.status.toLowerCase()}`);
+  }
+
+  if (lock.holdId) {
+    await releaseHold(lock.holdId, 'USER_CANCELLED', holdCategory(lock));
+  }
+
+  const cancelled = await prisma.fareLock.update({
+    where: { id: lockId },
+    data: { status: FareLockStatus.CANCELLED },
+  });
+
+  logger.info(`Fare lock cancelled: ${lockId}`);
+
+  return cancelled;
+};
+
+// ============================================================================
+// BOOKING REDEMPTION
+// ============================================================================
+
+/**
+ * Load an active lock for the booking being created
+ * The booking must be for the same schedule, cabin and number of seats.
+ */
+export const getRedeemableFareLock = async (
+  tx: DbClient,
+  userId: string,
+  lockId: string,
+  booking: { category: BookingCategory; scheduleId: string; cabinClass?: string; passengers: number }
+): Promise<FareLock> => {
+  const lock = await tx.fareLock.findFirst({
+    where: { id: lockId, userId },
+  });
+
+  if (!lock) {
+    throw new Error('Fare lock not found');
+  }
+
+  if (lock.status !== FareLockStatus.ACTIVE || lock.expiresAt < new Date()) {
+    throw new Error('Fare lock is not active');
+  }
+
+  const lockedScheduleId = lock.busScheduleId || lock.flightScheduleId;
+  if (lock.category !== booking.category || lockedScheduleId !== booking.scheduleId) {
+    throw new Error('Fare lock is for a different schedule');
+  }
+
+  if (lock.cabinClass && lock.cabinClass !== (booking.cabinClass || CabinClass.ECONOMY)) {
+    throw new Error('Fare lock is for a different cabin class');
+  }
+
+  if (lock.seatCount !== booking.passengers) {
+    throw new Error(`Fare lock is for ${lock.seatCount} passenger(s)`);
+  }
+
+  return lock;
+};
+
+/**
+ * Mark a lock as used by a booking
+ * The lock's hold becomes the booking's hold, expiring with the booking's
+ * payment window, and is converted on confirmation. Claimed conditionally so
+ * two concurrent bookings cannot both redeem the lock.
+ */
+export const redeemFareLock = async (
+  tx: DbClient,
+  lock: FareLock,
+  bookingId: string,
+  holdExpiry: Date
+): Promise<void> => {
+  const { count } = await tx.fareLock.updateMany({
+    where: { id: lock.id, status: FareLockStatus.ACTIVE, bookingId: null },
+    data: {
+      status: FareLockStatus.USED,
+      bookingId,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error('Fare lock is not active');
+  }
+
+  // Holds are converted by booking ID
+  if (lock.holdId) {
+    const where = { id: lock.holdId };
+    if (lock.category === BookingCategory.AIRLINE) {
+      await tx.flightSeatHold.update({ where, data: { bookingId } });
+    } else {
+      await tx.seatHold.update({ where, data: { bookingId } });
+    }
+
+    await extendHold(tx, lock.holdId, holdExpiry, holdCategory(lock));
+  }
+
+  logger.info(`Fare lock ${lock.id} redeemed on booking ${bookingId}`);
+};
\ No newline at end of file
@@ -0,0 +1,222 @@
+/**
+ * FLIGHT CONNECTION SERVICE
+ * One- and two-stop journeys stitched from flight schedules
+ *
+ * Features:
+ * - Connections only through hub airports
+ * - Per-airport minimum connection time and a maximum layover
+ * - Availability checked on every leg for the chosen cabin class
+ * - Whole-journey pricing at current sell fares
+ */
+
+import { prisma } from '../server';
+import { BookingCategory, CabinClass, ScheduleStatus } from '@prisma/client';
+import { getCabinAvailableSeats, getCabinFields } from './holdQuota.service';
+import { loadPricingEnvironment, quoteFlightFare } from './dynamicPricing.service';
+import { combineDateAndTime } from '../utils/date';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_MIN_CONNECTION_MINUTES = parseInt(
+  process.env.DEFAULT_MIN_CONNECTION_MINUTES || '60'
+);
+const DEFAULT_MAX_LAYOVER_MINUTES = parseInt(
+  process.env.DEFAULT_MAX_LAYOVER_MINUTES || '480'
+);
+const MAX_STOPS = 2;
+const MAX_RESULTS = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConnectionSearchParams {
+  source: string;
+  destination: string;
+  departureDate: Date;
+  passengers: number;
+  cabinClass?: CabinClass;
+  maxStops?: number;
+  maxLayoverMinutes?: number;
+}
+
+export interface ConnectionLeg {
+  scheduleId: string;
+  flightId: string;
+  flightNumber: string;
+  airlineCode: string;
+  airlineName: string;
+  source: string;
+  destination: string;
+  departureAt: Date;
+  arrivalAt: Date;
+  durationMinutes: number;
+  fare: number;
+  availableSeats: number;
+}
+
+export interface ConnectionItinerary {
+  stops: number;
+  legs: ConnectionLeg[];
+  layovers: Array<{ airport: string; minutes: number }>;
+  departureAt: Date;
+  arrivalAt: Date;
+  totalDurationMinutes: number;
+  farePerPassenger: number;
+  totalFare: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const minutesBetween = (from: Date, to: Date): number =>
+  Math.round((to.getTime() - from.getTime()) / (1000 * 60));
+
+/**
+ * Load bookable legs departing within the search window
+ */
+const loadLegs = async (
+  from: Date,
+  to: Date,
+  passengers: number,
+  cabinClass: CabinClass
+): Promise<ConnectionLeg[]> => {
+  const schedules = await prisma.flightSchedule.findMany({
+    where: {
+      scheduleDate: { gte: from, lte: to },
+      status: ScheduleStatus.ACTIVE,
+      flight: { isActive: true },
+    },
+    include: {
+      flight: { include: { partner: true } },
+    },
+  });
+
+  const fareField = getCabinFields(cabinClass).fare;
+  const pricingEnv = await loadPricingEnvironment(BookingCategory.AIRLINE);
+
+  return schedules
+    .filter((schedule) => Number(schedule[fareField]) > 0)
+    .filter((schedule) => getCabinAvailableSeats(schedule, cabinClass) >= passengers)
+    .map((schedule) => {
+      const flight = schedule.flight;
+      const departureAt = combineDateAndTime(schedule.scheduleDate, flight.departureTime);
+
+      return {
+        scheduleId: schedule.id,
+        flightId: flight.id,
+        flightNumber: flight.flightNumber,
+        airlineCode: flight.airlineCode,
+        airlineName: flight.airlineName,
+        source: flight.source.toUpperCase(),
+        destination: flight.destination.toUpperCase(),
+        departureAt,
+        arrivalAt: new Date(departureAt.getTime() + flight.durationMinutes * 60 * 1000),
+        durationMinutes: flight.durationMinutes,
+        fare: quoteFlightFare(pricingEnv, schedule, cabinClass).fare,
+        availableSeats: getCabinAvailableSeats(schedule, cabinClass),
+      };
+    });
+};
+
+// ============================================================================
+// CONNECTION SEARCH
+// ============================================================================
+
+/**
+ * Search one- and two-stop connections between two airports
+ * If no airport is flagged as a hub, any airport may be used to connect.
+ */
+export const searchConnections = async (
+  params: ConnectionSearchParams
+): Promise<ConnectionItinerary[]> => {
+  const source = params.source.toUpperCase();
+  const destination = params.destination.toUpperCase();
+  const cabinClass = params.cabinClass || CabinClass.ECONOMY;
+  const maxStops = Math.min(Math.max(params.maxStops ?? 1, 1), MAX_STOPS);
+  const maxLayoverMinutes = params.maxLayoverMinutes ?? DEFAULT_MAX_LAYOVER_MINUTES;
+
+  const startOfDay = new Date(params.departureDate);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(params.departureDate);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  // Later legs may depart up to maxLayover after the previous one lands
+  const windowEnd = new Date(endOfDay);
+  windowEnd.setDate(windowEnd.getDate() + maxStops);
+
+  const [legs, airports] = await Promise.all([
+    loadLegs(startOfDay, windowEnd, params.passengers, cabinClass),
+    prisma.airport.findMany(),
+  ]);
+
+  const minConnection = new Map(airports.map((a) => [a.code.toUpperCase(), a.minConnectionMinutes]));
+  const hubs = new Set(airports.filter((a) => a.isHub).map((a) => a.code.toUpperCase()));
+  const canConnectAt = (airport: string) => hubs.size === 0 || hubs.has(airport);
+
+  const legsFrom = new Map<string, ConnectionLeg[]>();
+  for (const leg of legs) {
+    legsFrom.set(leg.source, [...(legsFrom.get(leg.source) || []), leg]);
+  }
+
+  const itineraries: ConnectionItinerary[] = [];
+
+  const extend = (path: ConnectionLeg[]) => {
+    const last = path[path.length - 1];
+
+    if (last.destination === destination) {
+      if (path.length > 1) {
+        itineraries.push(buildItinerary(path, params.passengers));
+      }
+      return;
+    }
+
+    if (path.length > maxStops || !canConnectAt(last.destination)) {
+      return;
+    }
+
+    const visited = new Set(path.map((leg) => leg.source));
+    const mct = minConnection.get(last.destination) ?? DEFAULT_MIN_CONNECTION_MINUTES;
+
+    for (const next of legsFrom.get(last.destination) || []) {
+      const layover = minutesBetween(last.arrivalAt, next.departureAt);
+      if (layover < mct || layover > maxLayoverMinutes || visited.has(next.destination)) {
+        continue;
+      }
+      extend([...path, next]);
+    }
+  };
+
+  for (const first of legsFrom.get(source) || []) {
+    if (first.departureAt >= startOfDay && first.departureAt <= endOfDay) {
+      extend([first]);
+    }
+  }
+
+  return itineraries
+    .sort((a, b) => a.totalFare - b.totalFare || a.totalDurationMinutes - b.totalDurationMinutes)
+    .slice(0, MAX_RESULTS);
+};
+
+const buildItinerary = (legs: ConnectionLeg[], passengers: number): ConnectionItinerary => {
+  const farePerPassenger = legs.reduce((sum, leg) => sum + leg.fare, 0);
+  const departureAt = legs[0].departureAt;
+  const arrivalAt = legs[legs.length - 1].arrivalAt;
+
+  return {
+    stops: legs.length - 1,
+    legs,
+    layovers: legs.slice(1).map((leg, index) => ({
+      airport: leg.source,
+      minutes: minutesBetween(legs[index].arrivalAt, leg.departureAt),
+    })),
+    departureAt,
+    arrivalAt,
+    totalDurationMinutes: minutesBetween(departureAt, arrivalAt),
+    farePerPassenger,
+    totalFare: farePerPassenger * passengers,
+  };
+};
\ No newline at end of file
@@ -3,27 +3,64 @@
  * Core business logic for the 25% seat hold quota system
  * 
  * Features:
- * - Hold seats temporarily (default 30 minutes)
+ * - Hold seats temporarily (default expiry from the HOLD policy)
  * - Auto-release expired holds via cron job
  * - Enforce 25% quota limit per schedule
  * - Convert holds to bookings
+ * - Hotel room holds with the same expiry / release / convert lifecycle
+ * - Fare locks and unpaid reschedules expire together with the seats they hold
  */
 
 import { prisma } from '../server';
-import { HoldStatus, ScheduleStatus } from '@prisma/client';
+import {
+  BookingCategory,
+  CabinClass,
+  FareLockStatus,
+  HoldStatus,
+  Prisma,
+  RescheduleStatus,
+  ScheduleStatus,
+} from '@prisma/client';
+import { DEFAULT_POLICY_RULES, evaluatePolicy } from './policy.service';
+import { releaseExpiredWalletHolds } from './wallet.service';
 import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
 import cron from 'node-cron';
 
 // ============================================================================
-// CONFIGURATION
+// FLIGHT CABIN COUNTERS
 // ============================================================================
 
-const DEFAULT_HOLD_EXPIRY_MINUTES = parseInt(
-  process.env.DEFAULT_HOLD_EXPIRY_MINUTES || '30'
-);
-const DEFAULT_HOLD_QUOTA_PERCENTAGE = parseFloat(
-  process.env.DEFAULT_HOLD_QUOTA_PERCENTAGE || '25'
-);
+export interface CabinFields {
+  seats: 'economySeats' | 'premiumSeats' | 'businessSeats' | 'firstSeats';
+  booked: 'economyBooked' | 'premiumBooked' | 'businessBooked' | 'firstBooked';
+  held: 'economyHeld' | 'premiumHeld' | 'businessHeld' | 'firstHeld';
+  fare: 'economyFare' | 'premiumFare' | 'businessFare' | 'firstFare';
+}
+
+const CABIN_FIELDS: Record<CabinClass, CabinFields> = {
+  ECONOMY: { seats: 'economySeats', booked: 'economyBooked', held: 'economyHeld', fare: 'economyFare' },
+  PREMIUM_ECONOMY: { seats: 'premiumSeats', booked: 'premiumBooked', held: 'premiumHeld', fare: 'premiumFare' },
+  BUSINESS: { seats: 'businessSeats', booked: 'businessBooked', held: 'businessHeld', fare: 'businessFare' },
+  FIRST: { seats: 'firstSeats', booked: 'firstBooked', held: 'firstHeld', fare: 'firstFare' },
+};
+
+/**
+ * FlightSchedule column names for a cabin class
+ */
+export const getCabinFields = (cabinClass?: CabinClass | string | null): CabinFields =>
+  CABIN_FIELDS[(cabinClass as CabinClass) || CabinClass.ECONOMY] || CABIN_FIELDS.ECONOMY;
+
+/**
+ * Seats still open for sale in a cabin (not booked and not held)
+ */
+export const getCabinAvailableSeats = (
+  schedule: Record<CabinFields['seats'] | CabinFields['booked'] | CabinFields['held'], number>,
+  cabinClass?: CabinClass | string | null
+): number => {
+  const fields = getCabinFields(cabinClass);
+  return schedule[fields.seats] - schedule[fields.booked] - schedule[fields.held];
+};
 
 // ============================================================================
 // HOLD QUOTA CALCULATIONS
@@ -32,11 +69,11 @@ const DEFAULT_HOLD_QUOTA_PERCENTAGE = parseFloat(
 /**
  * Calculate maximum allowed holds for a schedule
  * @param totalSeats - Total seats in the schedule
- * @param holdQuotaPercentage - Percentage allowed for holds (default 25%)
+ * @param holdQuotaPercentage - Percentage allowed for holds (default from the HOLD policy defaults)
  */
 export const calculateMaxHolds = (
   totalSeats: number,
-  holdQuotaPercentage: number = DEFAULT_HOLD_QUOTA_PERCENTAGE
+  holdQuotaPercentage: number = DEFAULT_POLICY_RULES.HOLD.quotaPercentage
 ): number => {
   return Math.floor((totalSeats * holdQuotaPercentage) / 100);
 };
@@ -47,14 +84,16 @@ export const calculateMaxHolds = (
 export const isHoldQuotaAvailable = async (
   scheduleId: string,
   requestedSeats: number,
-  category: 'BUS' | 'FLIGHT'
+  category: 'BUS' | 'FLIGHT',
+  cabinClass: CabinClass = CabinClass.ECONOMY,
+  db: Prisma.TransactionClient = prisma
 ): Promise<{ available: boolean; maxAllowed: number; currentHeld: number }> => {
   let schedule: any;
   let currentHeld = 0;
   let totalSeats = 0;
 
   if (category === 'BUS') {
-    schedule = await prisma.busSchedule.findUnique({
+    schedule = await db.busSchedule.findUnique({
       where: { id: scheduleId },
       include: {
         route: {
@@ -73,7 +112,7 @@ export const isHoldQuotaAvailable = async (
     currentHeld = schedule.heldSeats;
   } else {
     // Flight schedule
-    schedule = await prisma.flightSchedule.findUnique({
+    schedule = await db.flightSchedule.findUnique({
       where: { id: scheduleId },
       include: {
         flight: {
@@ -88,9 +127,10 @@ export const isHoldQuotaAvailable = async (
       throw new Error('Flight schedule not found');
     }
 
-    // For flights, we need to check specific cabin class
-    totalSeats = schedule.economySeats; // Default to economy
-    currentHeld = schedule.economyBooked; // This should be tracked per class
+    // Quota is tracked per cabin class
+    const fields = getCabinFields(cabinClass);
+    totalSeats = schedule[fields.seats];
+    currentHeld = schedule[fields.held];
   }
 
   // Check if hold quota is enabled for this partner
@@ -99,7 +139,7 @@ export const isHoldQuotaAvailable = async (
     return { available: false, maxAllowed: 0, currentHeld: 0 };
   }
 
-  const holdQuotaPercentage = partner.holdQuotaPercentage || DEFAULT_HOLD_QUOTA_PERCENTAGE;
+  const holdQuotaPercentage = partner.holdQuotaPercentage || DEFAULT_POLICY_RULES.HOLD.quotaPercentage;
   const maxAllowed = calculateMaxHolds(totalSeats, Number(holdQuotaPercentage));
 
   return {
@@ -119,6 +159,9 @@ export interface HoldSeatsParams {
   heldBy: string; // User ID or session ID
   category: 'BUS' | 'FLIGHT';
   holdExpiryMinutes?: number;
+  cabinClass?: CabinClass; // Flights only
+  seatCount?: number; // Flights only, when no seats are assigned
+  bookingId?: string;
 }
 
 export interface HoldResult {
@@ -131,19 +174,26 @@ export interface HoldResult {
 
 /**
  * Hold seats for a user
+ * Pass the caller's transaction to tie the hold to a booking being created, so
+ * the seats are given back if that booking rolls back.
  */
-export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> => {
+export const holdSeats = async (
+  params: HoldSeatsParams,
+  db?: Prisma.TransactionClient
+): Promise<HoldResult> => {
   const {
     scheduleId,
     seatNumbers,
     heldBy,
     category,
-    holdExpiryMinutes = DEFAULT_HOLD_EXPIRY_MINUTES,
+    cabinClass = CabinClass.ECONOMY,
+    bookingId,
   } = params;
+  const seatCount = Math.max(params.seatCount || 0, seatNumbers.length);
 
   try {
     // Check if hold quota is available
-    const quotaCheck = await isHoldQuotaAvailable(scheduleId, seatNumbers.length, category);
+    const quotaCheck = await isHoldQuotaAvailable(scheduleId, seatCount, category, cabinClass, db);
     
     if (!quotaCheck.available) {
       return {
@@ -155,11 +205,20 @@ export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> =>
     }
 
     // Calculate hold expiry time
+    const holdExpiryMinutes =
+      params.holdExpiryMinutes ??
+      (
+        await evaluatePolicy(
+          'HOLD',
+          { bookingCategory: category === 'BUS' ? BookingCategory.BUS : BookingCategory.AIRLINE },
+          db
+        )
+      ).rules.expiryMinutes;
     const holdExpiry = new Date();
     holdExpiry.setMinutes(holdExpiry.getMinutes() + holdExpiryMinutes);
 
     // Use transaction to ensure atomicity
-    const result = await prisma.$transaction(async (tx) => {
+    const placeHold = async (tx: Prisma.TransactionClient) => {
       if (category === 'BUS') {
         // Check if seats are available
         const schedule = await tx.busSchedule.findUnique({
@@ -184,9 +243,9 @@ export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> =>
           newSeatStatus[seat] = 'HELD';
         }
 
-        // Update schedule
-        await tx.busSchedule.update({
-          where: { id: scheduleId },
+        // Compare-and-swap on updatedAt: a concurrent checkout may have taken the seats
+        const { count } = await tx.busSchedule.updateMany({
+          where: { id: scheduleId, updatedAt: schedule.updatedAt },
           data: {
             seatStatus: newSeatStatus,
             heldSeats: { increment: seatNumbers.length },
@@ -194,12 +253,17 @@ export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> =>
           },
         });
 
+        if (count === 0) {
+          throw new Error('Seat availability changed, please try again');
+        }
+
         // Create hold record
         const hold = await tx.seatHold.create({
           data: {
             scheduleId,
             seatNumbers,
             heldBy,
+            bookingId,
             holdExpiry,
             status: HoldStatus.ACTIVE,
           },
@@ -208,11 +272,69 @@ export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> =>
         return hold;
       }
 
-      // TODO: Implement flight seat hold logic
-      throw new Error('Flight seat hold not implemented yet');
-    });
+      // Flight: hold a number of seats in the cabin, optionally specific seats
+      const schedule = await tx.flightSchedule.findUnique({
+        where: { id: scheduleId },
+      });
+
+      if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+        throw new Error('Schedule not available');
+      }
+
+      if (getCabinAvailableSeats(schedule, cabinClass) < seatCount) {
+        throw new Error('Not enough seats available in selected cabin class');
+      }
+
+      const fields = getCabinFields(cabinClass);
+      const seatStatus = schedule.seatStatus as Record<string, string>;
+      for (const seat of seatNumbers) {
+        if (seatStatus[seat]) {
+          throw new Error(`Seat ${seat} is not available`);
+        }
+      }
+
+      const newSeatStatus = { ...seatStatus };
+      for (const seat of seatNumbers) {
+        newSeatStatus[seat] = 'HELD';
+      }
+
+      // Compare-and-swap on updatedAt: a concurrent checkout may have taken the cabin or seats
+      const { count } = await tx.flightSchedule.updateMany({
+        where: { id: scheduleId, updatedAt: schedule.updatedAt },
+        data: {
+          seatStatus: newSeatStatus,
+          [fields.held]: { increment: seatCount },
+        },
+      });
+
+      if (count === 0) {
+        throw new Error('Seat availability changed, please try again');
+      }
+
+      const hold = await tx.flightSeatHold.create({
+        data: {
+          scheduleId,
+          cabinClass,
+          seatCount,
+          seatNumbers,
+          heldBy,
+          bookingId,
+          holdExpiry,
+          status: HoldStatus.ACTIVE,
+        },
+      });
+
+      return hold;
+    };
+
+    const result = db ? await placeHold(db) : await prisma.$transaction(placeHold);
 
-    logger.info(`Seats held: ${seatNumbers.join(', ')} for schedule ${scheduleId}`);
+    logger.info(
+      category === 'BUS'
+        ? `Seats held: ${seatNumbers.join(', ')} for schedule ${scheduleId}`
+        : `${seatCount} ${cabinClass} seat(s) held for flight schedule ${scheduleId}`
+    );
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
 
     return {
       success: true,
@@ -232,15 +354,33 @@ export const holdSeats = async (params: HoldSeatsParams): Promise<HoldResult> =>
   }
 };
 
+/**
+ * Run in the caller's transaction when one is given, otherwise in a new one
+ */
+const withTransaction = <T>(
+  db: Prisma.TransactionClient | undefined,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> => (db ? fn(db) : prisma.$transaction(fn));
+
 /**
  * Release held seats
+ * Pass a transaction client to release atomically with other booking changes.
  */
 export const releaseHold = async (
   holdId: string,
-  reason: 'EXPIRED' | 'USER_CANCELLED' | 'CONVERTED' = 'USER_CANCELLED'
+  reason: 'EXPIRED' | 'USER_CANCELLED' | 'CONVERTED' = 'USER_CANCELLED',
+  category: 'BUS' | 'FLIGHT' | 'HOTEL' = 'BUS',
+  db?: Prisma.TransactionClient
 ): Promise<boolean> => {
+  if (category === 'FLIGHT') {
+    return releaseFlightHold(holdId, reason, db);
+  }
+  if (category === 'HOTEL') {
+    return releaseRoomHold(holdId, reason, db);
+  }
+
   try {
-    const result = await prisma.$transaction(async (tx) => {
+    await withTransaction(db, async (tx) => {
       // Get hold record
       const hold = await tx.seatHold.findUnique({
         where: { id: holdId },
@@ -280,18 +420,17 @@ export const releaseHold = async (
       }
 
       // Update hold record
-      const updatedHold = await tx.seatHold.update({
+      await tx.seatHold.update({
         where: { id: holdId },
         data: {
           status: reason === 'CONVERTED' ? HoldStatus.CONVERTED : HoldStatus.RELEASED,
           releasedAt: new Date(),
         },
       });
-
-      return updatedHold;
     });
 
     logger.info(`Hold released: ${holdId}, reason: ${reason}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
     return true;
   } catch (error) {
     logger.error('Failed to release hold:', error);
@@ -299,15 +438,87 @@ export const releaseHold = async (
   }
 };
 
+/**
+ * Release held flight seats
+ */
+const releaseFlightHold = async (
+  holdId: string,
+  reason: 'EXPIRED' | 'USER_CANCELLED' | 'CONVERTED',
+  db?: Prisma.TransactionClient
+): Promise<boolean> => {
+  try {
+    await withTransaction(db, async (tx) => {
+      const hold = await tx.flightSeatHold.findUnique({
+        where: { id: holdId },
+        include: {
+          schedule: true,
+        },
+      });
+
+      if (!hold || hold.status !== HoldStatus.ACTIVE) {
+        throw new Error('Hold not found or already released');
+      }
+
+      // Claim the hold first so a release racing a conversion cannot both apply
+      const claimed = await tx.flightSeatHold.updateMany({
+        where: { id: holdId, status: HoldStatus.ACTIVE },
+        data: {
+          status: reason === 'CONVERTED' ? HoldStatus.CONVERTED : HoldStatus.RELEASED,
+          releasedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Hold not found or already released');
+      }
+
+      const fields = getCabinFields(hold.cabinClass);
+      const seatStatus = hold.schedule.seatStatus as Record<string, string>;
+      const newSeatStatus = { ...seatStatus };
+
+      for (const seat of hold.seatNumbers) {
+        if (newSeatStatus[seat] === 'HELD') {
+          delete newSeatStatus[seat];
+        }
+      }
+
+      await tx.flightSchedule.update({
+        where: { id: hold.scheduleId },
+        data: {
+          seatStatus: newSeatStatus,
+          [fields.held]: { decrement: hold.seatCount },
+        },
+      });
+    });
+
+    logger.info(`Flight hold released: ${holdId}, reason: ${reason}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+    return true;
+  } catch (error) {
+    logger.error('Failed to release flight hold:', error);
+    return false;
+  }
+};
+
 /**
  * Convert hold to booking
+ * Pass a transaction client to convert atomically with other booking changes.
  */
 export const convertHoldToBooking = async (
   holdId: string,
-  bookingId: string
+  bookingId: string,
+  category: 'BUS' | 'FLIGHT' | 'HOTEL' = 'BUS',
+  db?: Prisma.TransactionClient
 ): Promise<boolean> => {
+  if (category === 'FLIGHT') {
+    return convertFlightHoldToBooking(holdId, bookingId, db);
+  }
+  if (category === 'HOTEL') {
+    return convertRoomHoldToBooking(holdId, bookingId, db);
+  }
+
   try {
-    await prisma.$transaction(async (tx) => {
+    await withTransaction(db, async (tx) => {
       const hold = await tx.seatHold.findUnique({
         where: { id: holdId },
       });
@@ -350,6 +561,7 @@ export const convertHoldToBooking = async (
     });
 
     logger.info(`Hold converted to booking: ${holdId} -> ${bookingId}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
     return true;
   } catch (error) {
     logger.error('Failed to convert hold to booking:', error);
@@ -357,6 +569,378 @@ export const convertHoldToBooking = async (
   }
 };
 
+/**
+ * Convert flight hold to booking
+ */
+const convertFlightHoldToBooking = async (
+  holdId: string,
+  bookingId: string,
+  db?: Prisma.TransactionClient
+): Promise<boolean> => {
+  try {
+    await withTransaction(db, async (tx) => {
+      const hold = await tx.flightSeatHold.findUnique({
+        where: { id: holdId },
+        include: {
+          schedule: true,
+        },
+      });
+
+      if (!hold || hold.status !== HoldStatus.ACTIVE) {
+        throw new Error('Hold not found or not active');
+      }
+
+      const claimed = await tx.flightSeatHold.updateMany({
+        where: { id: holdId, status: HoldStatus.ACTIVE },
+        data: {
+          status: HoldStatus.CONVERTED,
+          bookingId,
+          releasedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Hold not found or not active');
+      }
+
+      const fields = getCabinFields(hold.cabinClass);
+      const seatStatus = hold.schedule.seatStatus as Record<string, string>;
+      const newSeatStatus = { ...seatStatus };
+
+      for (const seat of hold.seatNumbers) {
+        newSeatStatus[seat] = 'BOOKED';
+      }
+
+      await tx.flightSchedule.update({
+        where: { id: hold.scheduleId },
+        data: {
+          seatStatus: newSeatStatus,
+          [fields.held]: { decrement: hold.seatCount },
+          [fields.booked]: { increment: hold.seatCount },
+        },
+      });
+    });
+
+    logger.info(`Flight hold converted to booking: ${holdId} -> ${bookingId}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+    return true;
+  } catch (error) {
+    logger.error('Failed to convert flight hold to booking:', error);
+    return false;
+  }
+};
+
+/**
+ * Move the expiry of an active seat hold (e.g. a paid fare lock)
+ */
+export const extendHold = async (
+  tx: Prisma.TransactionClient,
+  holdId: string,
+  holdExpiry: Date,
+  category: 'BUS' | 'FLIGHT'
+): Promise<void> => {
+  const where = { id: holdId, status: HoldStatus.ACTIVE };
+  const result =
+    category === 'FLIGHT'
+      ? await tx.flightSeatHold.updateMany({ where, data: { holdExpiry } })
+      : await tx.seatHold.updateMany({ where, data: { holdExpiry } });
+
+  if (result.count === 0) {
+    throw new Error('Hold not found or already released');
+  }
+};
+
+// ============================================================================
+// ROOM HOLD OPERATIONS
+// ============================================================================
+
+export interface HoldRoomParams {
+  roomInventoryIds: string[]; // One inventory row per night
+  heldBy: string; // User ID or session ID
+  rooms?: number;
+  bookingId?: string;
+  holdExpiryMinutes?: number;
+}
+
+/**
+ * Hold rooms for every night of a stay inside the caller's booking transaction
+ * Throws (rolling back the whole stay) if any night is sold out.
+ */
+export const holdRoom = async (tx: Prisma.TransactionClient, params: HoldRoomParams) => {
+  const {
+    roomInventoryIds,
+    heldBy,
+    rooms = 1,
+    bookingId,
+  } = params;
+
+  const holdExpiryMinutes =
+    params.holdExpiryMinutes ??
+    (await evaluatePolicy('HOLD', { bookingCategory: BookingCategory.HOTEL }, tx)).rules.expiryMinutes;
+
+  const holdExpiry = new Date();
+  holdExpiry.setMinutes(holdExpiry.getMinutes() + holdExpiryMinutes);
+
+  // Conditional update so concurrent checkouts cannot oversell the last room
+  const updated = await tx.roomInventory.updateMany({
+    where: {
+      id: { in: roomInventoryIds },
+      isAvailable: true,
+      availableRooms: { gte: rooms },
+    },
+    data: {
+      availableRooms: { decrement: rooms },
+      heldRooms: { increment: rooms },
+    },
+  });
+
+  if (updated.count !== roomInventoryIds.length) {
+    throw new Error('Room not available for selected dates');
+  }
+
+  const hold = await tx.roomHold.create({
+    data: {
+      roomInventoryIds,
+      rooms,
+      heldBy,
+      bookingId,
+      holdExpiry,
+      status: HoldStatus.ACTIVE,
+    },
+  });
+
+  logger.info(
+    `${rooms} room(s) held for ${roomInventoryIds.length} night(s) until ${holdExpiry.toISOString()}`
+  );
+
+  return hold;
+};
+
+/**
+ * Release held rooms back to availability
+ */
+const releaseRoomHold = async (
+  holdId: string,
+  reason: 'EXPIRED' | 'USER_CANCELLED' | 'CONVERTED',
+  db?: Prisma.TransactionClient
+): Promise<boolean> => {
+  try {
+    await withTransaction(db, async (tx) => {
+      const hold = await tx.roomHold.findUnique({
+        where: { id: holdId },
+      });
+
+      if (!hold || hold.status !== HoldStatus.ACTIVE) {
+        throw new Error('Hold not found or already released');
+      }
+
+      // Claim the hold first so a release racing a conversion cannot both apply
+      const claimed = await tx.roomHold.updateMany({
+        where: { id: holdId, status: HoldStatus.ACTIVE },
+        data: {
+          status: reason === 'CONVERTED' ? HoldStatus.CONVERTED : HoldStatus.RELEASED,
+          releasedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Hold not found or already released');
+      }
+
+      await tx.roomInventory.updateMany({
+        where: { id: { in: hold.roomInventoryIds } },
+        data: {
+          heldRooms: { decrement: hold.rooms },
+          availableRooms: { increment: hold.rooms },
+        },
+      });
+    });
+
+    logger.info(`Room hold released: ${holdId}, reason: ${reason}`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to release room hold:', error);
+    return false;
+  }
+};
+
+/**
+ * Convert room hold to booking
+ */
+const convertRoomHoldToBooking = async (
+  holdId: string,
+  bookingId: string,
+  db?: Prisma.TransactionClient
+): Promise<boolean> => {
+  try {
+    await withTransaction(db, async (tx) => {
+      const hold = await tx.roomHold.findUnique({
+        where: { id: holdId },
+      });
+
+      if (!hold || hold.status !== HoldStatus.ACTIVE) {
+        throw new Error('Hold not found or not active');
+      }
+
+      const claimed = await tx.roomHold.updateMany({
+        where: { id: holdId, status: HoldStatus.ACTIVE },
+        data: {
+          status: HoldStatus.CONVERTED,
+          bookingId,
+          releasedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Hold not found or not active');
+      }
+
+      await tx.roomInventory.updateMany({
+        where: { id: { in: hold.roomInventoryIds } },
+        data: {
+          heldRooms: { decrement: hold.rooms },
+          bookedRooms: { increment: hold.rooms },
+        },
+      });
+    });
+
+    logger.info(`Room hold converted to booking: ${holdId} -> ${bookingId}`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to convert room hold to booking:', error);
+    return false;
+  }
+};
+
+// ============================================================================
+// BOOKING WITHOUT A HOLD
+// ============================================================================
+
+/**
+ * Book bus seats straight from availability for a paid booking whose hold
+ * was released before payment arrived
+ * Returns false if any of the seats has been held or sold meanwhile.
+ */
+export const bookBusSeatsWithoutHold = async (
+  tx: Prisma.TransactionClient,
+  params: { scheduleId: string; seatNumbers: string[] }
+): Promise<boolean> => {
+  // Retry a few times if another hold / booking changes the schedule under us
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const schedule = await tx.busSchedule.findUnique({
+      where: { id: params.scheduleId },
+    });
+
+    if (!schedule || schedule.status !== ScheduleStatus.ACTIVE || params.seatNumbers.length === 0) {
+      return false;
+    }
+
+    const seatStatus = schedule.seatStatus as Record<string, string>;
+    if (params.seatNumbers.some((seat) => seatStatus[seat] !== 'AVAILABLE')) {
+      return false;
+    }
+
+    const newSeatStatus = { ...seatStatus };
+    for (const seat of params.seatNumbers) {
+      newSeatStatus[seat] = 'BOOKED';
+    }
+
+    // Compare-and-swap on updatedAt: the availability read above must still hold
+    const { count } = await tx.busSchedule.updateMany({
+      where: { id: params.scheduleId, updatedAt: schedule.updatedAt },
+      data: {
+        seatStatus: newSeatStatus,
+        availableSeats: { decrement: params.seatNumbers.length },
+        bookedSeats: { increment: params.seatNumbers.length },
+      },
+    });
+
+    if (count === 1) {
+      invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Book flight seats straight from availability for a paid booking whose hold
+ * was released before payment arrived
+ * Returns false if the cabin or a requested seat has been sold meanwhile.
+ */
+export const bookFlightSeatsWithoutHold = async (
+  tx: Prisma.TransactionClient,
+  params: { scheduleId: string; cabinClass: CabinClass; seatCount: number; seatNumbers: string[] }
+): Promise<boolean> => {
+  const fields = getCabinFields(params.cabinClass);
+
+  // Retry a few times if another hold / booking changes the schedule under us
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const schedule = await tx.flightSchedule.findUnique({
+      where: { id: params.scheduleId },
+    });
+
+    if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+      return false;
+    }
+
+    const seatStatus = schedule.seatStatus as Record<string, string>;
+    if (
+      getCabinAvailableSeats(schedule, params.cabinClass) < params.seatCount ||
+      params.seatNumbers.some((seat) => seatStatus[seat])
+    ) {
+      return false;
+    }
+
+    const newSeatStatus = { ...seatStatus };
+    for (const seat of params.seatNumbers) {
+      newSeatStatus[seat] = 'BOOKED';
+    }
+
+    // Compare-and-swap on updatedAt: the availability read above must still hold
+    const { count } = await tx.flightSchedule.updateMany({
+      where: { id: params.scheduleId, updatedAt: schedule.updatedAt },
+      data: {
+        seatStatus: newSeatStatus,
+        [fields.booked]: { increment: params.seatCount },
+      },
+    });
+
+    if (count === 1) {
+      invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Book rooms straight from availability for a paid stay whose hold was
+ * released before payment arrived
+ * Returns false if any night is sold out; the caller must roll back its
+ * transaction then, as nights that were still free have been taken.
+ */
+export const bookRoomsWithoutHold = async (
+  tx: Prisma.TransactionClient,
+  params: { roomInventoryIds: string[]; rooms: number }
+): Promise<boolean> => {
+  const { count } = await tx.roomInventory.updateMany({
+    where: {
+      id: { in: params.roomInventoryIds },
+      isAvailable: true,
+      availableRooms: { gte: params.rooms },
+    },
+    data: {
+      availableRooms: { decrement: params.rooms },
+      bookedRooms: { increment: params.rooms },
+    },
+  });
+
+  return count === params.roomInventoryIds.length;
+};
+
 // ============================================================================
 // CRON JOB - AUTO RELEASE EXPIRED HOLDS
 // ============================================================================
@@ -374,6 +958,20 @@ export const releaseExpiredHolds = async (): Promise<number> => {
       },
     });
 
+    const expiredFlightHolds = await prisma.flightSeatHold.findMany({
+      where: {
+        status: HoldStatus.ACTIVE,
+        holdExpiry: { lt: new Date() },
+      },
+    });
+
+    const expiredRoomHolds = await prisma.roomHold.findMany({
+      where: {
+        status: HoldStatus.ACTIVE,
+        holdExpiry: { lt: new Date() },
+      },
+    });
+
     let releasedCount = 0;
 
     for (const hold of expiredHolds) {
@@ -383,10 +981,53 @@ export const releaseExpiredHolds = async (): Promise<number> => {
       }
     }
 
+    for (const hold of expiredFlightHolds) {
+      const success = await releaseHold(hold.id, 'EXPIRED', 'FLIGHT');
+      if (success) {
+        releasedCount++;
+      }
+    }
+
+    for (const hold of expiredRoomHolds) {
+      const success = await releaseHold(hold.id, 'EXPIRED', 'HOTEL');
+      if (success) {
+        releasedCount++;
+      }
+    }
+
     if (releasedCount > 0) {
       logger.info(`Released ${releasedCount} expired holds`);
     }
 
+    // Fare locks expire with their hold; the lock fee is forfeited
+    const expiredLocks = await prisma.fareLock.updateMany({
+      where: {
+        status: { in: [FareLockStatus.PENDING_PAYMENT, FareLockStatus.ACTIVE] },
+        expiresAt: { lt: new Date() },
+      },
+      data: { status: FareLockStatus.EXPIRED },
+    });
+
+    if (expiredLocks.count > 0) {
+      logger.info(`Expired ${expiredLocks.count} fare locks`);
+    }
+
+    // Unpaid reschedules lapse with the hold on the new inventory
+    const expiredReschedules = await prisma.bookingReschedule.updateMany({
+      where: {
+        status: RescheduleStatus.PENDING_PAYMENT,
+        expiresAt: { lt: new Date() },
+      },
+      data: { status: RescheduleStatus.EXPIRED },
+    });
+
+    if (expiredReschedules.count > 0) {
+      logger.info(`Expired ${expiredReschedules.count} unpaid reschedules`);
+    }
+
+    // Wallet funds reserved for bookings that were never paid
+    await releaseExpiredWalletHolds();
+
     return releasedCount;
   } catch (error) {
     logger.error('Error releasing expired holds:', error);
@@ -417,7 +1058,8 @@ export const startHoldExpiryCron = (): void => {
  */
 export const getHoldQuotaStatus = async (
   scheduleId: string,
-  category: 'BUS' | 'FLIGHT'
+  category: 'BUS' | 'FLIGHT',
+  cabinClass: CabinClass = CabinClass.ECONOMY
 ) => {
   if (category === 'BUS') {
     const schedule = await prisma.busSchedule.findUnique({
@@ -440,7 +1082,7 @@ export const getHoldQuotaStatus = async (
 
     const partner = schedule.route.partner;
     const totalSeats = schedule.route.totalSeats;
-    const holdQuotaPercentage = Number(partner.holdQuotaPercentage || DEFAULT_HOLD_QUOTA_PERCENTAGE);
+    const holdQuotaPercentage = Number(partner.holdQuotaPercentage || DEFAULT_POLICY_RULES.HOLD.quotaPercentage);
     const maxHolds = calculateMaxHolds(totalSeats, holdQuotaPercentage);
 
     return {
@@ -453,12 +1095,48 @@ export const getHoldQuotaStatus = async (
       currentHolds: schedule.heldSeats,
       availableHolds: Math.max(0, maxHolds - schedule.heldSeats),
       activeHoldRecords: schedule.holds.length,
-      holdExpiryMinutes: partner.holdExpiryMinutes || DEFAULT_HOLD_EXPIRY_MINUTES,
+      holdExpiryMinutes: partner.holdExpiryMinutes || DEFAULT_POLICY_RULES.HOLD.expiryMinutes,
     };
   }
 
-  // TODO: Flight hold quota status
-  throw new Error('Flight hold quota status not implemented yet');
+  const schedule = await prisma.flightSchedule.findUnique({
+    where: { id: scheduleId },
+    include: {
+      flight: {
+        include: {
+          partner: true,
+        },
+      },
+      holds: {
+        where: { status: HoldStatus.ACTIVE, cabinClass },
+      },
+    },
+  });
+
+  if (!schedule) {
+    throw new Error('Schedule not found');
+  }
+
+  const partner = schedule.flight.partner;
+  const fields = getCabinFields(cabinClass);
+  const totalSeats = schedule[fields.seats];
+  const currentHolds = schedule[fields.held];
+  const holdQuotaPercentage = Number(partner.holdQuotaPercentage || DEFAULT_POLICY_RULES.HOLD.quotaPercentage);
+  const maxHolds = calculateMaxHolds(totalSeats, holdQuotaPercentage);
+
+  return {
+    scheduleId,
+    category,
+    cabinClass,
+    totalSeats,
+    holdQuotaEnabled: partner.holdQuotaEnabled,
+    holdQuotaPercentage,
+    maxHoldsAllowed: maxHolds,
+    currentHolds,
+    availableHolds: Math.max(0, maxHolds - currentHolds),
+    activeHoldRecords: schedule.holds.length,
+    holdExpiryMinutes: partner.holdExpiryMinutes || DEFAULT_POLICY_RULES.HOLD.expiryMinutes,
+  };
 };
 
 /**
@@ -0,0 +1,505 @@
+/**
+ * INVOICE SERVICE
+ * GST-compliant tax invoices and credit notes for bookings
+ *
+ * Features:
+ * - Sequential, gap-free numbering per financial year
+ * - Supplier GSTIN, place of supply and HSN/SAC codes
+ * - CGST/SGST (intra-state) or IGST (inter-state) split
+ * - Credit notes referencing the original invoice on cancellation
+ * - PDF rendering
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  BookingStatus,
+  ChargeBase,
+  ChargeType,
+  Invoice,
+  InvoiceType,
+  Prisma,
+} from '@prisma/client';
+import { ChargeLine } from './chargeRule.service';
+import { logger } from '../utils/logger';
+import { renderPdf, formatCurrency, formatDate, drawKeyValues, drawTable } from '../utils/pdf';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// SAC codes for the services we invoice
+const SAC_CODES: Record<BookingCategory | 'FEE', string> = {
+  BUS: '996412', // Long-distance passenger transport by road
+  AIRLINE: '996425', // Domestic scheduled air passenger transport
+  HOTEL: '996311', // Room or unit accommodation services
+  FEE: '998552', // Reservation services for transportation and accommodation
+};
+
+const INVOICE_PREFIX: Record<InvoiceType, string> = {
+  TAX_INVOICE: 'INV',
+  CREDIT_NOTE: 'CN',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InvoiceLineItem {
+  description: string;
+  hsnSac: string;
+  taxableValue: number;
+  taxRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// ============================================================================
+// NUMBERING
+// ============================================================================
+
+/**
+ * Indian financial year (April - March) for a date
+ */
+export const getFinancialYear = (date: Date = new Date()): { label: string; short: string } => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  const endYear = (startYear + 1) % 100;
+  return {
+    label: `${startYear}-${String(endYear).padStart(2, '0')}`,
+    short: `${String(startYear % 100).padStart(2, '0')}${String(endYear).padStart(2, '0')}`,
+  };
+};
+
+/**
+ * Reserve the next document number
+ * Runs inside the caller's transaction so a rolled-back invoice never
+ * consumes a number.
+ */
+const nextSequenceNumber = async (
+  tx: Prisma.TransactionClient,
+  type: InvoiceType,
+  financialYear: string
+): Promise<number> => {
+  const sequence = await tx.invoiceSequence.upsert({
+    where: { financialYear_type: { financialYear, type } },
+    create: { financialYear, type, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  return sequence.lastNumber;
+};
+
+const formatInvoiceNumber = (type: InvoiceType, fyShort: string, sequence: number): string =>
+  `${INVOICE_PREFIX[type]}/${fyShort}/${String(sequence).padStart(6, '0')}`;
+
+// ============================================================================
+// TAX SPLIT
+// ============================================================================
+
+/**
+ * Split GST into CGST + SGST (intra-state) or IGST (inter-state)
+ */
+export const splitTax = (
+  taxAmount: number,
+  isInterState: boolean
+): { cgstAmount: number; sgstAmount: number; igstAmount: number } => {
+  if (isInterState) {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: round2(taxAmount) };
+  }
+
+  const cgstAmount = round2(taxAmount / 2);
+  return {
+    cgstAmount,
+    sgstAmount: round2(taxAmount - cgstAmount),
+    igstAmount: 0,
+  };
+};
+
+const buildLine = (
+  description: string,
+  hsnSac: string,
+  taxableValue: number,
+  taxAmount: number,
+  isInterState: boolean
+): InvoiceLineItem => {
+  const split = splitTax(taxAmount, isInterState);
+  return {
+    description,
+    hsnSac,
+    taxableValue: round2(taxableValue),
+    taxRate: taxableValue > 0 ? round2((taxAmount / taxableValue) * 100) : 0,
+    ...split,
+    totalAmount: round2(taxableValue + taxAmount),
+  };
+};
+
+const sumLines = (lines: InvoiceLineItem[]) => ({
+  taxableAmount: round2(lines.reduce((sum, line) => sum + line.taxableValue, 0)),
+  cgstAmount: round2(lines.reduce((sum, line) => sum + line.cgstAmount, 0)),
+  sgstAmount: round2(lines.reduce((sum, line) => sum + line.sgstAmount, 0)),
+  igstAmount: round2(lines.reduce((sum, line) => sum + line.igstAmount, 0)),
+  totalAmount: round2(lines.reduce((sum, line) => sum + line.totalAmount, 0)),
+});
+
+// ============================================================================
+// INVOICE DATA
+// ============================================================================
+
+const bookingInvoiceInclude = {
+  busSchedule: { include: { route: { include: { partner: true } } } },
+  flightSchedule: { include: { flight: { include: { partner: true } } } },
+  roomInventory: { include: { room: { include: { hotel: { include: { partner: true } } } } } },
+} satisfies Prisma.BookingInclude;
+
+type BookingForInvoice = Prisma.BookingGetPayload<{ include: typeof bookingInvoiceInclude }>;
+
+/**
+ * Resolve supplier, place of supply and service description for a booking
+ * Passenger transport is supplied where the passenger embarks (IGST Act s.12(9)),
+ * so bus and air use the boarding state and become inter-state when the operator
+ * is registered elsewhere. Accommodation is supplied where the hotel is located.
+ * A boarding point with no state on record falls back to the operator's state.
+ */
+const resolveSupply = async (tx: Prisma.TransactionClient, booking: BookingForInvoice) => {
+  if (booking.category === BookingCategory.HOTEL && booking.roomInventory) {
+    const hotel = booking.roomInventory.room.hotel;
+    return {
+      partner: hotel.partner,
+      placeOfSupply: hotel.state,
+      description: `Accommodation - ${hotel.name}, ${booking.roomInventory.room.roomCategory} (${booking.nights || 1} night(s))`,
+    };
+  }
+
+  if (booking.category === BookingCategory.AIRLINE && booking.flightSchedule) {
+    const flight = booking.flightSchedule.flight;
+    const origin = await tx.airport.findUnique({
+      where: { code: flight.source },
+    });
+
+    return {
+      partner: flight.partner,
+      placeOfSupply: origin?.state || flight.partner.state || '',
+      description: `Air travel ${flight.flightNumber} ${flight.source}-${flight.destination} (${booking.cabinClass || 'ECONOMY'})`,
+    };
+  }
+
+  if (booking.busSchedule) {
+    const route = booking.busSchedule.route;
+    return {
+      partner: route.partner,
+      placeOfSupply: route.sourceState || route.partner.state || '',
+      description: `Bus travel ${route.source}-${route.destination} (${route.busType})`,
+    };
+  }
+
+  throw new Error('Booking has no schedule or inventory to invoice');
+};
+
+/**
+ * Build GST line items from the booking's itemized charges
+ */
+const buildBookingLines = (
+  booking: BookingForInvoice,
+  description: string,
+  isInterState: boolean
+): InvoiceLineItem[] => {
+  const charges = (booking.charges as unknown as ChargeLine[] | null) || [];
+
+  const fareTax = charges
+    .filter((line) => line.type === ChargeType.TAX && line.appliesOn === ChargeBase.BASE_FARE)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const fees = charges.filter((line) => line.type === ChargeType.FEE);
+  const feeAmount = charges.length > 0
+    ? fees.reduce((sum, line) => sum + line.amount, 0)
+    : Number(booking.convenienceFee);
+  const feeTax = charges.length > 0
+    ? charges
+        .filter((line) => line.type === ChargeType.TAX && line.appliesOn === ChargeBase.FEES)
+        .reduce((sum, line) => sum + line.amount, 0)
+    : Number(booking.taxAmount);
+
+  const lines: InvoiceLineItem[] = [
+    buildLine(description, SAC_CODES[booking.category], Number(booking.baseAmount), fareTax, isInterState),
+  ];
+
+  if (Number(booking.addOnAmount) > 0) {
+    lines.push(
+      buildLine('Add-on services', SAC_CODES[booking.category], Number(booking.addOnAmount), 0, isInterState)
+    );
+  }
+
+  if (Number(booking.discountAmount) > 0) {
+    lines.push(
+      buildLine('Discount', SAC_CODES[booking.category], -Number(booking.discountAmount), 0, isInterState)
+    );
+  }
+
+  if (feeAmount > 0) {
+    const feeLabel = fees.length > 0 ? fees.map((line) => line.name).join(', ') : 'Convenience Fee';
+    lines.push(buildLine(feeLabel, SAC_CODES.FEE, feeAmount, feeTax, isInterState));
+  }
+
+  return lines;
+};
+
+// ============================================================================
+// ISSUE DOCUMENTS
+// ============================================================================
+
+const createTaxInvoice = async (bookingId: string): Promise<Invoice> => {
+  return await prisma.$transaction(async (tx) => {
+    const existing = await tx.invoice.findUnique({
+      where: { taxInvoiceBookingId: bookingId },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: bookingInvoiceInclude,
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED && booking.status !== BookingStatus.COMPLETED) {
+      throw new Error('Invoice only available for confirmed bookings');
+    }
+
+    const supply = await resolveSupply(tx, booking);
+    const supplierState = supply.partner.state || '';
+    const isInterState =
+      !!supply.placeOfSupply &&
+      !!supplierState &&
+      supply.placeOfSupply.trim().toLowerCase() !== supplierState.trim().toLowerCase();
+
+    const lineItems = buildBookingLines(booking, supply.description, isInterState);
+    const totals = sumLines(lineItems);
+
+    const issuedAt = new Date();
+    const fy = getFinancialYear(issuedAt);
+    const sequenceNumber = await nextSequenceNumber(tx, InvoiceType.TAX_INVOICE, fy.label);
+
+    const invoice = await tx.invoice.create({
+      data: {
+        invoiceNumber: formatInvoiceNumber(InvoiceType.TAX_INVOICE, fy.short, sequenceNumber),
+        type: InvoiceType.TAX_INVOICE,
+        financialYear: fy.label,
+        sequenceNumber,
+        bookingId,
+        taxInvoiceBookingId: bookingId,
+        supplierName: supply.partner.name,
+        supplierGstin: supply.partner.gstNumber,
+        supplierAddress: [supply.partner.address, supply.partner.city, supply.partner.pincode]
+          .filter(Boolean)
+          .join(', ') || null,
+        supplierState: supply.partner.state,
+        customerName: booking.primaryPassengerName,
+        customerEmail: booking.primaryPassengerEmail,
+        customerPhone: booking.primaryPassengerPhone,
+        placeOfSupply: supply.placeOfSupply || supplierState,
+        isInterState,
+        lineItems: lineItems as unknown as Prisma.InputJsonArray,
+        ...totals,
+        issuedAt,
+      },
+    });
+
+    logger.info(`Tax invoice issued: ${invoice.invoiceNumber} for booking ${booking.bookingNumber}`);
+
+    return invoice;
+  });
+};
+
+/**
+ * Issue the tax invoice for a confirmed booking
+ * Idempotent - returns the existing invoice if one was already issued. The
+ * unique taxInvoiceBookingId settles concurrent confirms: the losing
+ * transaction rolls back (with its sequence number) and returns the winner's invoice.
+ */
+export const issueTaxInvoice = async (bookingId: string): Promise<Invoice> => {
+  try {
+    return await createTaxInvoice(bookingId);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.invoice.findUnique({
+        where: { taxInvoiceBookingId: bookingId },
+      });
+
+      if (existing) {
+        return existing;
+      }
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Issue a credit note against a booking's tax invoice
+ * Line items of the original invoice are reversed in proportion to the
+ * credited amount. Returns null if the booking was never invoiced.
+ */
+export const issueCreditNote = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  creditAmount: number,
+  reason: string
+): Promise<Invoice | null> => {
+  const original = await tx.invoice.findUnique({
+    where: { taxInvoiceBookingId: bookingId },
+  });
+
+  if (!original || creditAmount <= 0) {
+    return null;
+  }
+
+  const ratio = Math.min(1, creditAmount / Number(original.totalAmount));
+  const originalLines = original.lineItems as unknown as InvoiceLineItem[];
+  const lineItems = originalLines.map((line) =>
+    buildLine(
+      line.description,
+      line.hsnSac,
+      line.taxableValue * ratio,
+      (line.cgstAmount + line.sgstAmount + line.igstAmount) * ratio,
+      original.isInterState
+    )
+  );
+  const totals = sumLines(lineItems);
+
+  const issuedAt = new Date();
+  const fy = getFinancialYear(issuedAt);
+  const sequenceNumber = await nextSequenceNumber(tx, InvoiceType.CREDIT_NOTE, fy.label);
+
+  const creditNote = await tx.invoice.create({
+    data: {
+      invoiceNumber: formatInvoiceNumber(InvoiceType.CREDIT_NOTE, fy.short, sequenceNumber),
+      type: InvoiceType.CREDIT_NOTE,
+      financialYear: fy.label,
+      sequenceNumber,
+      bookingId,
+      originalInvoiceId: original.id,
+      supplierName: original.supplierName,
+      supplierGstin: original.supplierGstin,
+      supplierAddress: original.supplierAddress,
+      supplierState: original.supplierState,
+      customerName: original.customerName,
+      customerEmail: original.customerEmail,
+      customerPhone: original.customerPhone,
+      placeOfSupply: original.placeOfSupply,
+      isInterState: original.isInterState,
+      lineItems: lineItems as unknown as Prisma.InputJsonArray,
+      ...totals,
+      reason,
+      issuedAt,
+    },
+  });
+
+  logger.info(`Credit note issued: ${creditNote.invoiceNumber} against ${original.invoiceNumber}`);
+
+  return creditNote;
+};
+
+// ============================================================================
+// PDF RENDERING
+// ============================================================================
+
+/**
+ * Render an invoice or credit note as PDF
+ */
+export const renderInvoicePdf = async (
+  invoice: Invoice & { originalInvoice?: Invoice | null },
+  bookingNumber: string
+): Promise<Buffer> => {
+  const lineItems = invoice.lineItems as unknown as InvoiceLineItem[];
+  const isCreditNote = invoice.type === InvoiceType.CREDIT_NOTE;
+
+  return renderPdf((doc) => {
+    doc.font('Helvetica-Bold').fontSize(16).text(isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', {
+      align: 'center',
+    });
+    doc.moveDown();
+
+    drawKeyValues(doc, [
+      [isCreditNote ? 'Credit Note No.' : 'Invoice No.', invoice.invoiceNumber],
+      ['Date', formatDate(invoice.issuedAt)],
+      ['Booking No.', bookingNumber],
+      ...(invoice.originalInvoice
+        ? [['Against Invoice', invoice.originalInvoice.invoiceNumber] as [string, string]]
+        : []),
+      ...(invoice.reason ? [['Reason', invoice.reason] as [string, string]] : []),
+    ]);
+    doc.moveDown();
+
+    doc.font('Helvetica-Bold').fontSize(10).text('Supplier');
+    drawKeyValues(doc, [
+      ['Name', invoice.supplierName],
+      ['GSTIN', invoice.supplierGstin || 'Unregistered'],
+      ['Address', invoice.supplierAddress || '-'],
+      ['State', invoice.supplierState || '-'],
+    ]);
+    doc.moveDown();
+
+    doc.font('Helvetica-Bold').fontSize(10).text('Recipient');
+    drawKeyValues(doc, [
+      ['Name', invoice.customerName],
+      ['Email', invoice.customerEmail || '-'],
+      ['Phone', invoice.customerPhone || '-'],
+      ['Place of Supply', invoice.placeOfSupply || '-'],
+    ]);
+    doc.moveDown();
+
+    const taxColumns = invoice.isInterState
+      ? [{ header: 'IGST', width: 70, align: 'right' as const }]
+      : [
+          { header: 'CGST', width: 60, align: 'right' as const },
+          { header: 'SGST', width: 60, align: 'right' as const },
+        ];
+
+    drawTable(
+      doc,
+      [
+        { header: 'Description', width: invoice.isInterState ? 180 : 150 },
+        { header: 'HSN/SAC', width: 55 },
+        { header: 'Taxable Value', width: 75, align: 'right' },
+        { header: 'Rate %', width: 45, align: 'right' },
+        ...taxColumns,
+        { header: 'Total', width: 70, align: 'right' },
+      ],
+      lineItems.map((line) => [
+        line.description,
+        line.hsnSac,
+        line.taxableValue.toFixed(2),
+        line.taxRate.toFixed(2),
+        ...(invoice.isInterState
+          ? [line.igstAmount.toFixed(2)]
+          : [line.cgstAmount.toFixed(2), line.sgstAmount.toFixed(2)]),
+        line.totalAmount.toFixed(2),
+      ])
+    );
+    doc.moveDown();
+
+    drawKeyValues(doc, [
+      ['Taxable Amount', formatCurrency(Number(invoice.taxableAmount))],
+      ...(invoice.isInterState
+        ? [['IGST', formatCurrency(Number(invoice.igstAmount))] as [string, string]]
+        : [
+            ['CGST', formatCurrency(Number(invoice.cgstAmount))] as [string, string],
+            ['SGST', formatCurrency(Number(invoice.sgstAmount))] as [string, string],
+          ]),
+      [isCreditNote ? 'Total Credit' : 'Invoice Total', formatCurrency(Number(invoice.totalAmount))],
+    ]);
+
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(8).text('This is a computer generated document and does not require a signature.', {
+      align: 'center',
+    });
+  });
+};
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createMockPaymentProvider, MockPaymentProvider } from './paymentProvider.service';
+
+describe('mock payment provider', () => {
+  let provider: MockPaymentProvider;
+
+  const createOrder = () => provider.createOrder({ amount: 150000, receipt: 'BK-TEST-1', notes: { bookingId: 'b1' } });
+
+  beforeEach(() => {
+    provider = createMockPaymentProvider();
+  });
+
+  describe('orders', () => {
+    it('creates orders with sequential ids and defaults the currency', async () => {
+      const first = await createOrder();
+      const second = await createOrder();
+
+      expect(first).toEqual({
+        id: 'order_mock_00000001',
+        amount: 150000,
+        currency: 'INR',
+        receipt: 'BK-TEST-1',
+        status: 'created',
+        notes: { bookingId: 'b1' },
+      });
+      expect(second.id).toBe('order_mock_00000002');
+    });
+
+    it('reports an order paid once its payment is captured', async () => {
+      const order = await createOrder();
+      provider.simulatePayment(order.id);
+
+      await expect(provider.fetchOrder(order.id)).resolves.toMatchObject({ status: 'paid' });
+    });
+
+    it('rejects unknown orders', async () => {
+      await expect(provider.fetchOrder('order_missing')).rejects.toThrow('Mock order order_missing not found');
+      expect(() => provider.simulatePayment('order_missing')).toThrow('Mock order order_missing not found');
+    });
+  });
+
+  describe('payments', () => {
+    it('signs authorized payments so they verify', async () => {
+      const order = await createOrder();
+      const result = provider.simulatePayment(order.id);
+
+      expect(result.status).toBe('captured');
+      expect(
+        provider.verifyPaymentSignature({ orderId: order.id, paymentId: result.paymentId, signature: result.signature! })
+      ).toBe(true);
+    });
+
+    it('rejects a signature for another order or payment', async () => {
+      const order = await createOrder();
+      const other = await createOrder();
+      const result = provider.simulatePayment(order.id);
+
+      expect(
+        provider.verifyPaymentSignature({ orderId: other.id, paymentId: result.paymentId, signature: result.signature! })
+      ).toBe(false);
+      expect(provider.verifyPaymentSignature({ orderId: order.id, paymentId: result.paymentId, signature: 'bad' })).toBe(
+        false
+      );
+    });
+
+    it('returns no signature for a failed payment and reports it failed', async () => {
+      const order = await createOrder();
+      const result = provider.simulatePayment(order.id, 'failure');
+
+      expect(result).toEqual({ status: 'failed', orderId: order.id, paymentId: result.paymentId });
+      await expect(provider.fetchPaymentStatus(order.id)).resolves.toEqual({
+        orderId: order.id,
+        status: 'failed',
+        paymentId: result.paymentId,
+        amount: 150000,
+      });
+      await expect(provider.fetchOrder(order.id)).resolves.toMatchObject({ status: 'attempted' });
+    });
+
+    it('reports an order without a payment as pending', async () => {
+      const order = await createOrder();
+
+      await expect(provider.fetchPaymentStatus(order.id)).resolves.toEqual({ orderId: order.id, status: 'pending' });
+    });
+
+    describe('delayed capture', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('stays authorized until the capture delay has passed', async () => {
+        const order = await createOrder();
+        const result = provider.simulatePayment(order.id, 'delayed_capture');
+
+        expect(result.status).toBe('authorized');
+        expect(result.signature).toBeDefined();
+        await expect(provider.fetchPaymentStatus(order.id)).resolves.toMatchObject({ status: 'authorized' });
+        await expect(provider.refund(result.paymentId, { amount: 100 })).rejects.toThrow('is not captured');
+
+        jest.setSystemTime(new Date('2026-01-01T10:00:30Z'));
+
+        await expect(provider.fetchPaymentStatus(order.id)).resolves.toMatchObject({
+          status: 'captured',
+          paymentId: result.paymentId,
+        });
+        await expect(provider.fetchOrder(order.id)).resolves.toMatchObject({ status: 'paid' });
+      });
+    });
+  });
+
+  describe('refunds', () => {
+    const capturedPayment = async () => {
+      const order = await createOrder();
+      return provider.simulatePayment(order.id).paymentId;
+    };
+
+    it('refunds part of a captured payment', async () => {
+      const paymentId = await capturedPayment();
+
+      await expect(provider.refund(paymentId, { amount: 50000, notes: { refundId: 'r1' } })).resolves.toEqual({
+        id: 'rfnd_mock_00000001',
+        paymentId,
+        amount: 50000,
+        status: 'processed',
+        notes: { refundId: 'r1' },
+      });
+    });
+
+    it('does not refund more than was captured', async () => {
+      const paymentId = await capturedPayment();
+      await provider.refund(paymentId, { amount: 100000 });
+
+      await expect(provider.refund(paymentId, { amount: 50001 })).rejects.toThrow(
+        'Refund amount exceeds the captured amount not yet refunded'
+      );
+    });
+
+    it('rejects refunds of failed or unknown payments', async () => {
+      const order = await createOrder();
+      const failed = provider.simulatePayment(order.id, 'failure');
+
+      await expect(provider.refund(failed.paymentId, { amount: 100 })).rejects.toThrow('is not captured');
+      await expect(provider.refund('pay_missing', { amount: 100 })).rejects.toThrow('is not captured');
+    });
+
+    it('fetches a refund by payment and refund id', async () => {
+      const paymentId = await capturedPayment();
+      const refund = await provider.refund(paymentId, { amount: 100 });
+
+      await expect(provider.fetchRefund(paymentId, refund.id)).resolves.toEqual(refund);
+      await expect(provider.fetchRefund('pay_other', refund.id)).rejects.toThrow(`Mock refund ${refund.id} not found`);
+    });
+
+    it('returns the first refund when retried with the same idempotency key', async () => {
+      const paymentId = await capturedPayment();
+
+      const first = await provider.refund(paymentId, { amount: 150000, idempotencyKey: 'refund:r1' });
+      const retry = await provider.refund(paymentId, { amount: 150000, idempotencyKey: 'refund:r1' });
+
+      expect(retry).toEqual(first);
+      await expect(provider.refund(paymentId, { amount: 1, idempotencyKey: 'refund:r2' })).rejects.toThrow(
+        'Refund amount exceeds'
+      );
+    });
+  });
+
+  describe('webhooks', () => {
+    it('parses a signed payment event', () => {
+      const body = { event: 'payment.captured', payload: { orderId: 'order_1', paymentId: 'pay_1' } };
+
+      expect(provider.parseWebhook(body, provider.signWebhook(body))).toEqual({
+        type: 'payment.captured',
+        orderId: 'order_1',
+        paymentId: 'pay_1',
+      });
+    });
+
+    it('parses a signed refund event', () => {
+      const refund = { id: 'rfnd_1', paymentId: 'pay_1', amount: 500, status: 'failed' as const, notes: {} };
+      const body = { event: 'refund.failed', payload: { refund } };
+
+      expect(provider.parseWebhook(body, provider.signWebhook(body))).toEqual({ type: 'refund.failed', refund });
+    });
+
+    it('passes through events it does not handle', () => {
+      const body = { event: 'order.paid', payload: {} };
+
+      expect(provider.parseWebhook(body, provider.signWebhook(body))).toEqual({ type: 'unhandled', name: 'order.paid' });
+    });
+
+    it('rejects a missing or tampered signature', () => {
+      const body = { event: 'payment.captured', payload: { orderId: 'order_1', paymentId: 'pay_1' } };
+      const signature = provider.signWebhook(body);
+
+      expect(() => provider.parseWebhook(body, undefined)).toThrow('Invalid webhook signature');
+      expect(() =>
+        provider.parseWebhook({ ...body, payload: { orderId: 'order_2', paymentId: 'pay_1' } }, signature)
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects signed bodies that are malformed', () => {
+      const noPayload = { event: 'payment.captured' };
+      const noPayment = { event: 'payment.failed', payload: { orderId: 'order_1' } };
+      const noRefund = { event: 'refund.processed', payload: {} };
+
+      expect(() => provider.parseWebhook(noPayload, provider.signWebhook(noPayload))).toThrow('Malformed webhook body');
+      expect(() => provider.parseWebhook(noPayment, provider.signWebhook(noPayment))).toThrow(
+        'Webhook payment.failed carries no payment'
+      );
+      expect(() => provider.parseWebhook(noRefund, provider.signWebhook(noRefund))).toThrow(
+        'Webhook refund.processed carries no refund'
+      );
+    });
+  });
+});
\ No newline at end of file
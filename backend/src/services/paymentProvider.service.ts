@@ -0,0 +1,519 @@
+/**
+ * PAYMENT PROVIDER SERVICE
+ * Payment gateway abstraction
+ *
+ * Features:
+ * - One PaymentProvider interface for orders, signatures, refunds, status and webhooks
+ * - Razorpay implementation (PAYMENT_PROVIDER=razorpay, the default)
+ * - Deterministic in-process mock (PAYMENT_PROVIDER=mock) simulating success,
+ *   failure and delayed capture so payment flows run offline
+ *
+ * Amounts crossing the interface are in currency subunits (paise), as gateways expect.
+ */
+
+import Razorpay from 'razorpay';
+import { Orders } from 'razorpay/dist/types/orders';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MOCK_PAYMENT_SECRET = process.env.MOCK_PAYMENT_SECRET || 'mock_payment_secret';
+const MOCK_PAYMENT_CAPTURE_DELAY_SECONDS = parseInt(process.env.MOCK_PAYMENT_CAPTURE_DELAY_SECONDS || '30');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+export interface GatewayOrder {
+  id: string;
+  amount: number; // Paise
+  currency: string;
+  receipt?: string;
+  status: 'created' | 'attempted' | 'paid';
+  notes: Record<string, string>;
+}
+
+export interface CreateGatewayOrderParams {
+  amount: number; // Paise
+  currency?: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayPaymentSignature {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export interface GatewayRefund {
+  id: string;
+  paymentId: string;
+  amount: number; // Paise
+  status: 'pending' | 'processed' | 'failed';
+  notes: Record<string, string>;
+}
+
+export interface CreateGatewayRefundParams {
+  amount: number; // Paise
+  receipt?: string;
+  notes?: Record<string, string>;
+  idempotencyKey?: string; // A retry with the same key returns the refund already created
+}
+
+export interface GatewayPaymentStatus {
+  orderId: string;
+  status: 'pending' | 'authorized' | 'captured' | 'failed';
+  paymentId?: string;
+  amount?: number; // Paise, of the payment the status comes from
+}
+
+export type GatewayWebhookEvent =
+  | { type: 'payment.captured' | 'payment.failed'; orderId: string; paymentId: string }
+  | { type: 'refund.processed' | 'refund.failed'; refund: GatewayRefund }
+  | { type: 'unhandled'; name: string };
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  keyId?: string; // Public key handed to the checkout
+  createOrder(params: CreateGatewayOrderParams): Promise<GatewayOrder>;
+  fetchOrder(orderId: string): Promise<GatewayOrder>;
+  verifyPaymentSignature(payment: GatewayPaymentSignature): boolean;
+  refund(paymentId: string, params: CreateGatewayRefundParams): Promise<GatewayRefund>;
+  fetchRefund(paymentId: string, refundId: string): Promise<GatewayRefund>;
+  fetchPaymentStatus(orderId: string): Promise<GatewayPaymentStatus>;
+  /** Verify a webhook delivery and normalise it; throws on a bad signature */
+  parseWebhook(body: unknown, signature: string | undefined): GatewayWebhookEvent;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const hmacHex = (secret: string, payload: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const safeEqual = (a: string, b: string): boolean =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const toNotes = (notes: unknown): Record<string, string> => {
+  if (!notes || Array.isArray(notes) || typeof notes !== 'object') {
+    return {};
+  }
+
+  return Object.fromEntries(Object.entries(notes).map(([key, value]) => [key, String(value)]));
+};
+
+/**
+ * Split a signed webhook body into its event name and payload object
+ */
+const readWebhookBody = (body: unknown): { event: string; payload: Record<string, unknown> } => {
+  const { event, payload } = (body ?? {}) as { event?: unknown; payload?: unknown };
+
+  if (typeof event !== 'string' || !payload || typeof payload !== 'object') {
+    throw new Error('Malformed webhook body');
+  }
+
+  return { event, payload: payload as Record<string, unknown> };
+};
+
+/**
+ * Readable message from a gateway API error (Razorpay errors are not Error instances)
+ */
+export const getPaymentErrorMessage = (error: unknown): string =>
+  (error as { error?: { description?: string } })?.error?.description ||
+  (error as Error)?.message ||
+  'Unknown payment gateway error';
+
+// ============================================================================
+// RAZORPAY PROVIDER
+// ============================================================================
+
+interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount?: number | string;
+  status: string;
+  notes?: unknown;
+}
+
+/** The webhook payload entities this app reads; Razorpay wraps each in `{ entity }` */
+interface RazorpayWebhookPayload {
+  payment?: { entity?: { id?: string; order_id?: string } };
+  refund?: { entity?: RazorpayRefundEntity };
+}
+
+const createRazorpayProvider = (): PaymentProvider => {
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+  if (!keyId || !keySecret) {
+    throw new Error('RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET are required for the Razorpay provider');
+  }
+
+  const client = new Razorpay({ key_id: keyId, key_secret: keySecret });
+
+  const toGatewayOrder = (order: Orders.RazorpayOrder): GatewayOrder => ({
+    id: order.id,
+    amount: Number(order.amount),
+    currency: order.currency,
+    receipt: order.receipt,
+    status: order.status,
+    notes: toNotes(order.notes),
+  });
+
+  const toGatewayRefund = (refund: RazorpayRefundEntity): GatewayRefund => ({
+    id: refund.id,
+    paymentId: refund.payment_id,
+    amount: Number(refund.amount || 0),
+    status: refund.status === 'processed' || refund.status === 'failed' ? refund.status : 'pending',
+    notes: toNotes(refund.notes),
+  });
+
+  return {
+    name: 'razorpay',
+    keyId,
+
+    createOrder: async (params) =>
+      toGatewayOrder(
+        await client.orders.create({
+          amount: params.amount,
+          currency: params.currency || 'INR',
+          receipt: params.receipt,
+          notes: params.notes,
+        })
+      ),
+
+    fetchOrder: async (orderId) => toGatewayOrder(await client.orders.fetch(orderId)),
+
+    verifyPaymentSignature: ({ orderId, paymentId, signature }) =>
+      safeEqual(hmacHex(keySecret, `${orderId}|${paymentId}`), signature),
+
+    refund: async (paymentId, params) => {
+      // The refunds API has no idempotency header; the key travels in the notes
+      // and a retry first looks for a live refund carrying it
+      if (params.idempotencyKey) {
+        const { items } = await client.payments.fetchMultipleRefund(paymentId, { count: 100 });
+        const existing = items.find(
+          (refund) => refund.notes?.idempotencyKey === params.idempotencyKey && refund.status !== 'failed'
+        );
+
+        if (existing) {
+          return toGatewayRefund(existing);
+        }
+      }
+
+      return toGatewayRefund(
+        await client.payments.refund(paymentId, {
+          amount: params.amount,
+          speed: 'normal',
+          receipt: params.receipt,
+          notes: {
+            ...params.notes,
+            ...(params.idempotencyKey && { idempotencyKey: params.idempotencyKey }),
+          },
+        })
+      );
+    },
+
+    fetchRefund: async (paymentId, refundId) => toGatewayRefund(await client.payments.fetchRefund(paymentId, refundId)),
+
+    fetchPaymentStatus: async (orderId) => {
+      const { items } = await client.orders.fetchPayments(orderId);
+
+      // A captured payment settles the order; otherwise report the latest attempt
+      const captured = items.find((p) => p.status === 'captured' || p.status === 'refunded');
+      const payment = captured || [...items].sort((a, b) => b.created_at - a.created_at)[0];
+
+      if (!payment) {
+        return { orderId, status: 'pending' };
+      }
+
+      const status =
+        payment.status === 'captured' || payment.status === 'refunded'
+          ? 'captured'
+          : payment.status === 'authorized' || payment.status === 'failed'
+            ? payment.status
+            : 'pending';
+
+      return { orderId, status, paymentId: payment.id, amount: Number(payment.amount) };
+    },
+
+    parseWebhook: (body, signature) => {
+      const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+      if (!webhookSecret) {
+        throw new Error('RAZORPAY_WEBHOOK_SECRET is not configured');
+      }
+
+      if (!signature || !safeEqual(hmacHex(webhookSecret, JSON.stringify(body)), signature)) {
+        throw new Error('Invalid webhook signature');
+      }
+
+      const { event, payload } = readWebhookBody(body);
+      const { payment, refund } = payload as RazorpayWebhookPayload;
+
+      switch (event) {
+        case 'payment.captured':
+        case 'payment.failed':
+          if (!payment?.entity?.id || !payment.entity.order_id) {
+            throw new Error(`Webhook ${event} carries no payment`);
+          }
+          return { type: event, orderId: payment.entity.order_id, paymentId: payment.entity.id };
+        case 'refund.processed':
+        case 'refund.failed':
+          if (!refund?.entity?.id) {
+            throw new Error(`Webhook ${event} carries no refund`);
+          }
+          return { type: event, refund: toGatewayRefund(refund.entity) };
+        default:
+          return { type: 'unhandled', name: event };
+      }
+    },
+  };
+};
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+
+export type MockPaymentOutcome = 'success' | 'failure' | 'delayed_capture';
+
+interface MockPayment {
+  id: string;
+  orderId: string;
+  amount: number;
+  outcome: MockPaymentOutcome;
+  authorizedAt: Date;
+  refunded: number;
+}
+
+/** Webhook payload the mock signs: the normalised fields, unwrapped */
+export interface MockWebhookPayload {
+  orderId?: string;
+  paymentId?: string;
+  refund?: GatewayRefund;
+}
+
+export interface MockCheckoutResult {
+  status: 'authorized' | 'captured' | 'failed';
+  orderId: string;
+  paymentId: string;
+  signature?: string; // Only for payments that were authorized
+}
+
+export interface MockPaymentProvider extends PaymentProvider {
+  name: 'mock';
+  /** Stand-in for the hosted checkout: pay an order with the given outcome */
+  simulatePayment(orderId: string, outcome?: MockPaymentOutcome): MockCheckoutResult;
+  /** Sign a webhook body the way the mock expects it */
+  signWebhook(body: unknown): string;
+}
+
+/**
+ * In-process gateway with sequential IDs and HMAC signatures, so runs are repeatable
+ * Delayed-capture payments are authorized at checkout and report captured
+ * once MOCK_PAYMENT_CAPTURE_DELAY_SECONDS have passed.
+ */
+export const createMockPaymentProvider = (): MockPaymentProvider => {
+  const orders = new Map<string, GatewayOrder>();
+  const payments = new Map<string, MockPayment>();
+  const refunds = new Map<string, GatewayRefund>();
+  const refundsByKey = new Map<string, GatewayRefund>();
+  const counters = { order: 0, payment: 0, refund: 0 };
+
+  const nextId = (kind: keyof typeof counters, prefix: string): string =>
+    `${prefix}_mock_${String(++counters[kind]).padStart(8, '0')}`;
+
+  const isCaptured = (payment: MockPayment): boolean =>
+    payment.outcome === 'success' ||
+    (payment.outcome === 'delayed_capture' &&
+      Date.now() >= payment.authorizedAt.getTime() + MOCK_PAYMENT_CAPTURE_DELAY_SECONDS * 1000);
+
+  const getOrder = (orderId: string): GatewayOrder => {
+    const order = orders.get(orderId);
+    if (!order) {
+      throw new Error(`Mock order ${orderId} not found`);
+    }
+    return order;
+  };
+
+  const latestPayment = (orderId: string): MockPayment | undefined =>
+    [...payments.values()].filter((p) => p.orderId === orderId).pop();
+
+  return {
+    name: 'mock',
+    keyId: 'mock_key',
+
+    createOrder: async (params) => {
+      const order: GatewayOrder = {
+        id: nextId('order', 'order'),
+        amount: params.amount,
+        currency: params.currency || 'INR',
+        receipt: params.receipt,
+        status: 'created',
+        notes: params.notes || {},
+      };
+      orders.set(order.id, order);
+      return { ...order };
+    },
+
+    fetchOrder: async (orderId) => {
+      const order = getOrder(orderId);
+      const payment = latestPayment(orderId);
+      return { ...order, status: payment && isCaptured(payment) ? 'paid' : order.status };
+    },
+
+    verifyPaymentSignature: ({ orderId, paymentId, signature }) =>
+      safeEqual(hmacHex(MOCK_PAYMENT_SECRET, `${orderId}|${paymentId}`), signature),
+
+    refund: async (paymentId, params) => {
+      const replayed = params.idempotencyKey && refundsByKey.get(params.idempotencyKey);
+      if (replayed) {
+        return { ...replayed };
+      }
+
+      const payment = payments.get(paymentId);
+
+      if (!payment || !isCaptured(payment)) {
+        throw new Error(`Mock payment ${paymentId} is not captured`);
+      }
+
+      if (params.amount > payment.amount - payment.refunded) {
+        throw new Error('Refund amount exceeds the captured amount not yet refunded');
+      }
+
+      payment.refunded += params.amount;
+
+      const refund: GatewayRefund = {
+        id: nextId('refund', 'rfnd'),
+        paymentId,
+        amount: params.amount,
+        status: 'processed',
+        notes: params.notes || {},
+      };
+
+      refunds.set(refund.id, refund);
+      if (params.idempotencyKey) {
+        refundsByKey.set(params.idempotencyKey, refund);
+      }
+
+      return { ...refund };
+    },
+
+    fetchRefund: async (paymentId, refundId) => {
+      const refund = refunds.get(refundId);
+      if (!refund || refund.paymentId !== paymentId) {
+        throw new Error(`Mock refund ${refundId} not found`);
+      }
+      return { ...refund };
+    },
+
+    fetchPaymentStatus: async (orderId) => {
+      getOrder(orderId);
+      const payment = latestPayment(orderId);
+
+      if (!payment) {
+        return { orderId, status: 'pending' };
+      }
+
+      const status = payment.outcome === 'failure' ? 'failed' : isCaptured(payment) ? 'captured' : 'authorized';
+      return { orderId, status, paymentId: payment.id, amount: payment.amount };
+    },
+
+    parseWebhook: (body, signature) => {
+      if (!signature || !safeEqual(hmacHex(MOCK_PAYMENT_SECRET, JSON.stringify(body)), signature)) {
+        throw new Error('Invalid webhook signature');
+      }
+
+      const { event, payload } = readWebhookBody(body);
+      const { orderId, paymentId, refund } = payload as MockWebhookPayload;
+
+      switch (event) {
+        case 'payment.captured':
+        case 'payment.failed':
+          if (!orderId || !paymentId) {
+            throw new Error(`Webhook ${event} carries no payment`);
+          }
+          return { type: event, orderId, paymentId };
+        case 'refund.processed':
+        case 'refund.failed':
+          if (!refund?.id) {
+            throw new Error(`Webhook ${event} carries no refund`);
+          }
+          return { type: event, refund };
+        default:
+          return { type: 'unhandled', name: event };
+      }
+    },
+
+    simulatePayment: (orderId, outcome = 'success') => {
+      const order = getOrder(orderId);
+      const payment: MockPayment = {
+        id: nextId('payment', 'pay'),
+        orderId,
+        amount: order.amount,
+        outcome,
+        authorizedAt: new Date(),
+        refunded: 0,
+      };
+      payments.set(payment.id, payment);
+      order.status = outcome === 'failure' ? 'attempted' : order.status;
+
+      logger.info(`Mock payment ${payment.id} for order ${orderId}: ${outcome}`);
+
+      if (outcome === 'failure') {
+        return { status: 'failed', orderId, paymentId: payment.id };
+      }
+
+      return {
+        status: isCaptured(payment) ? 'captured' : 'authorized',
+        orderId,
+        paymentId: payment.id,
+        signature: hmacHex(MOCK_PAYMENT_SECRET, `${orderId}|${payment.id}`),
+      };
+    },
+
+    signWebhook: (body) => hmacHex(MOCK_PAYMENT_SECRET, JSON.stringify(body)),
+  };
+};
+
+// ============================================================================
+// PROVIDER SELECTION
+// ============================================================================
+
+let provider: PaymentProvider | undefined;
+
+/**
+ * The configured payment provider (PAYMENT_PROVIDER), created on first use
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    const name = (process.env.PAYMENT_PROVIDER || 'razorpay') as PaymentProviderName;
+
+    if (name === 'mock') {
+      provider = createMockPaymentProvider();
+    } else if (name === 'razorpay') {
+      provider = createRazorpayProvider();
+    } else {
+      throw new Error(`Unknown payment provider: ${name}`);
+    }
+
+    logger.info(`Payment provider: ${provider.name}`);
+  }
+
+  return provider;
+};
+
+/**
+ * The mock provider when it is the configured one (checkout simulation endpoints)
+ */
+export const getMockPaymentProvider = (): MockPaymentProvider | undefined => {
+  const current = getPaymentProvider();
+  return current.name === 'mock' ? (current as MockPaymentProvider) : undefined;
+};
\ No newline at end of file
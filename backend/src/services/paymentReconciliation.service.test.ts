@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { prisma } from '../server';
+import { BookingConfirmationError, confirmBooking } from './booking.service';
+import { releaseHold } from './holdQuota.service';
+import { processBookingRefunds } from './refund.service';
+import { getPaymentProvider } from './paymentProvider.service';
+import { reconcilePendingPayments } from './paymentReconciliation.service';
+
+jest.mock('../server', () => {
+  const prisma: Record<string, any> = {
+    booking: { findMany: jest.fn(), updateMany: jest.fn() },
+    seatHold: { findFirst: jest.fn(), findMany: jest.fn() },
+    flightSeatHold: { count: jest.fn(), findMany: jest.fn() },
+    roomHold: { count: jest.fn(), findMany: jest.fn() },
+    cancellationRequest: { create: jest.fn() },
+  };
+  prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+jest.mock('./booking.service', () => {
+  class BookingConfirmationError extends Error {
+    constructor(message: string, public reason: string) {
+      super(message);
+    }
+  }
+  return { BookingConfirmationError, confirmBooking: jest.fn() };
+});
+
+jest.mock('./paymentProvider.service', () => {
+  const provider = { name: 'mock', fetchPaymentStatus: jest.fn() };
+  return { getPaymentProvider: () => provider };
+});
+
+jest.mock('./holdQuota.service', () => ({ releaseHold: jest.fn() }));
+jest.mock('./coupon.service', () => ({ reverseCouponRedemption: jest.fn() }));
+jest.mock('./wallet.service', () => ({ releaseBookingWalletHold: jest.fn() }));
+jest.mock('./refund.service', () => ({ processBookingRefunds: jest.fn() }));
+
+type MockFn = jest.Mock<(...args: any[]) => any>;
+
+const db = prisma as unknown as Record<'booking' | 'flightSeatHold' | 'cancellationRequest', Record<string, MockFn>>;
+const gateway = getPaymentProvider() as unknown as { fetchPaymentStatus: MockFn };
+const confirm = confirmBooking as unknown as MockFn;
+
+describe('reconcilePendingPayments', () => {
+  const booking = {
+    id: 'booking_1',
+    bookingNumber: 'BK-1',
+    status: 'PENDING',
+    razorpayOrderId: 'order_1',
+    walletAmount: 0,
+    busScheduleId: null,
+    flightScheduleId: 'flight_1',
+    roomInventoryId: null,
+    passengers: [{ seatNumber: '12A' }],
+  };
+  const captured = { orderId: 'order_1', status: 'captured', paymentId: 'pay_1', amount: 450000 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.booking.findMany.mockResolvedValue([booking]);
+    db.booking.updateMany.mockResolvedValue({ count: 1 });
+    // The flight seat hold has lapsed
+    db.flightSeatHold.count.mockResolvedValue(0);
+    db.flightSeatHold.findMany.mockResolvedValue([{ id: 'hold_1' }]);
+  });
+
+  it('confirms a payment captured after the hold lapsed while the seats are still free', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+    confirm.mockResolvedValue(undefined);
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ checked: 1, confirmed: 1, refunded: 0 });
+    expect(confirm).toHaveBeenCalledWith(
+      'booking_1',
+      expect.objectContaining({ razorpayPaymentId: 'pay_1', paidAmount: 4500, walletAmount: 0 })
+    );
+    expect(processBookingRefunds).not.toHaveBeenCalled();
+  });
+
+  it('refunds a capture whose seats were sold after the hold lapsed', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+    confirm.mockRejectedValue(new BookingConfirmationError('Seats are no longer available', 'INVENTORY_UNAVAILABLE'));
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ confirmed: 0, refunded: 1 });
+    expect(db.booking.updateMany).toHaveBeenCalledWith({
+      where: { id: 'booking_1', status: { in: ['PENDING', 'FAILED'] } },
+      data: expect.objectContaining({ status: 'CANCELLED', razorpayPaymentId: 'pay_1', refundAmount: 4500 }),
+    });
+    expect(db.cancellationRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ bookingId: 'booking_1', finalRefundAmount: 4500 }),
+    });
+    expect(releaseHold).toHaveBeenCalledWith('hold_1', 'EXPIRED', 'FLIGHT', prisma);
+    expect(processBookingRefunds).toHaveBeenCalledWith('booking_1');
+  });
+
+  it('leaves a booking a verify call confirmed meanwhile', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+    confirm.mockRejectedValue(new BookingConfirmationError('Booking is no longer awaiting payment', 'NOT_PENDING'));
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ skipped: 1, refunded: 0 });
+    expect(db.booking.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refunds once when another run refunded the capture first', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue(captured);
+    confirm.mockRejectedValue(new BookingConfirmationError('Seats are no longer available', 'INVENTORY_UNAVAILABLE'));
+    db.booking.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ skipped: 1, refunded: 0 });
+    expect(processBookingRefunds).not.toHaveBeenCalled();
+  });
+
+  it('expires an unpaid booking whose hold lapsed', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue({ orderId: 'order_1', status: 'failed' });
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ expired: 1 });
+    expect(db.booking.updateMany).toHaveBeenCalledWith({
+      where: { id: 'booking_1', status: 'PENDING' },
+      data: { status: 'FAILED', paymentStatus: 'FAILED' },
+    });
+    expect(releaseHold).toHaveBeenCalledWith('hold_1', 'EXPIRED', 'FLIGHT', prisma);
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('waits on an unpaid booking that still holds its seats', async () => {
+    gateway.fetchPaymentStatus.mockResolvedValue({ orderId: 'order_1', status: 'pending' });
+    db.flightSeatHold.count.mockResolvedValue(1);
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ skipped: 1, expired: 0 });
+    expect(db.booking.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('counts a gateway error as failed and moves on', async () => {
+    gateway.fetchPaymentStatus.mockRejectedValue(new Error('Gateway unavailable'));
+
+    await expect(reconcilePendingPayments()).resolves.toMatchObject({ checked: 1, failed: 1 });
+  });
+});
\ No newline at end of file
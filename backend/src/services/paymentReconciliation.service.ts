@@ -0,0 +1,458 @@
+/**
+ * PAYMENT RECONCILIATION SERVICE
+ * Settles bookings the client never verified and checks gateway settlements
+ *
+ * Features:
+ * - Polls the gateway for stale PENDING bookings with a payment order
+ * - Captured payments confirm the booking (or are refunded if its inventory is gone)
+ * - Unpaid bookings past their hold are expired and their seats / rooms released
+ * - Daily mismatch report between gateway captures and Booking.paidAmount
+ */
+
+import { prisma } from '../server';
+import { Booking, BookingStatus, HoldStatus, PaymentReconciliationReport, PaymentStatus, Prisma } from '@prisma/client';
+import { BookingConfirmationError, confirmBooking } from './booking.service';
+import { releaseHold } from './holdQuota.service';
+import { reverseCouponRedemption } from './coupon.service';
+import { releaseBookingWalletHold } from './wallet.service';
+import { processBookingRefunds } from './refund.service';
+import { getPaymentProvider, GatewayPaymentStatus } from './paymentProvider.service';
+import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
+import cron from 'node-cron';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PAYMENT_RECONCILE_AFTER_MINUTES = parseInt(process.env.PAYMENT_RECONCILE_AFTER_MINUTES || '15');
+const PAYMENT_RECONCILE_BATCH_SIZE = parseInt(process.env.PAYMENT_RECONCILE_BATCH_SIZE || '50');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaymentReconciliationResult {
+  checked: number;
+  confirmed: number;
+  refunded: number; // Captured after the hold lapsed
+  expired: number;
+  skipped: number; // Still within the payment window or awaiting capture
+  failed: number;
+}
+
+export type SettlementMismatchReason = 'CAPTURED_NOT_RECORDED' | 'RECORDED_NOT_CAPTURED' | 'AMOUNT_MISMATCH';
+
+export interface SettlementMismatch {
+  bookingId: string;
+  bookingNumber: string;
+  orderId: string;
+  reason: SettlementMismatchReason;
+  gatewayAmount: number;
+  bookedAmount: number;
+}
+
+type ReconcileOutcome = 'confirmed' | 'refunded' | 'expired' | 'skipped';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether the booking's seats / rooms are still held for payment
+ * 'none' when the booking never held inventory (bus booking without seat numbers).
+ */
+const getInventoryHoldState = async (
+  booking: Booking & { passengers: { seatNumber: string | null }[] }
+): Promise<'held' | 'lapsed' | 'none'> => {
+  const live = { status: HoldStatus.ACTIVE, holdExpiry: { gt: new Date() } };
+
+  if (booking.busScheduleId) {
+    const hold = await prisma.seatHold.findFirst({
+      where: { bookingId: booking.id, ...live },
+    });
+    if (hold) {
+      return 'held';
+    }
+    return booking.passengers.some((p) => p.seatNumber) ? 'lapsed' : 'none';
+  }
+
+  const holds = booking.flightScheduleId
+    ? await prisma.flightSeatHold.count({ where: { bookingId: booking.id, ...live } })
+    : await prisma.roomHold.count({ where: { bookingId: booking.id, ...live } });
+
+  return holds > 0 ? 'held' : 'lapsed';
+};
+
+/**
+ * Release whatever inventory holds an unpaid booking still has
+ * Holds past their expiry stay ACTIVE until the hold job runs; this frees
+ * them even when that job is disabled.
+ */
+const releaseBookingHolds = async (tx: Prisma.TransactionClient, booking: Booking): Promise<void> => {
+  if (booking.busScheduleId) {
+    const holds = await tx.seatHold.findMany({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+    for (const hold of holds) {
+      await releaseHold(hold.id, 'EXPIRED', 'BUS', tx);
+    }
+  }
+
+  if (booking.flightScheduleId) {
+    const holds = await tx.flightSeatHold.findMany({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+    for (const hold of holds) {
+      await releaseHold(hold.id, 'EXPIRED', 'FLIGHT', tx);
+    }
+  }
+
+  if (booking.roomInventoryId) {
+    const holds = await tx.roomHold.findMany({
+      where: { bookingId: booking.id, status: HoldStatus.ACTIVE },
+    });
+    for (const hold of holds) {
+      await releaseHold(hold.id, 'EXPIRED', 'HOTEL', tx);
+    }
+  }
+
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+};
+
+/**
+ * Mark an unpaid booking failed and give back its inventory, coupon and wallet reservation
+ * Claimed with a conditional update on PENDING: if a verify call or another run
+ * settled the booking first this is a no-op, and a verify arriving after expiry
+ * finds the booking FAILED and refunds the payment.
+ */
+const expirePendingBooking = async (booking: Booking): Promise<boolean> => {
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: booking.id, status: BookingStatus.PENDING },
+      data: { status: BookingStatus.FAILED, paymentStatus: PaymentStatus.FAILED },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await reverseCouponRedemption(tx, booking.id);
+    await releaseBookingWalletHold(tx, booking.id, `Booking ${booking.bookingNumber} expired unpaid`);
+    await releaseBookingHolds(tx, booking);
+    return true;
+  });
+
+  if (claimed) {
+    logger.info(`Booking ${booking.bookingNumber} expired unpaid`);
+  }
+
+  return claimed;
+};
+
+/**
+ * A payment captured after the booking's inventory was sold (or whose wallet
+ * share can no longer be collected) cannot be honoured: cancel the booking and
+ * refund the full gateway capture to the customer
+ * Also takes a booking that expired unpaid before the payment was verified.
+ * Claimed on PENDING / FAILED, so the capture is refunded once.
+ */
+export const refundLapsedPayment = async (
+  booking: Booking,
+  payment: GatewayPaymentStatus,
+  reason = 'Payment received after the booking hold expired'
+): Promise<boolean> => {
+  const paidAmount = (payment.amount || 0) / 100;
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: booking.id, status: { in: [BookingStatus.PENDING, BookingStatus.FAILED] } },
+      data: {
+        status: BookingStatus.CANCELLED,
+        paymentStatus: PaymentStatus.CAPTURED,
+        paidAmount,
+        walletAmount: 0,
+        gatewayAmount: paidAmount,
+        razorpayPaymentId: payment.paymentId,
+        paymentMethod: getPaymentProvider().name,
+        cancelledAt: new Date(),
+        cancelledBy: 'SYSTEM',
+        cancellationReason: reason,
+        refundAmount: paidAmount,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.cancellationRequest.create({
+      data: {
+        bookingId: booking.id,
+        type: 'SYSTEM_INITIATED',
+        requestedBy: 'SYSTEM',
+        reason,
+        eligibleRefundAmount: paidAmount,
+        cancellationCharges: 0,
+        finalRefundAmount: paidAmount,
+        status: 'APPROVED',
+        approvedBy: 'SYSTEM',
+        approvedAt: new Date(),
+        refundStatus: paidAmount > 0 ? 'PENDING' : 'COMPLETED',
+      },
+    });
+
+    await reverseCouponRedemption(tx, booking.id);
+    await releaseBookingWalletHold(tx, booking.id, `Booking ${booking.bookingNumber} paid by gateway`);
+    await releaseBookingHolds(tx, booking);
+    return true;
+  });
+
+  if (claimed) {
+    await processBookingRefunds(booking.id);
+    logger.warn(`Booking ${booking.bookingNumber} paid after its hold lapsed - refunding ${paidAmount}`);
+  }
+
+  return claimed;
+};
+
+// ============================================================================
+// PENDING BOOKING RECONCILIATION
+// ============================================================================
+
+const reconcileBooking = async (
+  booking: Booking & { passengers: { seatNumber: string | null }[] }
+): Promise<ReconcileOutcome> => {
+  const holdState = await getInventoryHoldState(booking);
+
+  // Never reached the gateway (or wallet reservation): only the hold matters
+  if (!booking.razorpayOrderId) {
+    if (holdState === 'held') {
+      return 'skipped';
+    }
+    return (await expirePendingBooking(booking)) ? 'expired' : 'skipped';
+  }
+
+  const payment = await getPaymentProvider().fetchPaymentStatus(booking.razorpayOrderId);
+
+  switch (payment.status) {
+    case 'captured':
+      // A lapsed hold is rebooked from availability if the inventory is still free
+      try {
+        // A split payment also collects its wallet share
+        const walletAmount = Number(booking.walletAmount);
+        await confirmBooking(booking.id, {
+          razorpayOrderId: booking.razorpayOrderId,
+          razorpayPaymentId: payment.paymentId,
+          paymentMethod: walletAmount > 0 ? 'split' : getPaymentProvider().name,
+          paidAmount: (payment.amount || 0) / 100 + walletAmount,
+          walletAmount,
+        });
+      } catch (error) {
+        // Anything but a known terminal condition is retried on the next run
+        if (!(error instanceof BookingConfirmationError)) {
+          throw error;
+        }
+
+        // Settled meanwhile (a verify call got there first) - nothing left to do
+        if (error.reason === 'NOT_PENDING') {
+          return 'skipped';
+        }
+
+        // Inventory or wallet share no longer available - the gateway share goes back
+        logger.warn(`Booking ${booking.bookingNumber} could not be confirmed: ${error.message}`);
+        return (await refundLapsedPayment(booking, payment)) ? 'refunded' : 'skipped';
+      }
+      logger.info(`Booking ${booking.bookingNumber} confirmed from gateway order ${booking.razorpayOrderId}`);
+      return 'confirmed';
+
+    case 'authorized':
+      // Capture is still pending at the gateway; decide on the next run
+      return 'skipped';
+
+    default:
+      if (holdState === 'held') {
+        return 'skipped';
+      }
+      return (await expirePendingBooking(booking)) ? 'expired' : 'skipped';
+  }
+};
+
+/**
+ * Settle PENDING bookings older than PAYMENT_RECONCILE_AFTER_MINUTES
+ */
+export const reconcilePendingPayments = async (): Promise<PaymentReconciliationResult> => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: BookingStatus.PENDING,
+      createdAt: { lt: new Date(Date.now() - PAYMENT_RECONCILE_AFTER_MINUTES * 60 * 1000) },
+    },
+    include: { passengers: { select: { seatNumber: true } } },
+    orderBy: { createdAt: 'asc' },
+    take: PAYMENT_RECONCILE_BATCH_SIZE,
+  });
+
+  const result: PaymentReconciliationResult = {
+    checked: bookings.length,
+    confirmed: 0,
+    refunded: 0,
+    expired: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const booking of bookings) {
+    try {
+      result[await reconcileBooking(booking)]++;
+    } catch (error) {
+      result.failed++;
+      logger.error(`Failed to reconcile booking ${booking.bookingNumber}:`, error);
+    }
+  }
+
+  if (bookings.length > 0) {
+    logger.info(
+      `Payment reconciliation: ${result.confirmed} confirmed, ${result.refunded} refunded, ` +
+        `${result.expired} expired, ${result.skipped} skipped, ${result.failed} failed`
+    );
+  }
+
+  return result;
+};
+
+// ============================================================================
+// SETTLEMENT REPORT
+// ============================================================================
+
+/**
+ * What the booking's own payment order should have captured
+ * paidAmount is net of partial cancellations, includes reschedule payments
+ * (paid against separate orders) and the wallet share of split payments.
+ */
+const getBookingOrderAmount = (
+  booking: Booking & {
+    amendments: { eligibleRefundAmount: Prisma.Decimal }[];
+    reschedules: { amountDue: Prisma.Decimal }[];
+  }
+): number => {
+  // Bookings with a recorded tender breakdown know their gateway share exactly
+  if (Number(booking.walletAmount) + Number(booking.gatewayAmount) > 0) {
+    return Number(booking.gatewayAmount);
+  }
+
+  const amended = booking.amendments.reduce((sum, a) => sum + Number(a.eligibleRefundAmount), 0);
+  const rescheduled = booking.reschedules.reduce((sum, r) => sum + Number(r.amountDue), 0);
+  return Math.round((Number(booking.paidAmount) + amended - rescheduled) * 100) / 100;
+};
+
+/**
+ * Compare gateway captures with Booking.paidAmount for bookings created on a day
+ * The report for a day is replaced when it is run again.
+ */
+export const buildSettlementReport = async (date: Date): Promise<PaymentReconciliationReport> => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      razorpayOrderId: { not: null },
+      createdAt: { gte: start, lt: end },
+    },
+    include: {
+      amendments: { select: { eligibleRefundAmount: true } },
+      reschedules: { where: { status: 'COMPLETED' }, select: { amountDue: true } },
+    },
+  });
+
+  const mismatches: SettlementMismatch[] = [];
+  let gatewayTotal = 0;
+  let bookedTotal = 0;
+
+  for (const booking of bookings) {
+    const orderId = booking.razorpayOrderId!;
+
+    let payment: GatewayPaymentStatus;
+    try {
+      payment = await getPaymentProvider().fetchPaymentStatus(orderId);
+    } catch (error) {
+      logger.error(`Settlement report: failed to fetch order ${orderId}:`, error);
+      continue;
+    }
+
+    const gatewayAmount = payment.status === 'captured' ? (payment.amount || 0) / 100 : 0;
+    const bookedAmount = booking.paymentStatus === PaymentStatus.PENDING ? 0 : getBookingOrderAmount(booking);
+    gatewayTotal += gatewayAmount;
+    bookedTotal += bookedAmount;
+
+    if (Math.abs(gatewayAmount - bookedAmount) < 0.01) {
+      continue;
+    }
+
+    mismatches.push({
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      orderId,
+      reason:
+        bookedAmount === 0 ? 'CAPTURED_NOT_RECORDED' : gatewayAmount === 0 ? 'RECORDED_NOT_CAPTURED' : 'AMOUNT_MISMATCH',
+      gatewayAmount,
+      bookedAmount,
+    });
+  }
+
+  const data = {
+    checkedCount: bookings.length,
+    mismatchCount: mismatches.length,
+    gatewayTotal: Math.round(gatewayTotal * 100) / 100,
+    bookedTotal: Math.round(bookedTotal * 100) / 100,
+    mismatches: mismatches as unknown as Prisma.InputJsonArray,
+  };
+
+  const report = await prisma.paymentReconciliationReport.upsert({
+    where: { reportDate: start },
+    create: { reportDate: start, ...data },
+    update: data,
+  });
+
+  const message = `Settlement report ${start.toISOString().slice(0, 10)}: ${bookings.length} checked, ${mismatches.length} mismatched`;
+  if (mismatches.length > 0) {
+    logger.warn(message);
+  } else {
+    logger.info(message);
+  }
+
+  return report;
+};
+
+// ============================================================================
+// CRON JOBS
+// ============================================================================
+
+/**
+ * Start payment reconciliation jobs
+ * Pending bookings every 10 minutes, settlement report for the previous day at 01:00
+ */
+export const startPaymentReconciliationCron = (): void => {
+  cron.schedule('*/10 * * * *', async () => {
+    logger.debug('Running payment reconciliation job...');
+    try {
+      await reconcilePendingPayments();
+    } catch (error) {
+      logger.error('Payment reconciliation job failed:', error);
+    }
+  });
+
+  cron.schedule('0 1 * * *', async () => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    try {
+      await buildSettlementReport(yesterday);
+    } catch (error) {
+      logger.error('Failed to build settlement report:', error);
+    }
+  });
+
+  logger.info('Payment reconciliation jobs scheduled (every 10 minutes, daily report)');
+};
\ No newline at end of file
@@ -0,0 +1,392 @@
+/**
+ * POLICY SERVICE
+ * Business policies stored in the Policy table
+ *
+ * Features:
+ * - Typed rule schemas for CANCELLATION, REFUND, BOOKING and HOLD policies
+ * - Versioned policies: a new version of a name takes over from its effectiveFrom
+ * - Policies scoped by booking category and partner
+ * - Evaluation API: most specific active version wins; built-in rules when none is configured
+ * - Cancellation charge slabs by hours before departure / check-in
+ */
+
+import { prisma } from '../server';
+import { BookingCategory, Policy, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { CancellationSlab, CreatePolicyRequest, UpdatePolicyRequest } from '../types';
+import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, getCached, invalidateCache, setCached } from '../utils/cache';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// RULE SCHEMAS
+// ============================================================================
+
+const cancellationSlabSchema = z
+  .object({
+    minHoursBefore: z.number().min(0),
+    chargePercentage: z.number().min(0).max(100),
+  })
+  .strict();
+
+const POLICY_RULE_SCHEMAS = {
+  // { "slabs": [{ "minHoursBefore": 48, "chargePercentage": 10 }, ...] }
+  CANCELLATION: z
+    .object({
+      slabs: z
+        .array(cancellationSlabSchema)
+        .min(1)
+        .transform((slabs) => [...slabs].sort((a, b) => b.minHoursBefore - a.minHoursBefore)),
+    })
+    .strict(),
+  REFUND: z
+    .object({
+      processingDays: z.number().int().min(0).max(90), // Flight fare rules take precedence
+    })
+    .strict(),
+  BOOKING: z
+    .object({
+      paymentHoldMinutes: z.number().int().min(1).max(60),
+      maxFlightSegments: z.number().int().min(1).max(10),
+    })
+    .strict(),
+  HOLD: z
+    .object({
+      expiryMinutes: z.number().int().min(1).max(24 * 60), // When the caller does not set one
+      quotaPercentage: z.number().min(0).max(100), // Defaults for new partners
+    })
+    .strict(),
+};
+
+export type PolicyCategory = keyof typeof POLICY_RULE_SCHEMAS;
+
+export type PolicyRules = { [C in PolicyCategory]: z.infer<(typeof POLICY_RULE_SCHEMAS)[C]> };
+
+export const POLICY_CATEGORIES = Object.keys(POLICY_RULE_SCHEMAS) as PolicyCategory[];
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const POLICY_CACHE_TTL_SECONDS = 60;
+
+// Rules used when no policy of a category applies
+export const DEFAULT_POLICY_RULES: PolicyRules = {
+  // 10% more than 48h out, 50% between 12h and 48h, 100% under 12h
+  CANCELLATION: {
+    slabs: [
+      { minHoursBefore: 48, chargePercentage: 10 },
+      { minHoursBefore: 12, chargePercentage: 50 },
+      { minHoursBefore: 0, chargePercentage: 100 },
+    ],
+  },
+  REFUND: {
+    processingDays: parseInt(process.env.REFUND_PROCESSING_DAYS || '7'),
+  },
+  BOOKING: {
+    paymentHoldMinutes: parseInt(process.env.BOOKING_PAYMENT_HOLD_MINUTES || '10'),
+    maxFlightSegments: 5,
+  },
+  HOLD: {
+    expiryMinutes: parseInt(process.env.DEFAULT_HOLD_EXPIRY_MINUTES || '30'),
+    quotaPercentage: parseFloat(process.env.DEFAULT_HOLD_QUOTA_PERCENTAGE || '25'),
+  },
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PolicyContext {
+  bookingCategory?: BookingCategory | null;
+  partnerId?: string | null;
+  at?: Date; // Defaults to now
+}
+
+export interface EvaluatedPolicy<C extends PolicyCategory> {
+  policyId: string | null; // null when the built-in rules apply
+  name: string;
+  version: number | null;
+  category: C;
+  rules: PolicyRules[C];
+  effectiveFrom: Date | null;
+  effectiveUntil: Date | null;
+}
+
+export interface CancellationPolicy {
+  policyId: string | null;
+  name: string;
+  slabs: CancellationSlab[]; // Highest minHoursBefore first
+}
+
+// ============================================================================
+// RULE VALIDATION
+// ============================================================================
+
+export const isPolicyCategory = (value: unknown): value is PolicyCategory =>
+  typeof value === 'string' && value in POLICY_RULE_SCHEMAS;
+
+/**
+ * Validate rules against a category's schema
+ * Returns the normalized rules (e.g. slabs sorted) or throws with every issue found.
+ */
+export const validatePolicyRules = <C extends PolicyCategory>(category: C, rules: unknown): PolicyRules[C] => {
+  const result = POLICY_RULE_SCHEMAS[category].safeParse(rules);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${['rules', ...issue.path].join('.')}: ${issue.message}`);
+    throw new Error(`Invalid ${category} policy rules - ${issues.join('; ')}`);
+  }
+
+  return result.data as PolicyRules[C];
+};
+
+// ============================================================================
+// POLICY LOOKUP
+// ============================================================================
+
+// Partner + category beats partner, which beats category, which beats global
+const specificity = (policy: Policy): number =>
+  (policy.partnerId ? 2 : 0) + (policy.bookingCategory ? 1 : 0);
+
+/**
+ * Most specific active policy of a kind for a booking category and partner
+ * Among equally specific policies the latest effective one applies, so a
+ * new version supersedes the previous one once its effectiveFrom passes.
+ */
+const findActivePolicy = async (
+  category: PolicyCategory,
+  context: PolicyContext,
+  db: DbClient = prisma
+): Promise<Policy | null> => {
+  const at = context.at || new Date();
+
+  const policies = await db.policy.findMany({
+    where: {
+      category,
+      isActive: true,
+      effectiveFrom: { lte: at },
+      AND: [
+        { OR: [{ effectiveUntil: null }, { effectiveUntil: { gt: at } }] },
+        { OR: [...(context.bookingCategory ? [{ bookingCategory: context.bookingCategory }] : []), { bookingCategory: null }] },
+        { OR: [...(context.partnerId ? [{ partnerId: context.partnerId }] : []), { partnerId: null }] },
+      ],
+    },
+    orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+  });
+
+  return policies.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+};
+
+/**
+ * Evaluate the policy of a category for a booking category / partner
+ * Falls back to the built-in rules when nothing applies or the stored rules
+ * no longer validate.
+ */
+export const evaluatePolicy = async <C extends PolicyCategory>(
+  category: C,
+  context: PolicyContext = {},
+  db: DbClient = prisma
+): Promise<EvaluatedPolicy<C>> => {
+  const cacheKey = `${category}:${context.bookingCategory || '*'}:${context.partnerId || '*'}`;
+
+  // Previews of other dates skip the cache
+  if (!context.at) {
+    const cached = getCached<EvaluatedPolicy<C>>(CACHE_NAMESPACES.POLICIES, cacheKey);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  let evaluated: EvaluatedPolicy<C> | null = null;
+  const policy = await findActivePolicy(category, context, db);
+
+  if (policy) {
+    try {
+      evaluated = {
+        policyId: policy.id,
+        name: policy.name,
+        version: policy.version,
+        category,
+        rules: validatePolicyRules(category, policy.rules),
+        effectiveFrom: policy.effectiveFrom,
+        effectiveUntil: policy.effectiveUntil,
+      };
+    } catch (error) {
+      logger.warn(`Policy ${policy.name} v${policy.version} is invalid, using defaults: ${(error as Error).message}`);
+    }
+  }
+
+  if (!evaluated) {
+    evaluated = {
+      policyId: null,
+      name: `Default ${category.toLowerCase()} policy`,
+      version: null,
+      category,
+      rules: DEFAULT_POLICY_RULES[category],
+      effectiveFrom: null,
+      effectiveUntil: null,
+    };
+  }
+
+  if (!context.at) {
+    setCached(CACHE_NAMESPACES.POLICIES, cacheKey, evaluated, POLICY_CACHE_TTL_SECONDS);
+  }
+
+  return evaluated;
+};
+
+// ============================================================================
+// POLICY MANAGEMENT
+// ============================================================================
+
+const assertEffectiveWindow = (effectiveFrom: Date, effectiveUntil?: Date | null) => {
+  if (isNaN(effectiveFrom.getTime()) || (effectiveUntil && isNaN(effectiveUntil.getTime()))) {
+    throw new Error('Invalid effective dates');
+  }
+
+  if (effectiveUntil && effectiveUntil <= effectiveFrom) {
+    throw new Error('effectiveUntil must be after effectiveFrom');
+  }
+};
+
+/**
+ * Create a policy, or the next version of an existing policy name
+ * Versions keep the category and scope of the first version.
+ */
+export const createPolicy = async (data: CreatePolicyRequest, createdBy: string): Promise<Policy> => {
+  if (!isPolicyCategory(data.category)) {
+    throw new Error(`Category must be one of ${POLICY_CATEGORIES.join(', ')}`);
+  }
+
+  const rules = validatePolicyRules(data.category, data.rules);
+  const effectiveFrom = new Date(data.effectiveFrom);
+  const effectiveUntil = data.effectiveUntil ? new Date(data.effectiveUntil) : null;
+  assertEffectiveWindow(effectiveFrom, effectiveUntil);
+
+  if (data.partnerId) {
+    const partner = await prisma.partner.findUnique({ where: { id: data.partnerId } });
+    if (!partner) {
+      throw new Error('Partner not found');
+    }
+  }
+
+  const latest = await prisma.policy.findFirst({
+    where: { name: data.name },
+    orderBy: { version: 'desc' },
+  });
+
+  if (
+    latest &&
+    (latest.category !== data.category ||
+      latest.bookingCategory !== (data.bookingCategory ?? null) ||
+      latest.partnerId !== (data.partnerId ?? null))
+  ) {
+    throw new Error(`Policy ${data.name} already exists with a different category or scope`);
+  }
+
+  const policy = await prisma.policy.create({
+    data: {
+      name: data.name,
+      version: latest ? latest.version + 1 : 1,
+      category: data.category,
+      description: data.description,
+      bookingCategory: data.bookingCategory,
+      partnerId: data.partnerId,
+      rules: rules as Prisma.InputJsonValue,
+      effectiveFrom,
+      effectiveUntil,
+      createdBy,
+    },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.POLICIES);
+
+  return policy;
+};
+
+/**
+ * Update a policy version
+ * Rules and effectiveFrom are frozen once the version has taken effect;
+ * publish a new version to change them.
+ */
+export const updatePolicy = async (id: string, data: UpdatePolicyRequest): Promise<Policy> => {
+  const policy = await prisma.policy.findUnique({ where: { id } });
+
+  if (!policy) {
+    throw new Error('Policy not found');
+  }
+
+  if ((data.rules !== undefined || data.effectiveFrom !== undefined) && policy.effectiveFrom <= new Date()) {
+    throw new Error('Policy version is already in effect; create a new version to change its rules');
+  }
+
+  const rules =
+    data.rules !== undefined ? validatePolicyRules(policy.category as PolicyCategory, data.rules) : undefined;
+  const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : policy.effectiveFrom;
+  const effectiveUntil =
+    data.effectiveUntil === undefined ? policy.effectiveUntil : data.effectiveUntil && new Date(data.effectiveUntil);
+  assertEffectiveWindow(effectiveFrom, effectiveUntil);
+
+  const updated = await prisma.policy.update({
+    where: { id },
+    data: {
+      description: data.description,
+      isActive: data.isActive,
+      rules: rules as Prisma.InputJsonValue | undefined,
+      effectiveFrom,
+      effectiveUntil,
+    },
+  });
+
+  invalidateCache(CACHE_NAMESPACES.POLICIES);
+
+  return updated;
+};
+
+/**
+ * Delete a policy version that has not taken effect yet
+ * Versions that were in effect stay for history; deactivate them instead.
+ */
+export const deletePolicy = async (id: string): Promise<void> => {
+  const policy = await prisma.policy.findUnique({ where: { id } });
+
+  if (!policy) {
+    throw new Error('Policy not found');
+  }
+
+  if (policy.effectiveFrom <= new Date()) {
+    throw new Error('Policy version has already taken effect; deactivate it instead');
+  }
+
+  await prisma.policy.delete({ where: { id } });
+
+  invalidateCache(CACHE_NAMESPACES.POLICIES);
+};
+
+// ============================================================================
+// CANCELLATION SLABS
+// ============================================================================
+
+/**
+ * Cancellation slabs for a booking category and partner
+ */
+export const getCancellationPolicy = async (
+  bookingCategory: BookingCategory,
+  partnerId: string | null,
+  db: DbClient = prisma
+): Promise<CancellationPolicy> => {
+  const policy = await evaluatePolicy('CANCELLATION', { bookingCategory, partnerId }, db);
+
+  return { policyId: policy.policyId, name: policy.name, slabs: policy.rules.slabs };
+};
+
+/**
+ * Slab that applies when cancelling a given number of hours before travel
+ * Returns null once travel has started (or is closer than the last slab).
+ */
+export const findCancellationSlab = (
+  slabs: CancellationSlab[],
+  hoursBefore: number
+): CancellationSlab | null => slabs.find((slab) => hoursBefore >= slab.minHoursBefore) || null;
\ No newline at end of file
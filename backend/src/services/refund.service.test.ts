@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { prisma } from '../server';
+import { getPaymentProvider } from './paymentProvider.service';
+import { processRefund, splitRefundByTender } from './refund.service';
+
+jest.mock('../server', () => ({
+  prisma: {
+    refund: { updateMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('./paymentProvider.service', () => {
+  const provider = { name: 'mock', refund: jest.fn() };
+  return {
+    ...jest.requireActual<object>('./paymentProvider.service'),
+    getPaymentProvider: () => provider,
+  };
+});
+
+type MockFn = jest.Mock<(...args: any[]) => any>;
+
+const db = prisma as unknown as { refund: Record<'updateMany' | 'findUnique' | 'update', MockFn> };
+const gateway = getPaymentProvider() as unknown as { refund: MockFn };
+
+describe('splitRefundByTender', () => {
+  it('splits in proportion to what each tender paid, to the paisa', () => {
+    const split = splitRefundByTender({ paymentMethod: 'split', walletAmount: 333.33, gatewayAmount: 666.67 } as never, 100);
+
+    expect(split).toEqual({ walletAmount: 33.33, gatewayAmount: 66.67 });
+  });
+
+  it('puts the rounding remainder on the gateway so the parts add up', () => {
+    const split = splitRefundByTender({ paymentMethod: 'split', walletAmount: 100, gatewayAmount: 200 } as never, 0.05);
+
+    expect(split).toEqual({ walletAmount: 0.02, gatewayAmount: 0.03 });
+    expect(split.walletAmount + split.gatewayAmount).toBeCloseTo(0.05, 10);
+  });
+
+  it('refunds bookings without a tender breakdown to how they were paid', () => {
+    expect(splitRefundByTender({ paymentMethod: 'wallet', walletAmount: 0, gatewayAmount: 0 } as never, 250)).toEqual({
+      walletAmount: 250,
+      gatewayAmount: 0,
+    });
+    expect(splitRefundByTender({ paymentMethod: 'razorpay', walletAmount: 0, gatewayAmount: 0 } as never, 250)).toEqual({
+      walletAmount: 0,
+      gatewayAmount: 250,
+    });
+  });
+});
+
+describe('processRefund', () => {
+  const refund = {
+    id: 'refund_1',
+    method: 'GATEWAY',
+    amount: 500,
+    attempts: 1,
+    razorpayPaymentId: 'pay_1',
+    cancellationRequestId: null,
+    amendmentId: null,
+    rescheduleId: null,
+    fareLockId: null,
+    booking: { bookingNumber: 'BK-1', userId: 'user_1' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.refund.update.mockImplementation(async ({ data }: any) => ({ ...refund, ...data }));
+  });
+
+  it('leaves a refund another worker claimed alone', async () => {
+    db.refund.updateMany.mockResolvedValue({ count: 0 });
+    db.refund.findUnique.mockResolvedValue({ ...refund, status: 'PROCESSING' });
+
+    await expect(processRefund(refund.id)).resolves.toMatchObject({ status: 'PROCESSING' });
+    expect(db.refund.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: refund.id, status: { in: ['PENDING', 'FAILED'] } } })
+    );
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry with backoff when the gateway call fails', async () => {
+    db.refund.updateMany.mockResolvedValue({ count: 1 });
+    db.refund.findUnique.mockResolvedValue({ ...refund, attempts: 2 });
+    gateway.refund.mockRejectedValue(new Error('Gateway timeout'));
+
+    const before = Date.now();
+    const failed = await processRefund(refund.id);
+
+    expect(gateway.refund).toHaveBeenCalledWith(
+      'pay_1',
+      expect.objectContaining({ amount: 50000, idempotencyKey: 'refund:refund_1' })
+    );
+    expect(failed).toMatchObject({ status: 'FAILED', lastError: 'Gateway timeout' });
+    // Second attempt waits twice the 15 minute base
+    expect(failed.nextRetryAt!.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(failed.nextRetryAt!.getTime()).toBeLessThan(before + 31 * 60 * 1000);
+  });
+
+  it('stops retrying once the attempts are used up', async () => {
+    db.refund.updateMany.mockResolvedValue({ count: 1 });
+    db.refund.findUnique.mockResolvedValue({ ...refund, attempts: 5 });
+    gateway.refund.mockRejectedValue(new Error('Gateway timeout'));
+
+    await expect(processRefund(refund.id)).resolves.toMatchObject({ status: 'FAILED', nextRetryAt: null });
+  });
+
+  it('does not retry a gateway refund without a payment to refund', async () => {
+    db.refund.updateMany.mockResolvedValue({ count: 1 });
+    db.refund.findUnique.mockResolvedValue({ ...refund, razorpayPaymentId: null });
+
+    await expect(processRefund(refund.id)).resolves.toMatchObject({ status: 'FAILED', nextRetryAt: null });
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
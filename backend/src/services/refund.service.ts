@@ -0,0 +1,768 @@
+/**
+ * REFUND SERVICE
+ * Pays out cancellation and amendment refunds
+ *
+ * Features:
+ * - Gateway refunds back to the original card / UPI payment (configured payment provider)
+ * - Wallet credit for bookings paid from the wallet
+ * - Split-tender bookings refunded to wallet and gateway in proportion to what each paid
+ * - Gateway refunds spread over the original payment and reschedule top-ups
+ * - Refund status mirrored on the cancellation request / amendment (PROCESSING, COMPLETED, FAILED)
+ * - Webhook reconciliation of refund.processed / refund.failed, polled when a webhook is lost
+ * - Failed refunds retried with exponential backoff via cron job
+ * - Full refunds of gateway payments that could not be applied (lapsed fare locks and reschedules)
+ */
+
+import { prisma } from '../server';
+import {
+  Booking,
+  BookingStatus,
+  PaymentStatus,
+  Prisma,
+  Refund,
+  RefundMethod,
+  RefundStatus,
+  RescheduleStatus,
+} from '@prisma/client';
+import { getPaymentProvider, getPaymentErrorMessage, GatewayRefund } from './paymentProvider.service';
+import { creditWalletRefund } from './wallet.service';
+import { logger } from '../utils/logger';
+import cron from 'node-cron';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const REFUND_MAX_ATTEMPTS = parseInt(process.env.REFUND_MAX_ATTEMPTS || '5');
+const REFUND_RETRY_BASE_MINUTES = parseInt(process.env.REFUND_RETRY_BASE_MINUTES || '15');
+const REFUND_STALE_PROCESSING_MINUTES = parseInt(process.env.REFUND_STALE_PROCESSING_MINUTES || '30');
+const REFUND_BATCH_SIZE = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type RefundWithBooking = Refund & { booking: Booking | null };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Split a refund across the tenders that paid the booking, in proportion
+ * Bookings paid before the wallet / gateway breakdown was recorded go back
+ * wholly to their payment method.
+ */
+export const splitRefundByTender = (
+  booking: Pick<Booking, 'paymentMethod' | 'walletAmount' | 'gatewayAmount'>,
+  amount: number
+): { walletAmount: number; gatewayAmount: number } => {
+  const wallet = Number(booking.walletAmount);
+  const gateway = Number(booking.gatewayAmount);
+
+  if (wallet + gateway <= 0) {
+    return booking.paymentMethod === 'wallet'
+      ? { walletAmount: amount, gatewayAmount: 0 }
+      : { walletAmount: 0, gatewayAmount: amount };
+  }
+
+  const walletAmount = Math.round(((amount * wallet) / (wallet + gateway)) * 100) / 100;
+  return { walletAmount, gatewayAmount: Math.round((amount - walletAmount) * 100) / 100 };
+};
+
+/**
+ * What a refund pays back, for logs and gateway notes
+ */
+const describeRefund = (refund: RefundWithBooking): string =>
+  refund.rescheduleId
+    ? `reschedule ${refund.rescheduleId}`
+    : refund.booking
+      ? `booking ${refund.booking.bookingNumber}`
+      : `fare lock ${refund.fareLockId}`;
+
+/**
+ * Next retry after a failed attempt: base, 2x base, 4x base, ...
+ * null once the attempts are used up (admins can still retry by hand).
+ */
+const getNextRetryAt = (attempts: number): Date | null =>
+  attempts >= REFUND_MAX_ATTEMPTS
+    ? null
+    : new Date(Date.now() + REFUND_RETRY_BASE_MINUTES * 2 ** Math.max(0, attempts - 1) * 60 * 1000);
+
+/**
+ * Mirror a refund's status onto the cancellation request or amendment it pays out
+ * A split-tender source has one refund per tender and is only COMPLETED once
+ * every part is; any failed part shows as FAILED.
+ */
+const syncRefundSource = async (
+  db: DbClient,
+  refund: Refund,
+  data: { status: RefundStatus; transactionId?: string | null; processedAt?: Date }
+) => {
+  if (!refund.cancellationRequestId && !refund.amendmentId) {
+    return;
+  }
+
+  const parts = await db.refund.findMany({
+    where: refund.cancellationRequestId
+      ? { cancellationRequestId: refund.cancellationRequestId }
+      : { amendmentId: refund.amendmentId },
+    select: { id: true, status: true },
+  });
+
+  const statuses = parts.map((part) => (part.id === refund.id ? data.status : part.status));
+  const status = statuses.includes(RefundStatus.FAILED)
+    ? RefundStatus.FAILED
+    : statuses.every((partStatus) => partStatus === RefundStatus.COMPLETED)
+      ? RefundStatus.COMPLETED
+      : parts.length > 1
+        ? RefundStatus.PROCESSING
+        : data.status;
+  const processedAt = status === RefundStatus.COMPLETED ? data.processedAt : undefined;
+
+  if (refund.cancellationRequestId) {
+    await db.cancellationRequest.update({
+      where: { id: refund.cancellationRequestId },
+      data: {
+        refundStatus: status,
+        ...(data.transactionId !== undefined && { refundTransactionId: data.transactionId }),
+        ...(processedAt && { refundProcessedAt: processedAt }),
+      },
+    });
+  }
+
+  if (refund.amendmentId) {
+    await db.bookingAmendment.update({
+      where: { id: refund.amendmentId },
+      data: { refundStatus: status },
+    });
+  }
+};
+
+/**
+ * Spread a booking's gateway refund over the gateway payments that paid it
+ * The original payment and every reschedule top-up paid through the gateway
+ * can each give back what they captured, less the gateway refunds already
+ * queued against them. Whatever does not fit (rounding) is returned.
+ */
+const allocateGatewayRefund = async (
+  db: DbClient,
+  booking: Booking,
+  amount: number
+): Promise<{ parts: { razorpayPaymentId: string; amount: number }[]; unallocated: number }> => {
+  const topUps = await db.bookingReschedule.findMany({
+    where: {
+      bookingId: booking.id,
+      status: RescheduleStatus.COMPLETED,
+      razorpayPaymentId: { not: null },
+      amountDue: { gt: 0 },
+    },
+    orderBy: { completedAt: 'asc' },
+  });
+
+  const topUpTotal = topUps.reduce((sum, reschedule) => sum + Number(reschedule.amountDue), 0);
+  const payments = [
+    ...(booking.razorpayPaymentId
+      ? [{ razorpayPaymentId: booking.razorpayPaymentId, captured: Number(booking.gatewayAmount) - topUpTotal }]
+      : []),
+    ...topUps.map((reschedule) => ({
+      razorpayPaymentId: reschedule.razorpayPaymentId!,
+      captured: Number(reschedule.amountDue),
+    })),
+  ];
+
+  const refunded = await db.refund.findMany({
+    where: {
+      bookingId: booking.id,
+      method: RefundMethod.GATEWAY,
+      rescheduleId: null,
+      razorpayPaymentId: { in: payments.map((payment) => payment.razorpayPaymentId) },
+    },
+    select: { razorpayPaymentId: true, amount: true },
+  });
+
+  const parts: { razorpayPaymentId: string; amount: number }[] = [];
+  let remaining = amount;
+
+  for (const payment of payments) {
+    const alreadyRefunded = refunded
+      .filter((refund) => refund.razorpayPaymentId === payment.razorpayPaymentId)
+      .reduce((sum, refund) => sum + Number(refund.amount), 0);
+    const part = Math.round(Math.min(remaining, payment.captured - alreadyRefunded) * 100) / 100;
+
+    if (part > 0) {
+      parts.push({ razorpayPaymentId: payment.razorpayPaymentId, amount: part });
+      remaining = Math.round((remaining - part) * 100) / 100;
+    }
+  }
+
+  return { parts, unallocated: remaining };
+};
+
+/**
+ * One refund per tender the booking was paid with, and one per gateway payment
+ * Gateway refunds the payments cannot absorb go to the wallet instead, so no
+ * part asks the gateway for more than a payment captured.
+ */
+const createRefunds = async (
+  db: DbClient,
+  bookingId: string,
+  amount: Prisma.Decimal,
+  source: { cancellationRequestId: string } | { amendmentId: string }
+): Promise<Refund[]> => {
+  const booking = await db.booking.findUnique({
+    where: { id: bookingId },
+  });
+
+  if (!booking) {
+    throw new Error('Booking not found');
+  }
+
+  const split = splitRefundByTender(booking, Number(amount));
+  const gateway = booking.razorpayPaymentId
+    ? await allocateGatewayRefund(db, booking, split.gatewayAmount)
+    : { parts: [{ razorpayPaymentId: null, amount: split.gatewayAmount }], unallocated: 0 };
+
+  const parts = [
+    {
+      method: RefundMethod.WALLET,
+      amount: Math.round((split.walletAmount + gateway.unallocated) * 100) / 100,
+      razorpayPaymentId: null,
+    },
+    ...gateway.parts.map((part) => ({ method: RefundMethod.GATEWAY, ...part })),
+  ].filter((part) => part.amount > 0);
+
+  const refunds: Refund[] = [];
+  for (const part of parts) {
+    refunds.push(
+      await db.refund.create({
+        data: {
+          bookingId,
+          ...source,
+          amount: part.amount,
+          method: part.method,
+          razorpayPaymentId: part.razorpayPaymentId,
+        },
+      })
+    );
+  }
+
+  return refunds;
+};
+
+// ============================================================================
+// QUEUE REFUNDS
+// ============================================================================
+
+/**
+ * Create the payouts for an approved cancellation request (once)
+ */
+export const queueCancellationRefund = async (
+  cancellationRequestId: string,
+  db: DbClient = prisma
+): Promise<Refund[]> => {
+  const request = await db.cancellationRequest.findUnique({
+    where: { id: cancellationRequestId },
+    include: { refunds: true },
+  });
+
+  if (!request) {
+    throw new Error('Cancellation request not found');
+  }
+
+  if (request.status !== 'APPROVED' || Number(request.finalRefundAmount) <= 0) {
+    return [];
+  }
+
+  if (request.refunds.length > 0) {
+    return request.refunds;
+  }
+
+  return await createRefunds(db, request.bookingId, request.finalRefundAmount, {
+    cancellationRequestId,
+  });
+};
+
+/**
+ * Create the payouts for a partial cancellation (once)
+ */
+export const queueAmendmentRefund = async (amendmentId: string, db: DbClient = prisma): Promise<Refund[]> => {
+  const amendment = await db.bookingAmendment.findUnique({
+    where: { id: amendmentId },
+    include: { refunds: true },
+  });
+
+  if (!amendment) {
+    throw new Error('Amendment not found');
+  }
+
+  if (Number(amendment.finalRefundAmount) <= 0) {
+    return [];
+  }
+
+  if (amendment.refunds.length > 0) {
+    return amendment.refunds;
+  }
+
+  return await createRefunds(db, amendment.bookingId, amendment.finalRefundAmount, { amendmentId });
+};
+
+// ============================================================================
+// PROCESS REFUNDS
+// ============================================================================
+
+/**
+ * Mark a refund as paid out, on the refund, its source and the booking
+ */
+const completeRefund = async (
+  tx: DbClient,
+  refund: RefundWithBooking,
+  data: { razorpayRefundId?: string; walletTransactionId?: string }
+): Promise<Refund> => {
+  const processedAt = new Date();
+
+  const completed = await tx.refund.update({
+    where: { id: refund.id },
+    data: {
+      ...data,
+      status: RefundStatus.COMPLETED,
+      processedAt,
+      lastError: null,
+      nextRetryAt: null,
+    },
+  });
+
+  await syncRefundSource(tx, completed, {
+    status: RefundStatus.COMPLETED,
+    transactionId: completed.razorpayRefundId || completed.walletTransactionId,
+    processedAt,
+  });
+
+  // Cancellation and amendment refunds give back part of the booking's own payment
+  if (refund.booking && (refund.cancellationRequestId || refund.amendmentId)) {
+    await tx.booking.update({
+      where: { id: refund.booking.id },
+      data: {
+        paymentStatus:
+          refund.booking.status === BookingStatus.CANCELLED
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+  }
+
+  logger.info(`Refund ${refund.id} completed: ${refund.amount} for ${describeRefund(refund)}`);
+
+  return completed;
+};
+
+/**
+ * Record a failed attempt and schedule the next retry
+ */
+const failRefund = async (refund: RefundWithBooking, message: string, retryable = true): Promise<Refund> => {
+  const failed = await prisma.refund.update({
+    where: { id: refund.id },
+    data: {
+      status: RefundStatus.FAILED,
+      lastError: message,
+      nextRetryAt: retryable ? getNextRetryAt(refund.attempts) : null,
+    },
+  });
+
+  await syncRefundSource(prisma, failed, { status: RefundStatus.FAILED });
+
+  logger.error(
+    `Refund ${refund.id} for ${describeRefund(refund)} failed (attempt ${refund.attempts}): ${message}`
+  );
+
+  return failed;
+};
+
+const refundToWallet = async (refund: RefundWithBooking): Promise<Refund> => {
+  const booking = refund.booking;
+
+  if (!booking) {
+    return await failRefund(refund, 'Wallet refunds need a booking to credit', false);
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const transaction = await creditWalletRefund(tx, booking.userId, Number(refund.amount), {
+      description: `Refund for booking ${booking.bookingNumber}`,
+      referenceId: refund.id,
+      referenceType: 'REFUND',
+      idempotencyKey: `refund:${refund.id}`,
+    });
+
+    return await completeRefund(tx, refund, { walletTransactionId: transaction.id });
+  });
+};
+
+const refundToGateway = async (refund: RefundWithBooking): Promise<Refund> => {
+  if (!refund.razorpayPaymentId) {
+    return await failRefund(refund, 'Booking has no gateway payment to refund', false);
+  }
+
+  let gatewayRefund;
+  try {
+    gatewayRefund = await getPaymentProvider().refund(refund.razorpayPaymentId, {
+      amount: Math.round(Number(refund.amount) * 100), // Paise
+      receipt: refund.id,
+      idempotencyKey: `refund:${refund.id}`, // Retries of this part never refund twice
+      notes: {
+        refundId: refund.id,
+        ...(refund.booking ? { bookingNumber: refund.booking.bookingNumber } : {}),
+        ...(refund.fareLockId ? { fareLockId: refund.fareLockId } : {}),
+        ...(refund.rescheduleId ? { rescheduleId: refund.rescheduleId } : {}),
+      },
+    });
+  } catch (error) {
+    return await failRefund(refund, getPaymentErrorMessage(error));
+  }
+
+  if (gatewayRefund.status === 'processed') {
+    return await prisma.$transaction((tx) => completeRefund(tx, refund, { razorpayRefundId: gatewayRefund.id }));
+  }
+
+  if (gatewayRefund.status === 'failed') {
+    return await failRefund(refund, `Gateway refund ${gatewayRefund.id} failed`);
+  }
+
+  // Pending at the gateway; the refund webhook settles it. A webhook that
+  // arrived first has already moved the refund on, so only touch PROCESSING.
+  const { count } = await prisma.refund.updateMany({
+    where: { id: refund.id, status: RefundStatus.PROCESSING },
+    data: { razorpayRefundId: gatewayRefund.id },
+  });
+
+  if (count > 0) {
+    await syncRefundSource(prisma, refund, {
+      status: RefundStatus.PROCESSING,
+      transactionId: gatewayRefund.id,
+    });
+  }
+
+  logger.info(`Gateway refund ${gatewayRefund.id} created for ${describeRefund(refund)}`);
+
+  return (await prisma.refund.findUnique({ where: { id: refund.id } }))!;
+};
+
+/**
+ * Pay out a pending or failed refund
+ * The refund is claimed first so the cron job, admin retries and webhooks
+ * never pay the same refund twice.
+ */
+export const processRefund = async (refundId: string): Promise<Refund> => {
+  const claimed = await prisma.refund.updateMany({
+    where: { id: refundId, status: { in: [RefundStatus.PENDING, RefundStatus.FAILED] } },
+    data: {
+      status: RefundStatus.PROCESSING,
+      attempts: { increment: 1 },
+      lastError: null,
+      nextRetryAt: null,
+    },
+  });
+
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { booking: true },
+  });
+
+  if (!refund) {
+    throw new Error('Refund not found');
+  }
+
+  // Already in flight or settled
+  if (claimed.count === 0) {
+    return refund;
+  }
+
+  await syncRefundSource(prisma, refund, { status: RefundStatus.PROCESSING });
+
+  return refund.method === RefundMethod.WALLET ? await refundToWallet(refund) : await refundToGateway(refund);
+};
+
+/**
+ * Queue and pay out whatever a booking is owed right away
+ * Failures are left to the retry job so callers are never blocked by the gateway.
+ */
+export const processBookingRefunds = async (bookingId: string): Promise<void> => {
+  try {
+    const request = await prisma.cancellationRequest.findUnique({
+      where: { bookingId },
+    });
+
+    if (request) {
+      await queueCancellationRefund(request.id);
+    }
+
+    const amendments = await prisma.bookingAmendment.findMany({
+      where: { bookingId, refundStatus: RefundStatus.PENDING, refunds: { none: {} } },
+    });
+
+    for (const amendment of amendments) {
+      await queueAmendmentRefund(amendment.id);
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { bookingId, status: RefundStatus.PENDING },
+    });
+
+    for (const refund of refunds) {
+      await processRefund(refund.id);
+    }
+  } catch (error) {
+    logger.error(`Failed to process refunds for booking ${bookingId}:`, error);
+  }
+};
+
+/**
+ * Give back a captured gateway payment that could not be applied (a fare
+ * lock fee or reschedule payment that arrived after its window closed)
+ * One refund per payment, so a replayed verify never refunds twice. Paid out
+ * right away; failures are left to the retry job.
+ */
+export const refundUnappliedPayment = async (params: {
+  razorpayPaymentId: string;
+  amount: number;
+  source: { fareLockId: string } | { rescheduleId: string; bookingId: string };
+}): Promise<Refund> => {
+  const where = 'fareLockId' in params.source
+    ? { fareLockId: params.source.fareLockId, razorpayPaymentId: params.razorpayPaymentId }
+    : { rescheduleId: params.source.rescheduleId, razorpayPaymentId: params.razorpayPaymentId };
+
+  let refund = await prisma.refund.findFirst({ where });
+
+  if (!refund) {
+    try {
+      refund = await prisma.refund.create({
+        data: {
+          ...params.source,
+          razorpayPaymentId: params.razorpayPaymentId,
+          amount: params.amount,
+          method: RefundMethod.GATEWAY,
+        },
+      });
+    } catch (error) {
+      // A concurrent call queued it first
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      return (await prisma.refund.findFirst({ where }))!;
+    }
+  }
+
+  try {
+    return await processRefund(refund.id);
+  } catch (error) {
+    logger.error(`Failed to process refund ${refund.id}:`, error);
+    return refund;
+  }
+};
+
+// ============================================================================
+// WEBHOOK RECONCILIATION
+// ============================================================================
+
+/**
+ * Apply a gateway refund.processed / refund.failed webhook
+ * Matches on the gateway refund ID, or on our refund ID in the notes when the
+ * webhook beats the API response.
+ */
+export const reconcileRefundWebhook = async (event: string, entity: GatewayRefund): Promise<void> => {
+  const notes = entity.notes;
+
+  const refund = await prisma.refund.findFirst({
+    where: {
+      OR: [{ razorpayRefundId: entity.id }, ...(notes.refundId ? [{ id: notes.refundId }] : [])],
+    },
+    include: { booking: true },
+  });
+
+  if (!refund) {
+    logger.warn(`Webhook ${event} for unknown refund ${entity.id}`);
+    return;
+  }
+
+  // Duplicate deliveries and events for an earlier attempt
+  if (refund.status !== RefundStatus.PROCESSING) {
+    return;
+  }
+
+  if (refund.razorpayRefundId && refund.razorpayRefundId !== entity.id) {
+    return;
+  }
+
+  if (event === 'refund.processed') {
+    await prisma.$transaction((tx) => completeRefund(tx, refund, { razorpayRefundId: entity.id }));
+  } else if (event === 'refund.failed') {
+    await failRefund(refund, `Gateway refund ${entity.id} failed`);
+  }
+};
+
+// ============================================================================
+// RETRY JOB
+// ============================================================================
+
+/**
+ * Put refunds left PROCESSING by a crash or restart back in the queue
+ * Only refunds the gateway never acknowledged: those with a gateway refund ID
+ * are settled by its webhook or polled below. Paying them again is safe -
+ * wallet postings and gateway refunds are both keyed per refund.
+ */
+const requeueStaleRefunds = async (): Promise<number> => {
+  const { count } = await prisma.refund.updateMany({
+    where: {
+      status: RefundStatus.PROCESSING,
+      razorpayRefundId: null,
+      updatedAt: { lt: new Date(Date.now() - REFUND_STALE_PROCESSING_MINUTES * 60 * 1000) },
+    },
+    data: { status: RefundStatus.PENDING },
+  });
+
+  if (count > 0) {
+    logger.warn(`Refund job: re-queued ${count} refund(s) stuck in PROCESSING`);
+  }
+
+  return count;
+};
+
+/**
+ * Ask the gateway about refunds it acknowledged but has not settled by webhook
+ * A lost refund.processed / refund.failed webhook would otherwise leave them
+ * PROCESSING for good. Still pending ones go to the back of the queue.
+ */
+const pollStaleGatewayRefunds = async (): Promise<number> => {
+  const stale = await prisma.refund.findMany({
+    where: {
+      status: RefundStatus.PROCESSING,
+      razorpayRefundId: { not: null },
+      razorpayPaymentId: { not: null },
+      updatedAt: { lt: new Date(Date.now() - REFUND_STALE_PROCESSING_MINUTES * 60 * 1000) },
+    },
+    orderBy: { updatedAt: 'asc' },
+    take: REFUND_BATCH_SIZE,
+  });
+
+  let settled = 0;
+  for (const refund of stale) {
+    try {
+      const gatewayRefund = await getPaymentProvider().fetchRefund(refund.razorpayPaymentId!, refund.razorpayRefundId!);
+
+      if (gatewayRefund.status === 'pending') {
+        await prisma.refund.updateMany({
+          where: { id: refund.id, status: RefundStatus.PROCESSING },
+          data: { updatedAt: new Date() },
+        });
+        continue;
+      }
+
+      await reconcileRefundWebhook(
+        gatewayRefund.status === 'processed' ? 'refund.processed' : 'refund.failed',
+        gatewayRefund
+      );
+      settled++;
+    } catch (error) {
+      logger.error(`Failed to poll gateway refund ${refund.razorpayRefundId}:`, error);
+    }
+  }
+
+  if (settled > 0) {
+    logger.info(`Refund job: settled ${settled} gateway refund(s) whose webhook never arrived`);
+  }
+
+  return settled;
+};
+
+/**
+ * Queue approved refunds that have no payout yet and pay out pending / due retries
+ * Picks up refunds created outside a request (no-shows, bulk disruption refunds).
+ */
+export const processPendingRefunds = async (): Promise<number> => {
+  await requeueStaleRefunds();
+  await pollStaleGatewayRefunds();
+
+  const requests = await prisma.cancellationRequest.findMany({
+    where: {
+      status: 'APPROVED',
+      refundStatus: RefundStatus.PENDING,
+      finalRefundAmount: { gt: 0 },
+      refunds: { none: {} },
+    },
+    select: { id: true },
+    take: REFUND_BATCH_SIZE,
+  });
+
+  const amendments = await prisma.bookingAmendment.findMany({
+    where: {
+      refundStatus: RefundStatus.PENDING,
+      finalRefundAmount: { gt: 0 },
+      refunds: { none: {} },
+    },
+    select: { id: true },
+    take: REFUND_BATCH_SIZE,
+  });
+
+  for (const request of requests) {
+    try {
+      await queueCancellationRefund(request.id);
+    } catch (error) {
+      logger.error(`Failed to queue refund for cancellation ${request.id}:`, error);
+    }
+  }
+
+  for (const amendment of amendments) {
+    try {
+      await queueAmendmentRefund(amendment.id);
+    } catch (error) {
+      logger.error(`Failed to queue refund for amendment ${amendment.id}:`, error);
+    }
+  }
+
+  const due = await prisma.refund.findMany({
+    where: {
+      OR: [
+        { status: RefundStatus.PENDING },
+        { status: RefundStatus.FAILED, nextRetryAt: { lte: new Date() } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: REFUND_BATCH_SIZE,
+  });
+
+  let processed = 0;
+  for (const refund of due) {
+    try {
+      const result = await processRefund(refund.id);
+      if (result.status !== RefundStatus.FAILED) {
+        processed++;
+      }
+    } catch (error) {
+      logger.error(`Failed to process refund ${refund.id}:`, error);
+    }
+  }
+
+  if (due.length > 0) {
+    logger.info(`Refund job: ${processed} of ${due.length} refund(s) paid out or sent to the gateway`);
+  }
+
+  return processed;
+};
+
+/**
+ * Start the refund retry job
+ * Runs every 10 minutes
+ */
+export const startRefundCron = (): void => {
+  cron.schedule('*/10 * * * *', async () => {
+    logger.debug('Running refund job...');
+    try {
+      await processPendingRefunds();
+    } catch (error) {
+      logger.error('Refund job failed:', error);
+    }
+  });
+
+  logger.info(`Refund job scheduled (every 10 minutes, up to ${REFUND_MAX_ATTEMPTS} attempts)`);
+};
\ No newline at end of file
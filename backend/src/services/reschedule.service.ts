@@ -0,0 +1,652 @@
+/**
+ * RESCHEDULE SERVICE
+ * Move confirmed bookings to another schedule or other stay dates
+ *
+ * Features:
+ * - Bus and single-flight bookings move to another schedule between the same cities
+ * - Hotel bookings change dates in the same room type
+ * - Flight reschedules follow FareRules.rescheduleAllowed / rescheduleCharge
+ * - New fare quoted and priced like a new booking; difference plus charges collected
+ *   by wallet or Razorpay, or refunded to the wallet
+ * - New inventory held until payment; old and new inventory swapped in one transaction
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  BookingReschedule,
+  BookingStatus,
+  CabinClass,
+  Prisma,
+  RescheduleStatus,
+  ScheduleStatus,
+} from '@prisma/client';
+import { PassengerInfo } from '../types';
+import {
+  allocateHotelGuests,
+  calculatePricing,
+  releaseBookingInventory,
+  PricingBreakdown,
+} from './booking.service';
+import {
+  holdSeats,
+  holdRoom,
+  releaseHold,
+  convertHoldToBooking,
+  getCabinAvailableSeats,
+  getCabinFields,
+} from './holdQuota.service';
+import { getBusChargeSubType } from './chargeRule.service';
+import { loadPricingEnvironment, quoteBusFare, quoteFlightFare, FareQuote } from './dynamicPricing.service';
+import { issueCreditNote } from './invoice.service';
+import { creditWalletRefund } from './wallet.service';
+import { splitRefundByTender } from './refund.service';
+import { combineDateAndTime, formatDateKey } from '../utils/date';
+import { logger } from '../utils/logger';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Time to pay the amount due before the new inventory is released
+const RESCHEDULE_PAYMENT_MINUTES = 10;
+
+// Flights use their fare rules; buses are charged per passenger, hotels per room
+const BUS_RESCHEDULE_CHARGE = parseFloat(process.env.BUS_RESCHEDULE_CHARGE || '0');
+const HOTEL_RESCHEDULE_CHARGE = parseFloat(process.env.HOTEL_RESCHEDULE_CHARGE || '0');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RescheduleParams {
+  scheduleId?: string; // Bus / flight
+  seatNumbers?: string[]; // Bus
+  checkInDate?: string; // Hotel
+  checkOutDate?: string; // Hotel
+}
+
+export interface ReschedulePayment {
+  paymentMethod: string;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+}
+
+// Stored on the reschedule and applied to the booking on completion
+interface ReschedulePricing {
+  baseAmount: number;
+  taxAmount: number;
+  convenienceFee: number;
+  charges: PricingBreakdown['charges'];
+  fareSnapshot?: (FareQuote & { scheduleId: string; cabinClass?: string })[];
+  nights?: { roomInventoryId: string; date: Date; price: number }[];
+}
+
+interface ReschedulePlan {
+  fromScheduleId?: string;
+  toScheduleId?: string;
+  seatNumbers?: string[];
+  fromCheckIn?: Date | null;
+  fromCheckOut?: Date | null;
+  toCheckIn?: Date;
+  toCheckOut?: Date;
+  holdId: string;
+  holdExpiry: Date;
+  pricing: PricingBreakdown;
+  stored: ReschedulePricing;
+  rescheduleCharge: number;
+}
+
+const rescheduleBookingInclude = {
+  passengers: { where: { cancelledAt: null } },
+  roomNights: true,
+  flightSegments: true,
+  busSchedule: { include: { route: true } },
+  flightSchedule: { include: { flight: true, fareRules: true } },
+  roomInventory: { include: { room: true } },
+} satisfies Prisma.BookingInclude;
+
+type RescheduleBooking = Prisma.BookingGetPayload<{ include: typeof rescheduleBookingInclude }>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const holdCategory = (category: BookingCategory): 'BUS' | 'FLIGHT' | 'HOTEL' =>
+  category === BookingCategory.BUS ? 'BUS' : category === BookingCategory.AIRLINE ? 'FLIGHT' : 'HOTEL';
+
+// Add-ons are carried over at the amount originally paid
+const carriedAddOns = (booking: RescheduleBooking) =>
+  Number(booking.addOnAmount) > 0 ? [{ price: Number(booking.addOnAmount), quantity: 1 }] : [];
+
+const toStoredPricing = (pricing: PricingBreakdown): ReschedulePricing => ({
+  baseAmount: pricing.baseAmount,
+  taxAmount: pricing.taxAmount,
+  convenienceFee: pricing.convenienceFee,
+  charges: pricing.charges,
+});
+
+/**
+ * Release the holds of reschedules the user started but did not pay for
+ */
+const cancelPendingReschedules = async (bookingId: string): Promise<void> => {
+  const pending = await prisma.bookingReschedule.findMany({
+    where: { bookingId, status: RescheduleStatus.PENDING_PAYMENT },
+  });
+
+  for (const reschedule of pending) {
+    if (reschedule.holdId) {
+      await releaseHold(reschedule.holdId, 'USER_CANCELLED', holdCategory(reschedule.category));
+    }
+
+    await prisma.bookingReschedule.update({
+      where: { id: reschedule.id },
+      data: { status: RescheduleStatus.CANCELLED },
+    });
+  }
+};
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+const planBusReschedule = async (
+  userId: string,
+  booking: RescheduleBooking,
+  params: RescheduleParams
+): Promise<ReschedulePlan> => {
+  const current = booking.busSchedule;
+  if (!current || !params.scheduleId) {
+    throw new Error('Bus schedule ID is required');
+  }
+
+  if (params.scheduleId === current.id) {
+    throw new Error('Booking is already on this schedule');
+  }
+
+  if (combineDateAndTime(current.scheduleDate, current.route.departureTime) <= new Date()) {
+    throw new Error('Bus has already departed');
+  }
+
+  const schedule = await prisma.busSchedule.findUnique({
+    where: { id: params.scheduleId },
+    include: { route: { include: { partner: true } } },
+  });
+
+  if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+    throw new Error('Bus schedule not available');
+  }
+
+  if (schedule.route.source !== current.route.source || schedule.route.destination !== current.route.destination) {
+    throw new Error('Bookings can only be rescheduled on the same route');
+  }
+
+  if (combineDateAndTime(schedule.scheduleDate, schedule.route.departureTime) <= new Date()) {
+    throw new Error('Bus has already departed');
+  }
+
+  const passengers = booking.passengers.length;
+  const seatNumbers = params.seatNumbers || [];
+  if (seatNumbers.length !== passengers) {
+    throw new Error(`Select ${passengers} seat(s) on the new schedule`);
+  }
+
+  const quote = quoteBusFare(await loadPricingEnvironment(BookingCategory.BUS), schedule);
+  const pricing = await calculatePricing(quote.fare, passengers, carriedAddOns(booking), {
+    category: BookingCategory.BUS,
+    subType: getBusChargeSubType(schedule.route.busType),
+  });
+
+  const hold = await holdSeats({
+    scheduleId: schedule.id,
+    seatNumbers,
+    heldBy: userId,
+    category: 'BUS',
+    holdExpiryMinutes: RESCHEDULE_PAYMENT_MINUTES,
+  });
+
+  if (!hold.success || !hold.holdId) {
+    throw new Error(hold.message);
+  }
+
+  return {
+    fromScheduleId: current.id,
+    toScheduleId: schedule.id,
+    seatNumbers,
+    holdId: hold.holdId,
+    holdExpiry: hold.holdExpiry,
+    pricing,
+    stored: { ...toStoredPricing(pricing), fareSnapshot: [{ scheduleId: schedule.id, ...quote }] },
+    rescheduleCharge: BUS_RESCHEDULE_CHARGE * passengers,
+  };
+};
+
+const planFlightReschedule = async (
+  userId: string,
+  booking: RescheduleBooking,
+  params: RescheduleParams
+): Promise<ReschedulePlan> => {
+  const current = booking.flightSchedule;
+  if (!current || !params.scheduleId) {
+    throw new Error('Flight schedule ID is required');
+  }
+
+  if (booking.flightSegments.length > 1) {
+    throw new Error('Connecting itineraries cannot be rescheduled');
+  }
+
+  if (current.fareRules && !current.fareRules.rescheduleAllowed) {
+    throw new Error('Fare rules do not allow rescheduling');
+  }
+
+  if (params.scheduleId === current.id) {
+    throw new Error('Booking is already on this schedule');
+  }
+
+  if (combineDateAndTime(current.scheduleDate, current.flight.departureTime) <= new Date()) {
+    throw new Error('Flight has already departed');
+  }
+
+  const schedule = await prisma.flightSchedule.findUnique({
+    where: { id: params.scheduleId },
+    include: { flight: { include: { partner: true } } },
+  });
+
+  if (!schedule || schedule.status !== ScheduleStatus.ACTIVE) {
+    throw new Error('Flight schedule not available');
+  }
+
+  if (
+    schedule.flight.source !== current.flight.source ||
+    schedule.flight.destination !== current.flight.destination
+  ) {
+    throw new Error('Bookings can only be rescheduled on the same route');
+  }
+
+  if (combineDateAndTime(schedule.scheduleDate, schedule.flight.departureTime) <= new Date()) {
+    throw new Error('Flight has already departed');
+  }
+
+  const passengers = booking.passengers.length;
+  const cabinClass = (booking.cabinClass as CabinClass) || CabinClass.ECONOMY;
+  if (!Number(schedule[getCabinFields(cabinClass).fare]) || getCabinAvailableSeats(schedule, cabinClass) < passengers) {
+    throw new Error('Not enough seats available in your cabin class');
+  }
+
+  const quote = quoteFlightFare(await loadPricingEnvironment(BookingCategory.AIRLINE), schedule, cabinClass);
+  const pricing = await calculatePricing(quote.fare, passengers, carriedAddOns(booking), {
+    category: BookingCategory.AIRLINE,
+    subType: cabinClass,
+  });
+
+  const hold = await holdSeats({
+    scheduleId: schedule.id,
+    seatNumbers: [],
+    seatCount: passengers,
+    cabinClass,
+    heldBy: userId,
+    category: 'FLIGHT',
+    holdExpiryMinutes: RESCHEDULE_PAYMENT_MINUTES,
+  });
+
+  if (!hold.success || !hold.holdId) {
+    throw new Error(hold.message);
+  }
+
+  return {
+    fromScheduleId: current.id,
+    toScheduleId: schedule.id,
+    holdId: hold.holdId,
+    holdExpiry: hold.holdExpiry,
+    pricing,
+    stored: { ...toStoredPricing(pricing), fareSnapshot: [{ scheduleId: schedule.id, cabinClass, ...quote }] },
+    rescheduleCharge: Number(current.fareRules?.rescheduleCharge || 0) * passengers,
+  };
+};
+
+/**
+ * New dates for the same room type
+ * The old nights stay booked until the reschedule completes, so overlapping
+ * nights need a free room as well.
+ */
+const planHotelReschedule = async (
+  userId: string,
+  booking: RescheduleBooking,
+  params: RescheduleParams
+): Promise<ReschedulePlan> => {
+  const current = booking.roomInventory;
+  if (!current || !params.checkInDate || !params.checkOutDate) {
+    throw new Error('Check-in and check-out dates are required');
+  }
+
+  const checkIn = new Date(params.checkInDate);
+  const checkOut = new Date(params.checkOutDate);
+  const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (nights <= 0) {
+    throw new Error('Check-out date must be after check-in date');
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (!booking.checkInDate || booking.checkInDate <= today || checkIn < today) {
+    throw new Error('Stay dates can only be changed before check-in');
+  }
+
+  if (
+    formatDateKey(checkIn) === formatDateKey(booking.checkInDate) &&
+    booking.checkOutDate &&
+    formatDateKey(checkOut) === formatDateKey(booking.checkOutDate)
+  ) {
+    throw new Error('Booking is already for these dates');
+  }
+
+  const rooms = booking.rooms || 1;
+  const guests: PassengerInfo[] = booking.passengers.map((p) => ({
+    firstName: p.firstName,
+    lastName: p.lastName,
+    dateOfBirth: p.dateOfBirth ?? undefined,
+    guestType: (p.guestType as PassengerInfo['guestType']) ?? undefined,
+    age: p.age ?? undefined,
+    roomNumber: p.roomNumber ?? undefined,
+  }));
+  const { occupancy } = allocateHotelGuests(current.room, guests, rooms, checkIn);
+
+  const inventories = await prisma.roomInventory.findMany({
+    where: {
+      roomId: current.roomId,
+      date: { gte: checkIn, lt: checkOut },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  if (inventories.length !== nights) {
+    throw new Error('Room not available for selected dates');
+  }
+
+  const childRate = Number(current.room.childRatePerNight);
+  const roomNightFares = inventories.flatMap((inv) =>
+    occupancy.map((r) => Number(inv.price) + r.chargeableChildren * childRate)
+  );
+  const pricing = await calculatePricing(roomNightFares, nights * rooms, carriedAddOns(booking), {
+    category: BookingCategory.HOTEL,
+  });
+
+  const hold = await prisma.$transaction((tx) =>
+    holdRoom(tx, {
+      roomInventoryIds: inventories.map((inv) => inv.id),
+      rooms,
+      heldBy: userId,
+      holdExpiryMinutes: RESCHEDULE_PAYMENT_MINUTES,
+    })
+  );
+
+  return {
+    fromCheckIn: booking.checkInDate,
+    fromCheckOut: booking.checkOutDate,
+    toCheckIn: checkIn,
+    toCheckOut: checkOut,
+    holdId: hold.id,
+    holdExpiry: hold.holdExpiry,
+    pricing,
+    stored: {
+      ...toStoredPricing(pricing),
+      nights: inventories.map((inv) => ({ roomInventoryId: inv.id, date: inv.date, price: Number(inv.price) })),
+    },
+    rescheduleCharge: HOTEL_RESCHEDULE_CHARGE * rooms,
+  };
+};
+
+// ============================================================================
+// RESCHEDULE LIFECYCLE
+// ============================================================================
+
+/**
+ * Quote a reschedule and hold the new inventory
+ * Completes straight away when there is nothing to pay; otherwise waits for
+ * payment of the amount due.
+ */
+export const requestReschedule = async (
+  userId: string,
+  bookingId: string,
+  params: RescheduleParams
+): Promise<BookingReschedule> => {
+  const booking = await prisma.booking.findFirst({
+    where: { id: bookingId, userId },
+    include: rescheduleBookingInclude,
+  });
+
+  if (!booking) {
+    throw new Error('Booking not found');
+  }
+
+  if (booking.status !== BookingStatus.CONFIRMED) {
+    throw new Error('Only confirmed bookings can be rescheduled');
+  }
+
+  await cancelPendingReschedules(bookingId);
+
+  let plan: ReschedulePlan;
+  if (booking.category === BookingCategory.BUS) {
+    plan = await planBusReschedule(userId, booking, params);
+  } else if (booking.category === BookingCategory.AIRLINE) {
+    plan = await planFlightReschedule(userId, booking, params);
+  } else {
+    plan = await planHotelReschedule(userId, booking, params);
+  }
+
+  // The original discount and fare lock credit still apply
+  const newTotal = round(
+    Math.max(0, plan.pricing.totalAmount - Number(booking.discountAmount) - Number(booking.fareLockCredit))
+  );
+  const oldTotal = Number(booking.totalAmount);
+  const fareDifference = round(newTotal - oldTotal);
+  const amountDue = round(fareDifference + plan.rescheduleCharge);
+
+  const reschedule = await prisma.bookingReschedule.create({
+    data: {
+      bookingId,
+      userId,
+      category: booking.category,
+      fromScheduleId: plan.fromScheduleId,
+      toScheduleId: plan.toScheduleId,
+      seatNumbers: plan.seatNumbers || [],
+      fromCheckIn: plan.fromCheckIn,
+      fromCheckOut: plan.fromCheckOut,
+      toCheckIn: plan.toCheckIn,
+      toCheckOut: plan.toCheckOut,
+      holdId: plan.holdId,
+      oldTotal,
+      newTotal,
+      fareDifference,
+      rescheduleCharge: plan.rescheduleCharge,
+      amountDue,
+      pricing: plan.stored as unknown as Prisma.InputJsonObject,
+      expiresAt: plan.holdExpiry,
+    },
+  });
+
+  logger.info(`Reschedule requested for booking ${booking.bookingNumber}: amount due ${amountDue}`);
+
+  if (amountDue > 0) {
+    return reschedule;
+  }
+
+  return await prisma.$transaction((tx) => completeReschedule(tx, reschedule.id));
+};
+
+/**
+ * Move the booking to its new schedule or dates
+ * Releases the old inventory, converts the hold on the new one and applies
+ * the new pricing in the caller's transaction. A negative amount due is
+ * refunded to the wallet.
+ */
+export const completeReschedule = async (
+  tx: DbClient,
+  rescheduleId: string,
+  payment?: ReschedulePayment
+): Promise<BookingReschedule> => {
+  const reschedule = await tx.bookingReschedule.findUnique({
+    where: { id: rescheduleId },
+  });
+
+  if (!reschedule || reschedule.status !== RescheduleStatus.PENDING_PAYMENT) {
+    throw new Error('Reschedule is not awaiting payment');
+  }
+
+  if (reschedule.expiresAt < new Date() || !reschedule.holdId) {
+    throw new Error('Reschedule payment window has expired');
+  }
+
+  const booking = await tx.booking.findUnique({
+    where: { id: reschedule.bookingId },
+    include: { passengers: { where: { cancelledAt: null } }, roomNights: true, flightSegments: true },
+  });
+
+  if (!booking || booking.status !== BookingStatus.CONFIRMED) {
+    throw new Error('Booking is no longer confirmed');
+  }
+
+  await releaseBookingInventory(tx, booking);
+
+  const converted = await convertHoldToBooking(
+    reschedule.holdId,
+    booking.id,
+    holdCategory(booking.category),
+    tx
+  );
+  if (!converted) {
+    throw new Error('Reschedule payment window has expired');
+  }
+
+  const pricing = reschedule.pricing as unknown as ReschedulePricing;
+
+  if (booking.category === BookingCategory.BUS) {
+    for (const [index, passenger] of booking.passengers.entries()) {
+      await tx.bookingPassenger.update({
+        where: { id: passenger.id },
+        data: { seatNumber: reschedule.seatNumbers[index] },
+      });
+    }
+
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: { busScheduleId: reschedule.toScheduleId },
+    });
+  } else if (booking.category === BookingCategory.AIRLINE && reschedule.toScheduleId) {
+    // Seat assignments do not carry over to another flight
+    await tx.bookingPassenger.updateMany({
+      where: { bookingId: booking.id },
+      data: { seatNumber: null },
+    });
+
+    await tx.bookingFlightSegment.updateMany({
+      where: { bookingId: booking.id },
+      data: { flightScheduleId: reschedule.toScheduleId, fare: pricing.fareSnapshot?.[0]?.fare },
+    });
+
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: { flightScheduleId: reschedule.toScheduleId },
+    });
+  } else if (booking.category === BookingCategory.HOTEL && pricing.nights) {
+    const rooms = booking.rooms || 1;
+
+    await tx.bookingRoomNight.deleteMany({
+      where: { bookingId: booking.id },
+    });
+
+    await tx.bookingRoomNight.createMany({
+      data: pricing.nights.map((night) => ({
+        bookingId: booking.id,
+        roomInventoryId: night.roomInventoryId,
+        date: night.date,
+        price: night.price,
+        rooms,
+      })),
+    });
+
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: {
+        roomInventoryId: pricing.nights[0].roomInventoryId,
+        checkInDate: reschedule.toCheckIn,
+        checkOutDate: reschedule.toCheckOut,
+        nights: pricing.nights.length,
+      },
+    });
+  }
+
+  const amountDue = Number(reschedule.amountDue);
+
+  // A top-up is another tender: its payment ID stays on the reschedule and it
+  // adds to the share refunds go back through. Downgrade refunds leave the
+  // breakdown as it is, as partial cancellations do. Bookings paid before the
+  // breakdown was recorded start from their payment method.
+  const tenders =
+    Number(booking.walletAmount) + Number(booking.gatewayAmount) > 0
+      ? { walletAmount: Number(booking.walletAmount), gatewayAmount: Number(booking.gatewayAmount) }
+      : splitRefundByTender(booking, Number(booking.paidAmount));
+  if (amountDue > 0) {
+    if (payment?.razorpayPaymentId) {
+      tenders.gatewayAmount += amountDue;
+    } else {
+      tenders.walletAmount += amountDue;
+    }
+  }
+
+  await tx.booking.update({
+    where: { id: booking.id },
+    data: {
+      baseAmount: pricing.baseAmount,
+      taxAmount: pricing.taxAmount,
+      convenienceFee: pricing.convenienceFee,
+      totalAmount: reschedule.newTotal,
+      charges: pricing.charges as unknown as Prisma.InputJsonArray,
+      ...(pricing.fareSnapshot && {
+        fareSnapshot: pricing.fareSnapshot as unknown as Prisma.InputJsonArray,
+      }),
+      paidAmount: { increment: amountDue },
+      walletAmount: Math.round(tenders.walletAmount * 100) / 100,
+      gatewayAmount: Math.round(tenders.gatewayAmount * 100) / 100,
+    },
+  });
+
+  if (amountDue < 0) {
+    const refund = -amountDue;
+    const reason = 'Rescheduled: fare difference refunded';
+
+    await creditWalletRefund(tx, booking.userId, refund, {
+      description: `Reschedule refund for booking ${booking.bookingNumber}`,
+      referenceId: reschedule.id,
+      referenceType: 'RESCHEDULE',
+      idempotencyKey: `reschedule-refund:${reschedule.id}`,
+    });
+
+    await issueCreditNote(tx, booking.id, refund, reason);
+  }
+
+  const completed = await tx.bookingReschedule.update({
+    where: { id: rescheduleId },
+    data: {
+      status: RescheduleStatus.COMPLETED,
+      completedAt: new Date(),
+      ...(payment && {
+        paymentMethod: payment.paymentMethod,
+        razorpayOrderId: payment.razorpayOrderId,
+        razorpayPaymentId: payment.razorpayPaymentId,
+        paidAt: new Date(),
+      }),
+    },
+  });
+
+  logger.info(`Booking ${booking.bookingNumber} rescheduled (${reschedule.id})`);
+  invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+
+  return completed;
+};
\ No newline at end of file
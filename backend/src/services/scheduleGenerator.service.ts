@@ -0,0 +1,376 @@
+/**
+ * SCHEDULE GENERATOR SERVICE
+ * Recurring bus and flight schedules from operating days
+ *
+ * Features:
+ * - Create every schedule in a date range on the route/flight's operating days
+ * - Fare templates with optional per-weekday fares
+ * - Dates that already have a schedule are skipped
+ * - Dry-run preview of the dates that would be created
+ * - Nightly rolling job that keeps N days of schedules open
+ */
+
+import { prisma } from '../server';
+import { BusRoute, Prisma, ScheduleStatus } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { formatDateKey } from '../utils/date';
+import { CACHE_NAMESPACES, invalidateCache } from '../utils/cache';
+import cron from 'node-cron';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_GENERATION_DAYS = 366;
+const SCHEDULE_ROLLING_DAYS = parseInt(process.env.SCHEDULE_ROLLING_DAYS || '60');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BusFareTemplate {
+  baseFare?: number; // Defaults to the route's base fare
+  weekdayFares?: Record<number, number>; // 0=Sunday, 6=Saturday
+}
+
+export interface FlightFareTemplate {
+  economyFare: number;
+  premiumFare?: number;
+  businessFare?: number;
+  firstFare?: number;
+  economySeats: number;
+  premiumSeats?: number;
+  businessSeats?: number;
+  firstSeats?: number;
+  fareRulesId?: string;
+  weekdayFares?: Record<
+    number,
+    Partial<Pick<FlightFareTemplate, 'economyFare' | 'premiumFare' | 'businessFare' | 'firstFare'>>
+  >;
+}
+
+export interface GenerateSchedulesParams<T> {
+  from: Date;
+  to: Date;
+  template: T;
+  dryRun?: boolean;
+}
+
+export interface ScheduleGenerationResult {
+  routeId?: string;
+  flightId?: string;
+  from: string;
+  to: string;
+  dryRun: boolean;
+  dates: string[]; // Operating dates without a schedule (created unless dry run)
+  skipped: string[]; // Operating dates that already have a schedule
+  created: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Local midnight of every operating day in [from, to]
+ * A route with no operating days set runs daily.
+ */
+export const getOperatingDates = (operatingDays: number[], from: Date, to: Date): Date[] => {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+
+  if (end < start) {
+    throw new Error('End date must be on or after start date');
+  }
+
+  if ((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24) >= MAX_GENERATION_DAYS) {
+    throw new Error(`Schedules can be generated for at most ${MAX_GENERATION_DAYS} days at a time`);
+  }
+
+  const dates: Date[] = [];
+  for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+    if (operatingDays.length === 0 || operatingDays.includes(day.getDay())) {
+      dates.push(new Date(day));
+    }
+  }
+  return dates;
+};
+
+/**
+ * Initial seat map for a new bus schedule
+ */
+export const buildBusSeatStatus = (route: Pick<BusRoute, 'seatLayout' | 'totalSeats'>): Record<string, string> => {
+  const seatStatus: Record<string, string> = {};
+  const seatLayout = route.seatLayout as any;
+
+  // Generate seat numbers based on layout
+  if (seatLayout && seatLayout.seats) {
+    seatLayout.seats.forEach((seat: any) => {
+      seatStatus[seat.number] = 'AVAILABLE';
+    });
+  } else {
+    // Default seat numbering
+    for (let i = 1; i <= route.totalSeats; i++) {
+      seatStatus[`${i}`] = 'AVAILABLE';
+    }
+  }
+
+  return seatStatus;
+};
+
+/**
+ * scheduleDate filter covering the first to the last generated date
+ */
+const getDateWindow = (dates: Date[]): Prisma.DateTimeFilter => {
+  if (dates.length === 0) {
+    return { in: [] };
+  }
+
+  const end = new Date(dates[dates.length - 1]);
+  end.setDate(end.getDate() + 1);
+  return { gte: dates[0], lt: end };
+};
+
+const splitExisting = (dates: Date[], existing: Date[]) => {
+  const existingKeys = new Set(existing.map(formatDateKey));
+
+  return {
+    missing: dates.filter((date) => !existingKeys.has(formatDateKey(date))),
+    skipped: dates.filter((date) => existingKeys.has(formatDateKey(date))).map(formatDateKey),
+  };
+};
+
+// ============================================================================
+// GENERATORS
+// ============================================================================
+
+/**
+ * Create bus schedules on a route's operating days
+ */
+export const generateBusSchedules = async (
+  routeId: string,
+  params: GenerateSchedulesParams<BusFareTemplate>
+): Promise<ScheduleGenerationResult> => {
+  const route = await prisma.busRoute.findUnique({
+    where: { id: routeId },
+  });
+
+  if (!route) {
+    throw new Error('Route not found');
+  }
+
+  if (!route.isActive) {
+    throw new Error('Route is not active');
+  }
+
+  const dates = getOperatingDates(route.operatingDays, params.from, params.to);
+  const existing = await prisma.busSchedule.findMany({
+    where: { routeId, scheduleDate: getDateWindow(dates) },
+    select: { scheduleDate: true },
+  });
+  const { missing, skipped } = splitExisting(dates, existing.map((s) => s.scheduleDate));
+
+  let created = 0;
+  if (!params.dryRun && missing.length > 0) {
+    const seatStatus = buildBusSeatStatus(route);
+    const baseFare = params.template.baseFare ?? Number(route.baseFare);
+
+    const result = await prisma.busSchedule.createMany({
+      data: missing.map((scheduleDate) => ({
+        routeId,
+        scheduleDate,
+        baseFare: params.template.weekdayFares?.[scheduleDate.getDay()] ?? baseFare,
+        availableSeats: route.totalSeats,
+        seatStatus,
+        status: ScheduleStatus.ACTIVE,
+      })),
+      skipDuplicates: true,
+    });
+    created = result.count;
+
+    logger.info(`Generated ${created} bus schedule(s) for route ${route.routeNumber}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+  }
+
+  return {
+    routeId,
+    from: formatDateKey(params.from),
+    to: formatDateKey(params.to),
+    dryRun: !!params.dryRun,
+    dates: missing.map(formatDateKey),
+    skipped,
+    created,
+  };
+};
+
+/**
+ * Create flight schedules on a flight's operating days
+ */
+export const generateFlightSchedules = async (
+  flightId: string,
+  params: GenerateSchedulesParams<FlightFareTemplate>
+): Promise<ScheduleGenerationResult> => {
+  const flight = await prisma.flight.findUnique({
+    where: { id: flightId },
+  });
+
+  if (!flight) {
+    throw new Error('Flight not found');
+  }
+
+  if (!flight.isActive) {
+    throw new Error('Flight is not active');
+  }
+
+  const { template } = params;
+  if (!template.economyFare || !template.economySeats) {
+    throw new Error('Economy fare and seats are required');
+  }
+
+  const dates = getOperatingDates(flight.operatingDays, params.from, params.to);
+  const existing = await prisma.flightSchedule.findMany({
+    where: { flightId, scheduleDate: getDateWindow(dates) },
+    select: { scheduleDate: true },
+  });
+  const { missing, skipped } = splitExisting(dates, existing.map((s) => s.scheduleDate));
+
+  let created = 0;
+  if (!params.dryRun && missing.length > 0) {
+    const result = await prisma.flightSchedule.createMany({
+      data: missing.map((scheduleDate): Prisma.FlightScheduleCreateManyInput => {
+        const fares = { ...template, ...template.weekdayFares?.[scheduleDate.getDay()] };
+
+        return {
+          flightId,
+          scheduleDate,
+          economyFare: fares.economyFare,
+          premiumFare: fares.premiumFare,
+          businessFare: fares.businessFare,
+          firstFare: fares.firstFare,
+          economySeats: template.economySeats,
+          premiumSeats: template.premiumSeats ?? 0,
+          businessSeats: template.businessSeats ?? 0,
+          firstSeats: template.firstSeats ?? 0,
+          fareRulesId: template.fareRulesId,
+          status: ScheduleStatus.ACTIVE,
+        };
+      }),
+      skipDuplicates: true,
+    });
+    created = result.count;
+
+    logger.info(`Generated ${created} flight schedule(s) for ${flight.airlineCode} ${flight.flightNumber}`);
+    invalidateCache(CACHE_NAMESPACES.FARE_CALENDAR);
+  }
+
+  return {
+    flightId,
+    from: formatDateKey(params.from),
+    to: formatDateKey(params.to),
+    dryRun: !!params.dryRun,
+    dates: missing.map(formatDateKey),
+    skipped,
+    created,
+  };
+};
+
+// ============================================================================
+// ROLLING GENERATION
+// ============================================================================
+
+/**
+ * Keep the next `days` days of schedules open on every active route and flight
+ * Fares and capacity are copied from the latest existing schedule; flights
+ * that have never been scheduled are skipped.
+ */
+export const rollForwardSchedules = async (
+  days: number = SCHEDULE_ROLLING_DAYS,
+  dryRun = false
+): Promise<ScheduleGenerationResult[]> => {
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setDate(to.getDate() + days - 1);
+
+  const results: ScheduleGenerationResult[] = [];
+
+  const routes = await prisma.busRoute.findMany({
+    where: { isActive: true },
+    include: {
+      schedules: { orderBy: { scheduleDate: 'desc' }, take: 1 },
+    },
+  });
+
+  for (const route of routes) {
+    try {
+      const latest = route.schedules[0];
+      results.push(
+        await generateBusSchedules(route.id, {
+          from,
+          to,
+          template: { baseFare: latest ? Number(latest.baseFare) : undefined },
+          dryRun,
+        })
+      );
+    } catch (error) {
+      logger.error(`Failed to roll forward schedules for route ${route.id}:`, error);
+    }
+  }
+
+  const flights = await prisma.flight.findMany({
+    where: { isActive: true },
+    include: {
+      schedules: { orderBy: { scheduleDate: 'desc' }, take: 1 },
+    },
+  });
+
+  for (const flight of flights) {
+    const latest = flight.schedules[0];
+    if (!latest) {
+      continue;
+    }
+
+    try {
+      results.push(
+        await generateFlightSchedules(flight.id, {
+          from,
+          to,
+          template: {
+            economyFare: Number(latest.economyFare),
+            premiumFare: latest.premiumFare === null ? undefined : Number(latest.premiumFare),
+            businessFare: latest.businessFare === null ? undefined : Number(latest.businessFare),
+            firstFare: latest.firstFare === null ? undefined : Number(latest.firstFare),
+            economySeats: latest.economySeats,
+            premiumSeats: latest.premiumSeats,
+            businessSeats: latest.businessSeats,
+            firstSeats: latest.firstSeats,
+            fareRulesId: latest.fareRulesId ?? undefined,
+          },
+          dryRun,
+        })
+      );
+    } catch (error) {
+      logger.error(`Failed to roll forward schedules for flight ${flight.id}:`, error);
+    }
+  }
+
+  const created = results.reduce((sum, result) => sum + result.created, 0);
+  if (created > 0) {
+    logger.info(`Rolling schedule job created ${created} schedule(s) through ${formatDateKey(to)}`);
+  }
+
+  return results;
+};
+
+/**
+ * Start the nightly rolling schedule job
+ * Runs at 01:30 every day
+ */
+export const startScheduleGeneratorCron = (): void => {
+  cron.schedule('30 1 * * *', async () => {
+    logger.debug('Running rolling schedule job...');
+    await rollForwardSchedules();
+  });
+
+  logger.info(`Rolling schedule job scheduled (nightly, ${SCHEDULE_ROLLING_DAYS} days ahead)`);
+};
\ No newline at end of file
@@ -0,0 +1,305 @@
+/**
+ * TICKET SERVICE
+ * E-ticket and hotel voucher PDF generation
+ *
+ * Features:
+ * - Category-specific layouts (bus ticket, flight e-ticket, hotel voucher)
+ * - QR code with a signed booking token for offline verification
+ */
+
+import { prisma } from '../server';
+import { BookingCategory, Prisma } from '@prisma/client';
+import QRCode from 'qrcode';
+import { generatePnr } from './booking.service';
+import { signTicketToken } from '../utils/ticketToken';
+import { combineDateAndTime, combineDateAndTimeString } from '../utils/date';
+import { renderPdf, formatCurrency, formatDate, drawKeyValues, drawTable, PdfDocument } from '../utils/pdf';
+
+// ============================================================================
+// TICKET DATA
+// ============================================================================
+
+export const ticketBookingInclude = {
+  passengers: { where: { cancelledAt: null } },
+  busSchedule: { include: { route: { include: { partner: true } } } },
+  flightSchedule: { include: { flight: true, fareRules: true } },
+  flightSegments: {
+    include: { flightSchedule: { include: { flight: true } } },
+    orderBy: { sequence: 'asc' },
+  },
+  roomInventory: { include: { room: { include: { hotel: true } } } },
+} satisfies Prisma.BookingInclude;
+
+export type BookingForTicket = Prisma.BookingGetPayload<{ include: typeof ticketBookingInclude }>;
+
+/**
+ * Departure (bus/flight) or check-in (hotel) date-time for a booking
+ */
+export const getTravelStart = (booking: BookingForTicket): Date | null => {
+  if (booking.busSchedule) {
+    return combineDateAndTime(booking.busSchedule.scheduleDate, booking.busSchedule.route.departureTime);
+  }
+  if (booking.flightSchedule) {
+    return combineDateAndTime(booking.flightSchedule.scheduleDate, booking.flightSchedule.flight.departureTime);
+  }
+  if (booking.checkInDate && booking.roomInventory) {
+    return combineDateAndTimeString(booking.checkInDate, booking.roomInventory.room.hotel.checkInTime);
+  }
+  return null;
+};
+
+/**
+ * Build the signed token embedded in the ticket QR code
+ */
+export const buildTicketToken = (booking: BookingForTicket): string => {
+  const travelStart = getTravelStart(booking);
+
+  return signTicketToken({
+    bn: booking.bookingNumber,
+    cat: booking.category,
+    ref: booking.busScheduleId || booking.flightScheduleId || booking.roomInventoryId || '',
+    dt: travelStart ? travelStart.toISOString() : '',
+    px: booking.passengers.map((p) => ({
+      n: `${p.firstName} ${p.lastName}`,
+      ...(p.seatNumber && { s: p.seatNumber }),
+    })),
+  });
+};
+
+/**
+ * Make sure a flight booking has a PNR before printing the ticket
+ */
+export const ensurePnr = async (booking: BookingForTicket): Promise<BookingForTicket> => {
+  if (booking.category !== BookingCategory.AIRLINE || booking.pnr) {
+    return booking;
+  }
+
+  const updated = await prisma.booking.update({
+    where: { id: booking.id },
+    data: { pnr: generatePnr() },
+    include: ticketBookingInclude,
+  });
+
+  return updated;
+};
+
+// ============================================================================
+// LAYOUTS
+// ============================================================================
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const drawHeader = (doc: PdfDocument, title: string, booking: BookingForTicket) => {
+  doc.font('Helvetica-Bold').fontSize(18).text('Lean Travel', { align: 'left' });
+  doc.font('Helvetica-Bold').fontSize(14).text(title, { align: 'left' });
+  doc.moveDown(0.5);
+  drawKeyValues(doc, [
+    ['Booking No.', booking.bookingNumber],
+    ['Booked On', formatDate(booking.createdAt)],
+    ['Status', booking.status],
+  ]);
+  doc.moveDown();
+};
+
+const drawBusTicket = (doc: PdfDocument, booking: BookingForTicket) => {
+  const schedule = booking.busSchedule!;
+  const route = schedule.route;
+  const departure = combineDateAndTime(schedule.scheduleDate, route.departureTime);
+  const arrival = new Date(departure.getTime() + route.durationMinutes * 60 * 1000);
+
+  drawHeader(doc, 'Bus Ticket', booking);
+  drawKeyValues(doc, [
+    ['Operator', route.partner.name],
+    ['Bus', `${route.busNumber} (${route.busType})`],
+    ['Route', `${route.source} to ${route.destination}`],
+    ['Boarding Point', route.sourceStation],
+    ['Dropping Point', route.destinationStation],
+    ['Departure', `${formatDate(departure)} ${formatTime(departure)}`],
+    ['Arrival (est.)', `${formatDate(arrival)} ${formatTime(arrival)}`],
+  ]);
+  doc.moveDown();
+
+  drawTable(
+    doc,
+    [
+      { header: 'Passenger', width: 220 },
+      { header: 'Gender', width: 80 },
+      { header: 'Seat', width: 80 },
+    ],
+    booking.passengers.map((p) => [`${p.firstName} ${p.lastName}`, p.gender || '-', p.seatNumber || '-'])
+  );
+};
+
+const drawFlightItinerary = (doc: PdfDocument, booking: BookingForTicket) => {
+  drawKeyValues(doc, [
+    ['PNR', booking.pnr || '-'],
+    ['Trip', (booking.tripType || 'MULTI_CITY').replace('_', ' ')],
+  ]);
+  doc.moveDown();
+
+  drawTable(
+    doc,
+    [
+      { header: 'Flight', width: 80 },
+      { header: 'From', width: 90 },
+      { header: 'To', width: 90 },
+      { header: 'Departure', width: 100 },
+      { header: 'Arrival', width: 100 },
+      { header: 'Cabin', width: 60 },
+    ],
+    booking.flightSegments.map((segment) => {
+      const flight = segment.flightSchedule.flight;
+      const departure = combineDateAndTime(segment.flightSchedule.scheduleDate, flight.departureTime);
+      const arrival = new Date(departure.getTime() + flight.durationMinutes * 60 * 1000);
+      return [
+        `${flight.airlineCode} ${flight.flightNumber}`,
+        `${flight.source} (${flight.sourceAirport})`,
+        `${flight.destination} (${flight.destinationAirport})`,
+        `${formatDate(departure)} ${formatTime(departure)}`,
+        `${formatDate(arrival)} ${formatTime(arrival)}`,
+        segment.cabinClass,
+      ];
+    })
+  );
+  doc.moveDown();
+};
+
+const drawFlightTicket = (doc: PdfDocument, booking: BookingForTicket) => {
+  if (booking.flightSegments.length > 1) {
+    drawHeader(doc, 'Flight E-Ticket', booking);
+    drawFlightItinerary(doc, booking);
+    drawTable(
+      doc,
+      [
+        { header: 'Passenger', width: 240 },
+        { header: 'Meal', width: 100 },
+        { header: 'ID', width: 140 },
+      ],
+      booking.passengers.map((p) => [
+        `${p.firstName} ${p.lastName}`,
+        p.mealPreference || '-',
+        p.idType ? `${p.idType} ${p.idNumber || ''}`.trim() : '-',
+      ])
+    );
+    return;
+  }
+
+  const schedule = booking.flightSchedule!;
+  const flight = schedule.flight;
+  const fareRules = schedule.fareRules;
+  const departure = combineDateAndTime(schedule.scheduleDate, flight.departureTime);
+  const arrival = new Date(departure.getTime() + flight.durationMinutes * 60 * 1000);
+
+  drawHeader(doc, 'Flight E-Ticket', booking);
+  drawKeyValues(doc, [
+    ['PNR', booking.pnr || '-'],
+    ['Airline', `${flight.airlineName} (${flight.airlineCode})`],
+    ['Flight', flight.flightNumber],
+    ['From', `${flight.source} - ${flight.sourceAirport}`],
+    ['To', `${flight.destination} - ${flight.destinationAirport}`],
+    ['Departure', `${formatDate(departure)} ${formatTime(departure)}`],
+    ['Arrival', `${formatDate(arrival)} ${formatTime(arrival)}`],
+    ['Cabin', booking.cabinClass || 'ECONOMY'],
+    ['Cabin Baggage', `${fareRules?.cabinBaggageKg ?? 7} kg`],
+    ['Check-in Baggage', `${fareRules?.checkInBaggageKg ?? 15} kg`],
+  ]);
+  doc.moveDown();
+
+  drawTable(
+    doc,
+    [
+      { header: 'Passenger', width: 200 },
+      { header: 'Seat', width: 70 },
+      { header: 'Meal', width: 90 },
+      { header: 'ID', width: 120 },
+    ],
+    booking.passengers.map((p) => [
+      `${p.firstName} ${p.lastName}`,
+      p.seatNumber || '-',
+      p.mealPreference || '-',
+      p.idType ? `${p.idType} ${p.idNumber || ''}`.trim() : '-',
+    ])
+  );
+};
+
+const drawHotelVoucher = (doc: PdfDocument, booking: BookingForTicket) => {
+  const room = booking.roomInventory!.room;
+  const hotel = room.hotel;
+
+  drawHeader(doc, 'Hotel Voucher', booking);
+  drawKeyValues(doc, [
+    ['Hotel', hotel.name],
+    ['Address', `${hotel.address}, ${hotel.city}, ${hotel.state} ${hotel.pincode}`],
+    ['Phone', hotel.phone],
+    ['Room', `${room.roomCategory} (${room.roomType}, ${room.bedType})`],
+    ['Check-in', booking.checkInDate ? `${formatDate(booking.checkInDate)} from ${hotel.checkInTime}` : '-'],
+    ['Check-out', booking.checkOutDate ? `${formatDate(booking.checkOutDate)} by ${hotel.checkOutTime}` : '-'],
+    ['Nights', String(booking.nights || 1)],
+    ['Rooms', String(booking.rooms || 1)],
+  ]);
+  doc.moveDown();
+
+  drawTable(
+    doc,
+    [
+      { header: 'Guest', width: 220 },
+      { header: 'Type', width: 100 },
+      { header: 'Room', width: 60 },
+    ],
+    booking.passengers.map((p) => [
+      `${p.firstName} ${p.lastName}`,
+      p.guestType === 'CHILD' && p.age !== null ? `CHILD (${p.age})` : p.guestType || 'ADULT',
+      String(p.roomNumber || 1),
+    ])
+  );
+};
+
+// ============================================================================
+// PDF RENDERING
+// ============================================================================
+
+/**
+ * Render the e-ticket / voucher PDF for a confirmed booking
+ */
+export const renderTicketPdf = async (booking: BookingForTicket): Promise<Buffer> => {
+  const token = buildTicketToken(booking);
+  const qrCode = await QRCode.toBuffer(token, { errorCorrectionLevel: 'M', margin: 1, width: 160 });
+
+  return renderPdf((doc) => {
+    switch (booking.category) {
+      case BookingCategory.BUS:
+        drawBusTicket(doc, booking);
+        break;
+      case BookingCategory.AIRLINE:
+        drawFlightTicket(doc, booking);
+        break;
+      case BookingCategory.HOTEL:
+        drawHotelVoucher(doc, booking);
+        break;
+    }
+
+    doc.moveDown();
+    drawKeyValues(doc, [['Amount Paid', formatCurrency(Number(booking.paidAmount))]]);
+
+    // QR code in the top-right corner
+    const qrSize = 120;
+    doc.image(qrCode, doc.page.width - doc.page.margins.right - qrSize, doc.page.margins.top, {
+      width: qrSize,
+    });
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .text('Scan to verify', doc.page.width - doc.page.margins.right - qrSize, doc.page.margins.top + qrSize + 2, {
+        width: qrSize,
+        align: 'center',
+      });
+
+    doc.x = doc.page.margins.left;
+    doc.y = Math.max(doc.y, doc.page.margins.top + qrSize + 20);
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(8).text('Please carry a valid photo ID along with this ticket.', {
+      align: 'center',
+    });
+  });
+};
\ No newline at end of file
@@ -0,0 +1,345 @@
+/**
+ * VERIFICATION SERVICE
+ * Ticket verification at boarding / hotel check-in
+ *
+ * Features:
+ * - Verify signed ticket tokens against the live booking
+ * - Record boarding and check-in events per passenger
+ * - Detect re-used tickets
+ * - Record no-shows and apply FareRules.noShowChargePercentage
+ */
+
+import { prisma } from '../server';
+import {
+  BookingCategory,
+  BookingStatus,
+  CancellationType,
+  Prisma,
+  TicketEventType,
+  UserRole,
+} from '@prisma/client';
+import { verifyTicketToken } from '../utils/ticketToken';
+import { ticketBookingInclude, BookingForTicket, getTravelStart } from './ticket.service';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Used for buses and hotels, which have no fare rules
+const DEFAULT_NO_SHOW_CHARGE_PERCENTAGE = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VerifyTicketParams {
+  token: string;
+  userId: string;
+  passengerIds?: string[];
+  location?: string;
+}
+
+export interface VerifyTicketResult {
+  valid: boolean;
+  message: string;
+  bookingId?: string;
+  bookingNumber?: string;
+  category?: BookingCategory;
+  travelStart?: Date | null;
+  passengers?: Array<{
+    id: string;
+    name: string;
+    seatNumber: string | null;
+    status: 'VERIFIED' | 'ALREADY_VERIFIED' | 'NOT_SELECTED';
+  }>;
+}
+
+export interface NoShowResult {
+  bookingId: string;
+  bookingNumber: string;
+  noShowPassengers: number;
+  status: BookingStatus;
+  noShowChargePercentage: number;
+  refundAmount: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Partner that supplied the booked inventory
+ */
+export const getBookingPartnerId = (booking: BookingForTicket): string | null =>
+  booking.busSchedule?.route.partnerId ||
+  booking.flightSchedule?.flight.partnerId ||
+  booking.roomInventory?.room.hotel.partnerId ||
+  null;
+
+/**
+ * Check that a user may verify tickets for a booking
+ * Admins may verify any booking; partner staff only their own inventory.
+ */
+export const canVerifyBooking = async (
+  userId: string,
+  booking: BookingForTicket
+): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, partnerId: true },
+  });
+
+  if (!user) {
+    return false;
+  }
+
+  if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+    return true;
+  }
+
+  return user.role === UserRole.PARTNER && !!user.partnerId && user.partnerId === getBookingPartnerId(booking);
+};
+
+const arrivalEventType = (category: BookingCategory): TicketEventType =>
+  category === BookingCategory.HOTEL ? TicketEventType.CHECKED_IN : TicketEventType.BOARDED;
+
+// ============================================================================
+// TICKET VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a scanned ticket and record boarding / check-in
+ */
+export const verifyTicket = async (params: VerifyTicketParams): Promise<VerifyTicketResult> => {
+  const { token, userId, passengerIds, location } = params;
+
+  const payload = verifyTicketToken(token);
+  if (!payload) {
+    return { valid: false, message: 'Invalid or tampered ticket' };
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { bookingNumber: payload.bn },
+    include: {
+      ...ticketBookingInclude,
+      ticketEvents: true,
+    },
+  });
+
+  if (!booking) {
+    return { valid: false, message: 'Booking not found' };
+  }
+
+  if (!(await canVerifyBooking(userId, booking))) {
+    return { valid: false, message: 'Ticket does not belong to your inventory' };
+  }
+
+  const summary = {
+    bookingId: booking.id,
+    bookingNumber: booking.bookingNumber,
+    category: booking.category,
+    travelStart: getTravelStart(booking),
+  };
+
+  if (booking.status !== BookingStatus.CONFIRMED) {
+    return { valid: false, message: `Booking is ${booking.status.toLowerCase()}`, ...summary };
+  }
+
+  const currentRef = booking.busScheduleId || booking.flightScheduleId || booking.roomInventoryId || '';
+  if (payload.ref !== currentRef) {
+    return { valid: false, message: 'Ticket has been superseded by a newer ticket', ...summary };
+  }
+
+  const eventType = arrivalEventType(booking.category);
+  const alreadyVerified = new Set(
+    booking.ticketEvents
+      .filter((event) => event.type === eventType && event.passengerId)
+      .map((event) => event.passengerId as string)
+  );
+
+  const selected = booking.passengers.filter(
+    (p) => !passengerIds || passengerIds.length === 0 || passengerIds.includes(p.id)
+  );
+  const toVerify = selected.filter((p) => !alreadyVerified.has(p.id));
+
+  if (toVerify.length > 0) {
+    const partnerId = getBookingPartnerId(booking);
+    await prisma.ticketEvent.createMany({
+      data: toVerify.map((p) => ({
+        bookingId: booking.id,
+        passengerId: p.id,
+        type: eventType,
+        partnerId,
+        recordedBy: userId,
+        location,
+      })),
+    });
+  }
+
+  logger.info(
+    `Ticket verified: ${booking.bookingNumber}, ${toVerify.length} passenger(s) ${eventType.toLowerCase()}`
+  );
+
+  const verifiedIds = new Set(toVerify.map((p) => p.id));
+  const selectedIds = new Set(selected.map((p) => p.id));
+
+  return {
+    valid: true,
+    message:
+      toVerify.length > 0
+        ? `${toVerify.length} passenger(s) ${eventType === TicketEventType.BOARDED ? 'boarded' : 'checked in'}`
+        : 'Ticket already used',
+    ...summary,
+    passengers: booking.passengers.map((p) => ({
+      id: p.id,
+      name: `${p.firstName} ${p.lastName}`,
+      seatNumber: p.seatNumber,
+      status: verifiedIds.has(p.id)
+        ? 'VERIFIED'
+        : selectedIds.has(p.id)
+          ? 'ALREADY_VERIFIED'
+          : 'NOT_SELECTED',
+    })),
+  };
+};
+
+// ============================================================================
+// NO-SHOWS
+// ============================================================================
+
+const recordNoShowInTransaction = async (
+  bookingId: string,
+  userId: string,
+  notes?: string
+): Promise<NoShowResult> => {
+  return await prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        ...ticketBookingInclude,
+        ticketEvents: true,
+        cancellationRequest: true,
+      },
+    });
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new Error('No-show can only be recorded for confirmed bookings');
+    }
+
+    // A booking carries one cancellation / no-show refund request
+    if (booking.cancellationRequest) {
+      throw new Error('A cancellation or no-show has already been recorded for this booking');
+    }
+
+    const travelStart = getTravelStart(booking);
+    if (travelStart && travelStart > new Date()) {
+      throw new Error('No-show cannot be recorded before departure / check-in');
+    }
+
+    const arrived = new Set(
+      booking.ticketEvents
+        .filter((event) => event.type !== TicketEventType.NO_SHOW && event.passengerId)
+        .map((event) => event.passengerId as string)
+    );
+    const alreadyNoShow = new Set(
+      booking.ticketEvents
+        .filter((event) => event.type === TicketEventType.NO_SHOW && event.passengerId)
+        .map((event) => event.passengerId as string)
+    );
+    const noShows = booking.passengers.filter((p) => !arrived.has(p.id) && !alreadyNoShow.has(p.id));
+
+    if (noShows.length === 0) {
+      throw new Error('All passengers have boarded or are already marked as no-show');
+    }
+
+    const partnerId = getBookingPartnerId(booking);
+    await tx.ticketEvent.createMany({
+      data: noShows.map((p) => ({
+        bookingId,
+        passengerId: p.id,
+        type: TicketEventType.NO_SHOW,
+        partnerId,
+        recordedBy: userId,
+        notes,
+      })),
+    });
+
+    const noShowChargePercentage = Number(
+      booking.flightSchedule?.fareRules?.noShowChargePercentage ?? DEFAULT_NO_SHOW_CHARGE_PERCENTAGE
+    );
+    const passengerShare = noShows.length / booking.passengers.length;
+    const eligibleRefundAmount = Number(booking.paidAmount) * passengerShare;
+    const cancellationCharges = (eligibleRefundAmount * noShowChargePercentage) / 100;
+    const refundAmount = Math.round(Math.max(0, eligibleRefundAmount - cancellationCharges) * 100) / 100;
+
+    const allNoShow = arrived.size === 0;
+    const status = allNoShow ? BookingStatus.NO_SHOW : booking.status;
+
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        status,
+        ...(refundAmount > 0 && { refundAmount }),
+      },
+    });
+
+    if (refundAmount > 0) {
+      await tx.cancellationRequest.create({
+        data: {
+          bookingId,
+          type: CancellationType.SYSTEM_INITIATED,
+          requestedBy: userId,
+          reason: 'NO_SHOW',
+          description: notes,
+          eligibleRefundAmount,
+          cancellationCharges,
+          finalRefundAmount: refundAmount,
+          status: 'APPROVED',
+          approvedBy: 'SYSTEM',
+          approvedAt: new Date(),
+          refundStatus: 'PENDING',
+        },
+      });
+    }
+
+    logger.info(
+      `No-show recorded: ${booking.bookingNumber}, ${noShows.length} passenger(s), refund ${refundAmount}`
+    );
+
+    return {
+      bookingId,
+      bookingNumber: booking.bookingNumber,
+      noShowPassengers: noShows.length,
+      status,
+      noShowChargePercentage,
+      refundAmount,
+    };
+  });
+};
+
+/**
+ * Record no-shows for passengers who did not board / check in
+ * If nobody turned up the booking moves to NO_SHOW. The refund for no-show
+ * passengers is their share of the paid amount less the no-show charge.
+ */
+export const recordNoShow = async (
+  bookingId: string,
+  userId: string,
+  notes?: string
+): Promise<NoShowResult> => {
+  try {
+    return await recordNoShowInTransaction(bookingId, userId, notes);
+  } catch (error) {
+    // A concurrent call created the booking's cancellation request first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('A cancellation or no-show has already been recorded for this booking');
+    }
+
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { payBookingFromWallet } from './wallet.service';
+
+jest.mock('../server', () => ({ prisma: {} }));
+
+type MockFn = jest.Mock<(...args: any[]) => any>;
+
+const createTx = () => ({
+  wallet: { upsert: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() } as Record<string, MockFn>,
+  walletHold: { findFirst: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() } as Record<string, MockFn>,
+  walletTransaction: { findUnique: jest.fn(), create: jest.fn() } as Record<string, MockFn>,
+});
+
+describe('payBookingFromWallet', () => {
+  const params = { userId: 'user_1', bookingId: 'booking_1', bookingNumber: 'BK-1', amount: 500 };
+  let tx: ReturnType<typeof createTx>;
+
+  beforeEach(() => {
+    tx = createTx();
+    tx.walletTransaction.findUnique.mockResolvedValue(null);
+    tx.walletTransaction.create.mockImplementation(async ({ data }: any) => ({ id: 'txn_new', ...data }));
+    tx.wallet.upsert.mockResolvedValue({ id: 'wallet_1' });
+    tx.wallet.updateMany.mockResolvedValue({ count: 1 });
+    tx.wallet.findUniqueOrThrow.mockResolvedValue({ id: 'wallet_1', balance: 1000, holdBalance: 0 });
+    tx.walletHold.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  const postings = () => tx.walletTransaction.create.mock.calls.map(([args]: any[]) => args.data);
+
+  it('returns the earlier payment when the booking was already paid', async () => {
+    const earlier = { id: 'txn_paid', idempotencyKey: 'booking-payment:booking_1' };
+    tx.walletTransaction.findUnique.mockResolvedValue(earlier);
+
+    await expect(payBookingFromWallet(tx as never, params)).resolves.toBe(earlier);
+    expect(tx.walletHold.findFirst).not.toHaveBeenCalled();
+    expect(tx.wallet.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('captures a reservation that covers the amount', async () => {
+    const hold = { id: 'hold_1', amount: 500, bookingId: 'booking_1', wallet: { userId: 'user_1' } };
+    tx.walletHold.findFirst.mockResolvedValue(hold);
+    tx.walletHold.findUniqueOrThrow.mockResolvedValue(hold);
+
+    await payBookingFromWallet(tx as never, params);
+
+    expect(tx.walletHold.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'hold_1', status: 'ACTIVE' }, data: expect.objectContaining({ status: 'CAPTURED' }) })
+    );
+    expect(postings()).toEqual([
+      expect.objectContaining({
+        amount: 500,
+        debitAccount: 'WALLET_HELD',
+        creditAccount: 'SALES',
+        idempotencyKey: 'booking-payment:booking_1',
+      }),
+    ]);
+  });
+
+  it('gives back a reservation for a different amount and debits the balance', async () => {
+    const hold = { id: 'hold_1', amount: 300, bookingId: 'booking_1', wallet: { userId: 'user_1' } };
+    tx.walletHold.findFirst.mockResolvedValue(hold);
+    tx.walletHold.findUniqueOrThrow.mockResolvedValue(hold);
+
+    await payBookingFromWallet(tx as never, params);
+
+    expect(tx.walletHold.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'RELEASED' }) })
+    );
+    expect(postings()).toEqual([
+      expect.objectContaining({ amount: 300, debitAccount: 'WALLET_HELD', creditAccount: 'WALLET_AVAILABLE' }),
+      expect.objectContaining({
+        amount: 500,
+        debitAccount: 'WALLET_AVAILABLE',
+        creditAccount: 'SALES',
+        idempotencyKey: 'booking-payment:booking_1',
+      }),
+    ]);
+  });
+
+  it('debits the balance when nothing was reserved', async () => {
+    tx.walletHold.findFirst.mockResolvedValue(null);
+
+    await payBookingFromWallet(tx as never, params);
+
+    expect(tx.walletHold.updateMany).not.toHaveBeenCalled();
+    expect(postings()).toEqual([
+      expect.objectContaining({ amount: 500, debitAccount: 'WALLET_AVAILABLE', creditAccount: 'SALES' }),
+    ]);
+  });
+});
\ No newline at end of file
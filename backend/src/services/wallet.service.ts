@@ -0,0 +1,516 @@
+/**
+ * WALLET SERVICE
+ * Double-entry wallet ledger
+ *
+ * Features:
+ * - Every balance change is one posting that debits one ledger account and credits another
+ * - Idempotency keys: replaying a posting returns the original instead of moving money twice
+ * - Race-safe debits (conditional balance updates, never read-then-write)
+ * - holdBalance reservations for pending bookings (full or split-tender), captured on payment or released on expiry
+ * - Audit job recomputing balances from the ledger to detect drift
+ */
+
+import { prisma } from '../server';
+import {
+  LedgerAccount,
+  Prisma,
+  TransactionType,
+  WalletHold,
+  WalletHoldStatus,
+  WalletTransaction,
+} from '@prisma/client';
+import { logger } from '../utils/logger';
+import cron from 'node-cron';
+
+type DbClient = Prisma.TransactionClient;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const WALLET_DRIFT_TOLERANCE = 0.005;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WalletPostingDetails {
+  description: string;
+  referenceId?: string;
+  referenceType?: string; // BOOKING, FARE_LOCK, RESCHEDULE, REFUND, ...
+  idempotencyKey?: string;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpaySignature?: string;
+}
+
+interface WalletPosting extends WalletPostingDetails {
+  userId: string;
+  type: TransactionType;
+  amount: number;
+  debitAccount: LedgerAccount;
+  creditAccount: LedgerAccount;
+}
+
+/**
+ * The wallet cannot cover a posting (as opposed to a database failure)
+ */
+export class WalletFundsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalletFundsError';
+  }
+}
+
+export interface WalletDrift {
+  walletId: string;
+  userId: string;
+  balance: number;
+  ledgerBalance: number;
+  holdBalance: number;
+  ledgerHoldBalance: number;
+  activeHolds: number; // Sum of ACTIVE wallet holds
+  fixed: boolean;
+}
+
+// ============================================================================
+// LEDGER POSTINGS
+// ============================================================================
+
+// Wallet accounts map onto the Wallet balance columns; the rest are platform accounts
+const WALLET_ACCOUNT_COLUMNS: Partial<Record<LedgerAccount, 'balance' | 'holdBalance'>> = {
+  WALLET_AVAILABLE: 'balance',
+  WALLET_HELD: 'holdBalance',
+};
+
+/**
+ * Post a balanced movement of `amount` between two ledger accounts
+ * The wallet balance columns move in the same statement that checks them,
+ * so concurrent postings can never overdraw a wallet. A posting whose
+ * idempotency key was already used returns the original posting.
+ */
+const postWalletTransaction = async (tx: DbClient, posting: WalletPosting): Promise<WalletTransaction> => {
+  const amount = Math.round(posting.amount * 100) / 100;
+
+  if (!(amount > 0)) {
+    throw new Error('Wallet amount must be positive');
+  }
+
+  if (posting.debitAccount === posting.creditAccount) {
+    throw new Error('A posting must move money between two different accounts');
+  }
+
+  if (posting.idempotencyKey) {
+    const existing = await tx.walletTransaction.findUnique({
+      where: { idempotencyKey: posting.idempotencyKey },
+    });
+
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const wallet = await tx.wallet.upsert({
+    where: { userId: posting.userId },
+    create: { userId: posting.userId },
+    update: {},
+  });
+
+  // Debiting a wallet account lowers its column, crediting raises it
+  const deltas: Record<'balance' | 'holdBalance', number> = { balance: 0, holdBalance: 0 };
+  const debitColumn = WALLET_ACCOUNT_COLUMNS[posting.debitAccount];
+  const creditColumn = WALLET_ACCOUNT_COLUMNS[posting.creditAccount];
+  if (debitColumn) {
+    deltas[debitColumn] -= amount;
+  }
+  if (creditColumn) {
+    deltas[creditColumn] += amount;
+  }
+
+  const { count } = await tx.wallet.updateMany({
+    where: {
+      id: wallet.id,
+      ...(deltas.balance < 0 && { balance: { gte: -deltas.balance } }),
+      ...(deltas.holdBalance < 0 && { holdBalance: { gte: -deltas.holdBalance } }),
+    },
+    data: {
+      balance: { increment: deltas.balance },
+      holdBalance: { increment: deltas.holdBalance },
+    },
+  });
+
+  if (count === 0) {
+    throw new WalletFundsError(
+      debitColumn === 'holdBalance' ? 'Insufficient held wallet balance' : 'Insufficient wallet balance'
+    );
+  }
+
+  const updated = await tx.wallet.findUniqueOrThrow({
+    where: { id: wallet.id },
+  });
+
+  return await tx.walletTransaction.create({
+    data: {
+      walletId: wallet.id,
+      type: posting.type,
+      amount,
+      status: 'SUCCESS',
+      description: posting.description,
+      referenceId: posting.referenceId,
+      referenceType: posting.referenceType,
+      debitAccount: posting.debitAccount,
+      creditAccount: posting.creditAccount,
+      idempotencyKey: posting.idempotencyKey,
+      balanceAfter: updated.balance,
+      holdBalanceAfter: updated.holdBalance,
+      razorpayOrderId: posting.razorpayOrderId,
+      razorpayPaymentId: posting.razorpayPaymentId,
+      razorpaySignature: posting.razorpaySignature,
+    },
+  });
+};
+
+/**
+ * Money paid in through Razorpay (wallet top-up)
+ */
+export const topUpWallet = (tx: DbClient, userId: string, amount: number, details: WalletPostingDetails) =>
+  postWalletTransaction(tx, {
+    ...details,
+    userId,
+    amount,
+    type: TransactionType.CREDIT,
+    debitAccount: LedgerAccount.GATEWAY_CLEARING,
+    creditAccount: LedgerAccount.WALLET_AVAILABLE,
+  });
+
+/**
+ * Pay from the spendable balance
+ */
+export const debitWallet = (tx: DbClient, userId: string, amount: number, details: WalletPostingDetails) =>
+  postWalletTransaction(tx, {
+    ...details,
+    userId,
+    amount,
+    type: TransactionType.DEBIT,
+    debitAccount: LedgerAccount.WALLET_AVAILABLE,
+    creditAccount: LedgerAccount.SALES,
+  });
+
+/**
+ * Refund into the spendable balance
+ */
+export const creditWalletRefund = (tx: DbClient, userId: string, amount: number, details: WalletPostingDetails) =>
+  postWalletTransaction(tx, {
+    ...details,
+    userId,
+    amount,
+    type: TransactionType.REFUND,
+    debitAccount: LedgerAccount.REFUNDS,
+    creditAccount: LedgerAccount.WALLET_AVAILABLE,
+  });
+
+// ============================================================================
+// HOLDS
+// ============================================================================
+
+/**
+ * Reserve wallet funds for a pending booking until it is paid or expires
+ */
+export const holdWalletFunds = async (
+  tx: DbClient,
+  userId: string,
+  amount: number,
+  params: { bookingId: string; bookingNumber: string; expiresAt: Date; idempotencyKey?: string }
+): Promise<WalletHold> => {
+  const posting = await postWalletTransaction(tx, {
+    userId,
+    amount,
+    type: TransactionType.HOLD,
+    debitAccount: LedgerAccount.WALLET_AVAILABLE,
+    creditAccount: LedgerAccount.WALLET_HELD,
+    description: `Reserved for booking ${params.bookingNumber}`,
+    referenceId: params.bookingId,
+    referenceType: 'BOOKING',
+    idempotencyKey: params.idempotencyKey || `wallet-hold:${params.bookingId}`,
+  });
+
+  return await tx.walletHold.create({
+    data: {
+      walletId: posting.walletId,
+      bookingId: params.bookingId,
+      amount: posting.amount,
+      expiresAt: params.expiresAt,
+    },
+  });
+};
+
+/**
+ * Settle an active hold exactly once
+ * The status change is conditional, so a capture racing a release (or the
+ * expiry job) leaves only one of them through.
+ */
+const settleWalletHold = async (
+  tx: DbClient,
+  holdId: string,
+  status: 'CAPTURED' | 'RELEASED',
+  details: WalletPostingDetails
+): Promise<WalletTransaction> => {
+  const { count } = await tx.walletHold.updateMany({
+    where: { id: holdId, status: WalletHoldStatus.ACTIVE },
+    data: { status, settledAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new WalletFundsError('Wallet reservation is no longer active');
+  }
+
+  const hold = await tx.walletHold.findUniqueOrThrow({
+    where: { id: holdId },
+    include: { wallet: true },
+  });
+
+  return await postWalletTransaction(tx, {
+    ...details,
+    userId: hold.wallet.userId,
+    amount: Number(hold.amount),
+    type: status === 'CAPTURED' ? TransactionType.DEBIT : TransactionType.RELEASE,
+    debitAccount: LedgerAccount.WALLET_HELD,
+    creditAccount: status === 'CAPTURED' ? LedgerAccount.SALES : LedgerAccount.WALLET_AVAILABLE,
+    referenceId: details.referenceId ?? hold.bookingId ?? undefined,
+    referenceType: details.referenceType ?? 'BOOKING',
+    idempotencyKey: details.idempotencyKey ?? `wallet-hold-settle:${holdId}`,
+  });
+};
+
+/**
+ * Pay with the funds reserved by a hold
+ */
+export const captureWalletHold = (tx: DbClient, holdId: string, details: WalletPostingDetails) =>
+  settleWalletHold(tx, holdId, 'CAPTURED', details);
+
+/**
+ * Give reserved funds back to the spendable balance
+ */
+export const releaseWalletHold = (tx: DbClient, holdId: string, description: string) =>
+  settleWalletHold(tx, holdId, 'RELEASED', { description });
+
+/**
+ * Release the active reservation of a booking, if any (cancelled before payment)
+ */
+export const releaseBookingWalletHold = async (tx: DbClient, bookingId: string, reason: string): Promise<void> => {
+  const hold = await tx.walletHold.findFirst({
+    where: { bookingId, status: WalletHoldStatus.ACTIVE },
+  });
+
+  if (hold) {
+    await releaseWalletHold(tx, hold.id, reason);
+  }
+};
+
+/**
+ * Pay a booking's wallet share: capture its reservation when it covers the
+ * amount, otherwise give the reservation back and debit the balance
+ * Capture and debit post under one key, so the wallet pays a booking once.
+ */
+export const payBookingFromWallet = async (
+  tx: DbClient,
+  params: { userId: string; bookingId: string; bookingNumber: string; amount: number }
+): Promise<WalletTransaction> => {
+  const details = {
+    description: `Payment for booking ${params.bookingNumber}`,
+    referenceId: params.bookingId,
+    referenceType: 'BOOKING',
+    idempotencyKey: `booking-payment:${params.bookingId}`,
+  };
+
+  const paid = await tx.walletTransaction.findUnique({
+    where: { idempotencyKey: details.idempotencyKey },
+  });
+
+  if (paid) {
+    return paid;
+  }
+
+  const hold = await tx.walletHold.findFirst({
+    where: { bookingId: params.bookingId, status: WalletHoldStatus.ACTIVE },
+  });
+
+  if (hold && Number(hold.amount) === params.amount) {
+    return await captureWalletHold(tx, hold.id, details);
+  }
+
+  if (hold) {
+    await releaseWalletHold(tx, hold.id, `Booking ${params.bookingNumber} paid a different wallet amount`);
+  }
+
+  return await debitWallet(tx, params.userId, params.amount, details);
+};
+
+/**
+ * Release reservations whose booking was not paid in time
+ * Called from the hold expiry cron job
+ */
+export const releaseExpiredWalletHolds = async (): Promise<number> => {
+  const expired = await prisma.walletHold.findMany({
+    where: {
+      status: WalletHoldStatus.ACTIVE,
+      expiresAt: { lt: new Date() },
+    },
+  });
+
+  let released = 0;
+  for (const hold of expired) {
+    try {
+      await prisma.$transaction((tx) => releaseWalletHold(tx, hold.id, 'Reservation expired'));
+      released++;
+    } catch (error) {
+      // Captured or released while the job ran
+      logger.debug(`Wallet hold ${hold.id} not released: ${(error as Error).message}`);
+    }
+  }
+
+  if (released > 0) {
+    logger.info(`Released ${released} expired wallet reservation(s)`);
+  }
+
+  return released;
+};
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Accounts a posting moved money between
+ * Postings made before the ledger are read from their type.
+ */
+const getPostingAccounts = (
+  posting: Pick<WalletTransaction, 'type' | 'status' | 'debitAccount' | 'creditAccount'>
+): { debit: LedgerAccount | null; credit: LedgerAccount | null } => {
+  if (posting.debitAccount && posting.creditAccount) {
+    return { debit: posting.debitAccount, credit: posting.creditAccount };
+  }
+
+  if (posting.status !== 'SUCCESS') {
+    return { debit: null, credit: null };
+  }
+
+  switch (posting.type) {
+    case TransactionType.CREDIT:
+      return { debit: LedgerAccount.GATEWAY_CLEARING, credit: LedgerAccount.WALLET_AVAILABLE };
+    case TransactionType.REFUND:
+      return { debit: LedgerAccount.REFUNDS, credit: LedgerAccount.WALLET_AVAILABLE };
+    case TransactionType.DEBIT:
+      return { debit: LedgerAccount.WALLET_AVAILABLE, credit: LedgerAccount.SALES };
+    default:
+      return { debit: null, credit: null };
+  }
+};
+
+/**
+ * Recompute every wallet's balances from its postings and report drift
+ * With `fix`, drifted wallets are reset to the ledger; a wallet that moved
+ * while it was being audited is left alone (optimistic check on updatedAt).
+ */
+export const auditWallets = async (options: { fix?: boolean } = {}): Promise<WalletDrift[]> => {
+  const wallets = await prisma.wallet.findMany({
+    select: { id: true, userId: true, balance: true, holdBalance: true, updatedAt: true },
+  });
+
+  const drifts: WalletDrift[] = [];
+
+  for (const wallet of wallets) {
+    const [postings, activeHolds] = await Promise.all([
+      prisma.walletTransaction.findMany({
+        where: { walletId: wallet.id },
+        select: { type: true, status: true, amount: true, debitAccount: true, creditAccount: true },
+      }),
+      prisma.walletHold.aggregate({
+        where: { walletId: wallet.id, status: WalletHoldStatus.ACTIVE },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const sums: Record<'balance' | 'holdBalance', number> = { balance: 0, holdBalance: 0 };
+    for (const posting of postings) {
+      const { debit, credit } = getPostingAccounts(posting);
+      const debitColumn = debit && WALLET_ACCOUNT_COLUMNS[debit];
+      const creditColumn = credit && WALLET_ACCOUNT_COLUMNS[credit];
+      if (debitColumn) {
+        sums[debitColumn] -= Number(posting.amount);
+      }
+      if (creditColumn) {
+        sums[creditColumn] += Number(posting.amount);
+      }
+    }
+
+    const ledgerBalance = Math.round(sums.balance * 100) / 100;
+    const ledgerHoldBalance = Math.round(sums.holdBalance * 100) / 100;
+    const activeHoldTotal = Number(activeHolds._sum.amount || 0);
+
+    const drifted =
+      Math.abs(Number(wallet.balance) - ledgerBalance) > WALLET_DRIFT_TOLERANCE ||
+      Math.abs(Number(wallet.holdBalance) - ledgerHoldBalance) > WALLET_DRIFT_TOLERANCE ||
+      Math.abs(ledgerHoldBalance - activeHoldTotal) > WALLET_DRIFT_TOLERANCE;
+
+    if (!drifted) {
+      continue;
+    }
+
+    // A posting landed mid-audit; the next run will see a consistent snapshot
+    const current = await prisma.wallet.findUnique({
+      where: { id: wallet.id },
+      select: { updatedAt: true },
+    });
+    if (!current || current.updatedAt.getTime() !== wallet.updatedAt.getTime()) {
+      continue;
+    }
+
+    let fixed = false;
+    if (options.fix) {
+      const { count } = await prisma.wallet.updateMany({
+        where: { id: wallet.id, updatedAt: wallet.updatedAt },
+        data: { balance: ledgerBalance, holdBalance: ledgerHoldBalance },
+      });
+      fixed = count > 0;
+    }
+
+    drifts.push({
+      walletId: wallet.id,
+      userId: wallet.userId,
+      balance: Number(wallet.balance),
+      ledgerBalance,
+      holdBalance: Number(wallet.holdBalance),
+      ledgerHoldBalance,
+      activeHolds: activeHoldTotal,
+      fixed,
+    });
+
+    logger.warn(
+      `Wallet ${wallet.id} drift: balance ${wallet.balance} vs ledger ${ledgerBalance}, ` +
+        `held ${wallet.holdBalance} vs ledger ${ledgerHoldBalance} (active holds ${activeHoldTotal})` +
+        (fixed ? ' - reset to ledger' : '')
+    );
+  }
+
+  logger.info(`Wallet audit: ${wallets.length} wallet(s) checked, ${drifts.length} drifted`);
+
+  return drifts;
+};
+
+/**
+ * Start the nightly wallet audit job (report only)
+ * Runs at 02:30 every day
+ */
+export const startWalletAuditCron = (): void => {
+  cron.schedule('30 2 * * *', async () => {
+    logger.debug('Running wallet audit job...');
+    try {
+      await auditWallets();
+    } catch (error) {
+      logger.error('Wallet audit job failed:', error);
+    }
+  });
+
+  logger.info('Wallet audit job scheduled (nightly)');
+};
\ No newline at end of file
@@ -89,6 +89,8 @@ export interface PassengerInfo {
   idType?: string;
   idNumber?: string;
   guestType?: 'ADULT' | 'CHILD';
+  age?: number; // Required for children
+  roomNumber?: number; // Hotel room within the booking (1..rooms)
 }
 
 export interface AddOnItem {
@@ -97,6 +99,11 @@ export interface AddOnItem {
   quantity: number;
 }
 
+export interface FlightSegmentRequest {
+  flightScheduleId: string;
+  cabinClass?: string;
+}
+
 export interface CreateBookingRequest {
   category: BookingCategory;
   
@@ -106,12 +113,15 @@ export interface CreateBookingRequest {
   // Flight specific
   flightScheduleId?: string;
   cabinClass?: string;
+  tripType?: 'ONE_WAY' | 'ROUND_TRIP' | 'MULTI_CITY';
+  segments?: FlightSegmentRequest[]; // Round-trip / multi-city legs in travel order
   
   // Hotel specific
   roomInventoryId?: string;
   checkInDate?: Date;
   checkOutDate?: Date;
   nights?: number;
+  rooms?: number;
   
   // Common
   passengers: PassengerInfo[];
@@ -120,6 +130,8 @@ export interface CreateBookingRequest {
   primaryPassengerEmail?: string;
   addOns?: AddOnItem[];
   couponCode?: string;
+  fareLockId?: string; // Paid fare lock to book at the locked fare
+  payWithWallet?: boolean; // Reserve the total in the wallet until payment
 }
 
 export interface BookingResponse {
@@ -137,6 +149,27 @@ export interface BookingResponse {
   createdAt: Date;
 }
 
+export interface ValidateCouponRequest {
+  code: string;
+  category: BookingCategory;
+  orderAmount: number;
+}
+
+export interface CouponValidationResponse {
+  valid: boolean;
+  code: string;
+  discountAmount: number;
+  finalAmount: number;
+  message: string;
+}
+
+export interface RescheduleBookingRequest {
+  scheduleId?: string; // Bus / flight
+  seatNumbers?: string[]; // Bus seats on the new schedule
+  checkInDate?: string; // Hotel
+  checkOutDate?: string; // Hotel
+}
+
 // ============================================================================
 // SEARCH TYPES
 // ============================================================================
@@ -155,7 +188,8 @@ export interface FlightSearchRequest {
   returnDate?: Date;
   passengers: number;
   cabinClass?: string;
-  tripType: 'one-way' | 'round-trip';
+  tripType: 'one-way' | 'round-trip' | 'multi-city';
+  segments?: Array<{ source: string; destination: string; departureDate: Date }>;
 }
 
 export interface HotelSearchRequest {
@@ -177,6 +211,27 @@ export interface CreatePaymentRequest {
   bookingId: string;
   amount: number;
   method: 'razorpay' | 'wallet' | 'upi' | 'card';
+  walletAmount?: number; // Split tender: part paid from the wallet, the rest through the gateway
+}
+
+export interface CreateFareLockRequest {
+  category: BookingCategory;
+  busScheduleId?: string;
+  flightScheduleId?: string;
+  cabinClass?: string;
+  seatNumbers?: string[]; // Bus seats to lock
+  seatCount?: number; // Flight seats to lock
+  durationHours: number; // 24-72
+}
+
+export interface FareLockPaymentRequest {
+  fareLockId: string;
+  method: 'razorpay' | 'wallet' | 'upi' | 'card';
+}
+
+export interface ReschedulePaymentRequest {
+  rescheduleId: string;
+  method: 'razorpay' | 'wallet' | 'upi' | 'card';
 }
 
 export interface PaymentVerificationRequest {
@@ -225,11 +280,54 @@ export interface CancellationRequest {
   description?: string;
 }
 
+export interface PartialCancellationRequest {
+  passengerIds?: string[]; // Bus / flight
+  roomNumbers?: number[]; // Hotel
+  reason: string;
+}
+
+export interface CancellationSlab {
+  minHoursBefore: number; // Applies when cancelling at least this many hours before departure / check-in
+  chargePercentage: number;
+}
+
 export interface CancellationResponse {
   eligibleRefundAmount: number;
   cancellationCharges: number;
   finalRefundAmount: number;
+  walletRefundAmount: number; // Share of finalRefundAmount going back to the wallet
+  gatewayRefundAmount: number; // Share going back to the gateway payment
   refundProcessingDays: number;
+  hoursBeforeTravel: number | null;
+  chargePercentage: number;
+  appliedSlab: CancellationSlab | null; // Null once travel has started
+  slabs: CancellationSlab[];
+  policy: string;
+}
+
+export interface UpdateScheduleStatusRequest {
+  status: 'CANCELLED' | 'DELAYED';
+  delayMinutes?: number; // Required when delayed
+  reason: string;
+}
+
+export interface RebookDisruptedBookingRequest {
+  scheduleId: string; // One of the offered alternatives
+}
+
+// ============================================================================
+// VERIFICATION TYPES
+// ============================================================================
+
+export interface VerifyTicketRequest {
+  token: string;
+  passengerIds?: string[];
+  location?: string;
+}
+
+export interface RecordNoShowRequest {
+  bookingId: string;
+  notes?: string;
 }
 
 // ============================================================================
@@ -263,6 +361,88 @@ export interface UpdateInventoryRequest {
   validUntil: Date;
 }
 
+export interface CreateCouponRequest {
+  code: string;
+  description?: string;
+  discountType: 'PERCENTAGE' | 'FLAT';
+  discountValue: number;
+  maxDiscountAmount?: number;
+  minOrderValue?: number;
+  categories?: BookingCategory[];
+  validFrom: Date;
+  validUntil: Date;
+  usageLimit?: number;
+  perUserLimit?: number;
+}
+
+export interface UpdateCouponRequest {
+  description?: string;
+  discountType?: 'PERCENTAGE' | 'FLAT';
+  discountValue?: number;
+  maxDiscountAmount?: number | null;
+  minOrderValue?: number;
+  categories?: BookingCategory[];
+  validFrom?: Date;
+  validUntil?: Date;
+  usageLimit?: number | null;
+  perUserLimit?: number;
+  isActive?: boolean;
+}
+
+export interface CreateChargeRuleRequest {
+  code: string;
+  name: string;
+  type: 'FEE' | 'TAX';
+  category: BookingCategory;
+  subType?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  calculation?: 'PERCENTAGE' | 'FLAT';
+  rate: number;
+  appliesOn?: 'BASE_FARE' | 'FEES';
+  priority?: number;
+}
+
+export interface CreatePricingRuleRequest {
+  name: string;
+  category: BookingCategory;
+  partnerId?: string;
+  subType?: string;
+  trigger: 'LOAD_FACTOR' | 'DAYS_TO_DEPARTURE' | 'DAY_OF_WEEK' | 'HOLIDAY';
+  minValue?: number;
+  maxValue?: number;
+  daysOfWeek?: number[]; // 0 = Sunday
+  calculation?: 'PERCENTAGE' | 'FLAT';
+  adjustment: number; // Negative for discounts
+  priority?: number;
+}
+
+export interface SimulatePricingRequest {
+  scheduleId: string;
+  category: BookingCategory;
+  cabinClass?: string;
+  rules?: CreatePricingRuleRequest[]; // Replaces the active rules if given
+}
+
+export interface CreatePolicyRequest {
+  name: string; // An existing name creates its next version
+  category: 'CANCELLATION' | 'REFUND' | 'BOOKING' | 'HOLD';
+  description?: string;
+  bookingCategory?: BookingCategory;
+  partnerId?: string;
+  rules: unknown; // Validated against the category's rule schema
+  effectiveFrom: Date;
+  effectiveUntil?: Date;
+}
+
+export interface UpdatePolicyRequest {
+  description?: string;
+  isActive?: boolean;
+  rules?: unknown; // Only before the version takes effect
+  effectiveFrom?: Date; // Only before the version takes effect
+  effectiveUntil?: Date | null;
+}
+
 export interface DashboardStats {
   totalBookings: number;
   totalRevenue: number;
@@ -0,0 +1,64 @@
+/**
+ * CACHE UTILITY FUNCTIONS
+ * In-process TTL cache for expensive read queries
+ *
+ * Entries live in this process only; each API instance keeps its own copy
+ * and relies on the TTL for changes made by other instances.
+ */
+
+// ============================================================================
+// NAMESPACES
+// ============================================================================
+
+export const CACHE_NAMESPACES = {
+  FARE_CALENDAR: 'fare-calendar',
+  POLICIES: 'policies',
+} as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[keyof typeof CACHE_NAMESPACES];
+
+// ============================================================================
+// CACHE OPERATIONS
+// ============================================================================
+
+const store = new Map<string, { value: unknown; expiresAt: number }>();
+
+const buildKey = (namespace: CacheNamespace, key: string): string => `${namespace}:${key}`;
+
+/**
+ * Get a cached value, or undefined if missing or expired
+ */
+export const getCached = <T>(namespace: CacheNamespace, key: string): T | undefined => {
+  const fullKey = buildKey(namespace, key);
+  const entry = store.get(fullKey);
+
+  if (!entry) {
+    return undefined;
+  }
+
+  if (entry.expiresAt <= Date.now()) {
+    store.delete(fullKey);
+    return undefined;
+  }
+
+  return entry.value as T;
+};
+
+/**
+ * Cache a value for ttlSeconds
+ */
+export const setCached = <T>(namespace: CacheNamespace, key: string, value: T, ttlSeconds: number): void => {
+  store.set(buildKey(namespace, key), { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+};
+
+/**
+ * Drop every entry in a namespace
+ */
+export const invalidateCache = (namespace: CacheNamespace): void => {
+  const prefix = `${namespace}:`;
+  for (const key of store.keys()) {
+    if (key.startsWith(prefix)) {
+      store.delete(key);
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * DATE UTILITY FUNCTIONS
+ * Helpers for schedule dates and times
+ */
+
+/**
+ * Combine a schedule date with a time-of-day stored on a route or flight
+ * Routes and flights store departure/arrival as full DateTimes, but only
+ * the time portion is meaningful for a given schedule.
+ */
+export const combineDateAndTime = (date: Date, time: Date): Date => {
+  const combined = new Date(date);
+  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return combined;
+};
+
+/**
+ * Combine a date with a "HH:mm" time string (hotel check-in/out times)
+ */
+export const combineDateAndTimeString = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  const combined = new Date(date);
+  combined.setHours(hours || 0, minutes || 0, 0, 0);
+  return combined;
+};
+
+/**
+ * Hours between two dates (positive if `to` is after `from`)
+ */
+export const hoursBetween = (from: Date, to: Date): number =>
+  (to.getTime() - from.getTime()) / (1000 * 60 * 60);
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const formatDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Whole calendar days from `from` to `to` (local dates, time ignored)
+ */
+export const daysBetween = (from: Date, to: Date): number => {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+};
\ No newline at end of file
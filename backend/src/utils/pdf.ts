@@ -0,0 +1,93 @@
+/**
+ * PDF UTILITY FUNCTIONS
+ * Helpers for rendering PDF documents in memory
+ */
+
+import PDFDocument from 'pdfkit';
+
+export type PdfDocument = PDFKit.PDFDocument;
+
+/**
+ * Render a PDF document to a buffer
+ */
+export const renderPdf = (
+  build: (doc: PdfDocument) => void,
+  options: PDFKit.PDFDocumentOptions = { size: 'A4', margin: 40 }
+): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument(options);
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      build(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Format amount in INR for documents
+ */
+export const formatCurrency = (amount: number): string =>
+  `INR ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Format date as DD MMM YYYY
+ */
+export const formatDate = (date: Date): string =>
+  date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+/**
+ * Draw a two-column key/value block
+ */
+export const drawKeyValues = (
+  doc: PdfDocument,
+  rows: Array<[string, string]>,
+  labelWidth: number = 140
+): void => {
+  const x = doc.page.margins.left;
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fontSize(9).text(label, x, y, { width: labelWidth });
+    doc.font('Helvetica').fontSize(9).text(value, x + labelWidth, y);
+    doc.moveDown(0.3);
+  }
+  doc.x = x;
+};
+
+/**
+ * Draw a simple table with a header row
+ */
+export const drawTable = (
+  doc: PdfDocument,
+  columns: Array<{ header: string; width: number; align?: 'left' | 'right' | 'center' }>,
+  rows: string[][]
+): void => {
+  const startX = doc.page.margins.left;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    const y = doc.y;
+    let x = startX;
+    let maxHeight = 0;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    columns.forEach((column, index) => {
+      const text = cells[index] ?? '';
+      doc.text(text, x, y, { width: column.width, align: column.align || 'left' });
+      maxHeight = Math.max(maxHeight, doc.heightOfString(text, { width: column.width }));
+      x += column.width;
+    });
+    doc.y = y + maxHeight + 4;
+  };
+
+  drawRow(columns.map((column) => column.header), true);
+  const width = columns.reduce((sum, column) => sum + column.width, 0);
+  doc.moveTo(startX, doc.y - 2).lineTo(startX + width, doc.y - 2).stroke();
+  rows.forEach((row) => drawRow(row, false));
+  doc.x = startX;
+};
\ No newline at end of file
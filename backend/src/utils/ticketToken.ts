@@ -0,0 +1,115 @@
+/**
+ * TICKET TOKEN UTILITY FUNCTIONS
+ * Signed booking tokens embedded in e-ticket QR codes
+ *
+ * Tokens are signed with Ed25519 so operators and hotel front desks can
+ * check them offline with only the public key.
+ * Format: base64url(payload JSON).base64url(signature)
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { logger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TicketTokenPayload {
+  v: 1;
+  bn: string; // Booking number
+  cat: string; // BUS, AIRLINE, HOTEL
+  ref: string; // Schedule or room inventory ID
+  dt: string; // Departure / check-in date-time (ISO)
+  px: Array<{ n: string; s?: string }>; // Passenger name and seat
+  iat: number; // Issued at (epoch seconds)
+}
+
+// ============================================================================
+// KEY MANAGEMENT
+// ============================================================================
+
+let privateKey: KeyObject | null = null;
+let publicKey: KeyObject | null = null;
+
+const loadKeys = (): { privateKey: KeyObject; publicKey: KeyObject } => {
+  if (privateKey && publicKey) {
+    return { privateKey, publicKey };
+  }
+
+  const privatePem = process.env.TICKET_SIGNING_PRIVATE_KEY;
+  if (privatePem) {
+    privateKey = crypto.createPrivateKey(privatePem.replace(/\\n/g, '\n'));
+    publicKey = crypto.createPublicKey(privateKey);
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TICKET_SIGNING_PRIVATE_KEY is not configured');
+    }
+    // Development: ephemeral key pair, tickets do not survive restarts
+    logger.warn('TICKET_SIGNING_PRIVATE_KEY not set, using an ephemeral ticket signing key');
+    const pair = crypto.generateKeyPairSync('ed25519');
+    privateKey = pair.privateKey;
+    publicKey = pair.publicKey;
+  }
+
+  return { privateKey, publicKey };
+};
+
+/**
+ * Public key (PEM) for offline ticket verification
+ */
+export const getTicketPublicKeyPem = (): string =>
+  loadKeys().publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Sign a ticket payload
+ */
+export const signTicketToken = (payload: Omit<TicketTokenPayload, 'v' | 'iat'>): string => {
+  const fullPayload: TicketTokenPayload = {
+    v: 1,
+    ...payload,
+    iat: Math.floor(Date.now() / 1000),
+  };
+
+  const encoded = Buffer.from(JSON.stringify(fullPayload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(encoded), loadKeys().privateKey);
+
+  return `${encoded}.${signature.toString('base64url')}`;
+};
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a ticket token signature and decode its payload
+ * Returns null if the token is malformed or the signature does not match.
+ */
+export const verifyTicketToken = (token: string): TicketTokenPayload | null => {
+  const [encoded, signature] = token.trim().split('.');
+
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  try {
+    const valid = crypto.verify(
+      null,
+      Buffer.from(encoded),
+      loadKeys().publicKey,
+      Buffer.from(signature, 'base64url')
+    );
+
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return payload?.v === 1 ? (payload as TicketTokenPayload) : null;
+  } catch {
+    return null;
+  }
+};
\ No newline at end of file